@@ -0,0 +1,96 @@
+/**
+ * Local stand-in for Microsoft Graph change notifications
+ *
+ * Usage:
+ *   npm run webhook:stub -- <mailbox address>             # post a "created" notification
+ *   npm run webhook:stub -- <mailbox address> missed      # post a lifecycle event
+ *   npm run webhook:stub -- --validate                    # send a subscription validation request
+ *
+ * Uses the stored subscription of the mailbox. Without GRAPH_NOTIFICATION_URL no
+ * real subscription exists, so a local one (ID "stub-...") is registered first.
+ * Stub subscriptions keep the mailbox on its regular poll schedule.
+ */
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+import axios from 'axios';
+import { PrismaClient } from '@prisma/client';
+
+dotenv.config();
+
+const prisma = new PrismaClient();
+const webhookUrl =
+  process.env.WEBHOOK_URL ||
+  `http://localhost:${process.env.PORT || 3001}/api/webhooks/graph`;
+
+async function main() {
+  const [target, lifecycleEvent] = process.argv.slice(2);
+
+  if (!target) {
+    console.error('Usage: npm run webhook:stub -- <mailbox address> [lifecycle event] | --validate');
+    process.exit(1);
+  }
+
+  if (target === '--validate') {
+    const token = `stub-${Date.now()}`;
+    const response = await axios.post(webhookUrl, '', {
+      params: { validationToken: token },
+      headers: { 'Content-Type': 'text/plain' },
+    });
+    const echoed = response.data === token;
+    console.log(`${echoed ? '✓' : '✗'} Validation answered ${response.status}: ${response.data}`);
+    return;
+  }
+
+  const mailbox = await prisma.mailbox.findUnique({
+    where: { address: target.toLowerCase() },
+    include: { subscription: true },
+  });
+  if (!mailbox) {
+    console.error(`No mailbox ${target}`);
+    process.exit(1);
+  }
+
+  const subscription =
+    mailbox.subscription ??
+    (await prisma.mailboxSubscription.create({
+      data: {
+        id: `stub-${crypto.randomUUID()}`,
+        mailboxId: mailbox.id,
+        clientState: crypto.randomBytes(32).toString('hex'),
+        notificationUrl: webhookUrl,
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      },
+    }));
+
+  const notification = lifecycleEvent
+    ? { lifecycleEvent }
+    : {
+        changeType: 'created',
+        resource: `Users/${mailbox.id}/Messages/stub-${Date.now()}`,
+        resourceData: { '@odata.type': '#Microsoft.Graph.Message' },
+      };
+
+  const response = await axios.post(webhookUrl, {
+    value: [
+      {
+        subscriptionId: subscription.id,
+        clientState: subscription.clientState,
+        subscriptionExpirationDateTime: subscription.expiresAt.toISOString(),
+        ...notification,
+      },
+    ],
+  });
+
+  console.log(
+    `✓ Posted ${lifecycleEvent || 'created'} notification for ${mailbox.address} (${response.status})`
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error('✗ Stub failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
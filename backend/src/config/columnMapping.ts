@@ -9,8 +9,24 @@
  * - File format: DD/MM/YY Day (e.g., "01/11/25 Sat")
  * - Database format: YYYY-MM-DD (e.g., "2025-11-01")
  * - Conversion handled by parseStayDate() function
+ * - Profiles may set another date format and decimal separator, or detect them
+ *
+ * Hotels whose PMS orders columns differently get a ColumnMappingProfile;
+ * DEFAULT_COLUMN_MAPPING below describes this sample layout.
  */
 
+import { parseDateWithFormat } from '../utils/dateFormat.js';
+import type { ColumnMapping, DecimalSeparator } from '../types/fileProcessor.types.js';
+
+// Stay date format of the sample file (weekday names are ignored)
+export const DEFAULT_STAY_DATE_FORMAT = 'd/M/yy';
+
+// Profile date format that detects the format from the file
+export const AUTO_DATE_FORMAT = 'auto';
+
+// Stay dates of spreadsheet date cells (see cellToString in utils/fileFormat.ts)
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
 export const COLUMN_INDICES = {
   DATA_TYPE: 1,        // Column 1: "History" or "Forecast"
   STAY_DATE: 2,        // Column 2: Input: "DD/MM/YY Day" -> Output: YYYY-MM-DD
@@ -45,52 +61,59 @@ export const COLUMN_INDICES = {
 } as const;
 
 /**
- * Parse date from DD/MM/YY format to Date object
+ * Layout of the sample file, used for hotels without a mapping profile
+ */
+export const DEFAULT_COLUMN_MAPPING: ColumnMapping = {
+  skipLeadingColumn: true,
+  minColumnCount: 30,
+  dataTypeColumn: COLUMN_INDICES.DATA_TYPE,
+  stayDateColumn: COLUMN_INDICES.STAY_DATE,
+  roomNightsColumn: COLUMN_INDICES.ROOM_NIGHTS,
+  roomRevenueColumn: COLUMN_INDICES.ROOM_REVENUE,
+  ooRoomsColumn: COLUMN_INDICES.OO_ROOMS,
+  dateFormat: DEFAULT_STAY_DATE_FORMAT,
+  decimalSeparator: 'POINT',
+};
+
+/**
+ * Parse a stay date to a Date object
  * 
- * Input format: "DD/MM/YY Day" (e.g., "01/11/25 Sat")
+ * Input format: "DD/MM/YY Day" (e.g., "01/11/25 Sat") unless a format is given;
+ * a weekday name before or after the date is ignored. ISO dates (date cells of
+ * spreadsheets) are read whatever the format.
  * Output: JavaScript Date object
  * Database storage: YYYY-MM-DD (e.g., "2025-11-01")
  * 
- * @param dateStr - Date string from file in "DD/MM/YY Day" format
+ * @param dateStr - Date string from file
+ * @param format - Date format (tokens yyyy yy MM M dd d, yy is the year closest to now)
  * @returns Date object that will be stored as YYYY-MM-DD in PostgreSQL
  * 
  * @example
  * parseStayDate("01/11/25 Sat") // Returns Date object for 2025-11-01
- * parseStayDate("15/12/24 Mon") // Returns Date object for 2024-12-15
+ * parseStayDate("Mon 12/15/2024", "M/d/yyyy") // Returns Date object for 2024-12-15
  */
-export function parseStayDate(dateStr: string): Date {
-  // Extract just the date part (DD/MM/YY), removing the day name
-  const datePart = dateStr.split(' ')[0];
-  const [day, month, year] = datePart.split('/').map(Number);
-  
-  // Validate date components
-  if (!day || !month || !year) {
-    throw new Error(`Invalid date format: ${dateStr}. Expected DD/MM/YY Day`);
-  }
-  
-  if (day < 1 || day > 31) {
-    throw new Error(`Invalid day: ${day} in date ${dateStr}`);
-  }
-  
-  if (month < 1 || month > 12) {
-    throw new Error(`Invalid month: ${month} in date ${dateStr}`);
-  }
-  
-  // Convert 2-digit year to 4-digit (assuming 20xx)
-  const fullYear = 2000 + year;
-  
-  // Create Date object (month is 0-indexed in JavaScript)
-  // This will be stored as YYYY-MM-DD in PostgreSQL DATE column
-  const date = new Date(fullYear, month - 1, day);
-  
-  // Validate the date is valid (e.g., not Feb 30)
-  if (date.getDate() !== day || date.getMonth() !== month - 1) {
-    throw new Error(`Invalid date: ${dateStr} results in ${date.toISOString()}`);
+export function parseStayDate(dateStr: string, format: string = DEFAULT_STAY_DATE_FORMAT): Date {
+  const text = stripWeekday(dateStr);
+  const date = parseDateWithFormat(text, ISO_DATE.test(text) ? 'yyyy-MM-dd' : format);
+
+  // Also rejects dates that do not exist (e.g., Feb 30)
+  if (!date) {
+    throw new Error(`Invalid date: ${dateStr}. Expected ${format}`);
   }
-  
+
   return date;
 }
 
+/**
+ * Remove a weekday name (e.g. "Sat", "sáb.", "Monday,") before or after a date
+ */
+export function stripWeekday(dateStr: string): string {
+  return dateStr
+    .trim()
+    .replace(/^\p{L}+\.?,?\s+/u, '')
+    .replace(/\s+\p{L}+\.?$/u, '');
+}
+
 /**
  * Format Date object to YYYY-MM-DD string
  * 
@@ -112,18 +135,40 @@ export function formatDateToYYYYMMDD(date: Date): string {
 }
 
 /**
- * Parse numeric value that might have commas, spaces, or percentage signs
+ * Parse numeric value that might have thousands separators, spaces, or percentage signs
+ * @param value - Number text
+ * @param decimalSeparator - POINT reads "1,234.56", COMMA reads "1.234,56"
  */
-export function parseNumericValue(value: string): number {
+export function parseNumericValue(
+  value: string,
+  decimalSeparator: Exclude<DecimalSeparator, 'AUTO'> = 'POINT'
+): number {
   if (!value || value.trim() === '') return 0;
   
-  // Remove commas, spaces, and percentage signs
-  const cleaned = value.replace(/[,\s%]/g, '');
-  const parsed = parseFloat(cleaned);
+  const parsed = parseFloat(normalizeNumber(value, decimalSeparator));
   
   return isNaN(parsed) ? 0 : parsed;
 }
 
+/**
+ * Check whether a value can be read by parseNumericValue() (empty values cannot)
+ */
+export function isNumericValue(
+  value: string,
+  decimalSeparator: Exclude<DecimalSeparator, 'AUTO'> = 'POINT'
+): boolean {
+  return !isNaN(parseFloat(normalizeNumber(value, decimalSeparator)));
+}
+
+/**
+ * Remove thousands separators, spaces and percentage signs; use a point as decimal separator
+ */
+function normalizeNumber(value: string, decimalSeparator: Exclude<DecimalSeparator, 'AUTO'>): string {
+  return decimalSeparator === 'COMMA'
+    ? value.replace(/[.\s%]/g, '').replace(',', '.')
+    : value.replace(/[,\s%]/g, '');
+}
+
 /**
  * Parse data type from string to enum
  */
@@ -0,0 +1,118 @@
+/**
+ * Header names of the key values, as found in PMS exports
+ *
+ * Headers are compared after normalizeHeader() (lowercase letters and digits only),
+ * so "Rms Sold", "RMS-SOLD" and "rms_sold" are the same header.
+ * A normalized synonym may belong to one key value only.
+ */
+
+import type { KeyColumnField } from '../types/fileProcessor.types.js';
+
+export const HEADER_SYNONYMS: Record<KeyColumnField, string[]> = {
+  dataTypeColumn: [
+    'Type',
+    'Data Type',
+    'Record Type',
+    'Row Type',
+    'Hist/Fcst',
+    'History/Forecast',
+    'H/F',
+  ],
+  stayDateColumn: [
+    'Date',
+    'Stay Date',
+    'Stay',
+    'Business Date',
+    'Occupancy Date',
+    'Considered Date',
+    'Night',
+    'Day',
+    'Fecha',
+  ],
+  roomNightsColumn: [
+    'Room Nights',
+    'Rooms Sold',
+    'Rms Sold',
+    'RN',
+    'RNs',
+    'Nights',
+    'Occupied Rooms',
+    'Rooms Occupied',
+    'Occ Rooms',
+    'Sold',
+    'Habitaciones Vendidas',
+  ],
+  roomRevenueColumn: [
+    'Room Revenue',
+    'Rooms Revenue',
+    'Rm Rev',
+    'Room Rev',
+    'Revenue',
+    'Rev',
+    'Accommodation Revenue',
+    'Lodging Revenue',
+    'Ingresos Habitaciones',
+  ],
+  ooRoomsColumn: [
+    'Out of Order',
+    'Out of Order Rooms',
+    'OOO',
+    'OOO Rooms',
+    'OO Rooms',
+    'Out of Service',
+    'OOS',
+    'Fuera de Servicio',
+  ],
+};
+
+// Lines searched for a header row
+export const HEADER_SEARCH_LINES = 20;
+
+// Key values a row must name to count as a header
+const MIN_HEADER_MATCHES = 2;
+
+const SYNONYM_FIELDS = new Map<string, KeyColumnField>(
+  (Object.entries(HEADER_SYNONYMS) as [KeyColumnField, string[]][]).flatMap(
+    ([field, synonyms]) => synonyms.map((synonym) => [normalizeHeader(synonym), field] as const)
+  )
+);
+
+/**
+ * Reduce a header to lowercase letters and digits
+ */
+export function normalizeHeader(header: string): string {
+  return header
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Accents, e.g. "Habitación"
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Key value a header names
+ * @param header - Header cell text
+ * @returns Profile field of the key value, or null if the header is unknown
+ */
+export function matchHeaderField(header: string): KeyColumnField | null {
+  return SYNONYM_FIELDS.get(normalizeHeader(header)) ?? null;
+}
+
+/**
+ * Find the header row among the first lines of a file
+ * @param rows - Rows including column 0
+ * @returns 0-based index of the row naming the most key values, or -1 without one
+ */
+export function findHeaderRow(rows: string[][]): number {
+  let best = -1;
+  let bestMatches = MIN_HEADER_MATCHES - 1;
+
+  for (let i = 0; i < Math.min(rows.length, HEADER_SEARCH_LINES); i++) {
+    const fields = new Set(rows[i].map(matchHeaderField).filter((field) => field !== null));
+    if (fields.size > bestMatches) {
+      best = i;
+      bestMatches = fields.size;
+    }
+  }
+
+  return best;
+}
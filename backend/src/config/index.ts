@@ -12,12 +12,38 @@ interface Config {
     clientSecret: string;
     tenantId: string;
     redirectUri: string;
+    tokenEncryptionKey: string;
+    initialSyncDays: number;
+    notificationUrl: string;
   };
   email: {
     monitoredEmail: string;
   };
   scheduler: {
     emailCheckCron: string;
+    fallbackCron: string;
+  };
+  ingestion: {
+    sources: string[];
+    imap: {
+      host: string;
+      port: number;
+      secure: boolean;
+      user: string;
+      password: string;
+      mailbox: string;
+    };
+    watchFolder: {
+      path: string;
+      filePattern: string;
+      watch: boolean;
+    };
+    maxFileSizeMb: number;
+  };
+  queue: {
+    maxAttempts: number;
+    backoffBaseSeconds: number;
+    batchSize: number;
   };
   database: {
     url: string;
@@ -26,13 +52,25 @@ interface Config {
 }
 
 function validateConfig(): Config {
+  const ingestionSources = (process.env.INGESTION_SOURCES || 'graph')
+    .split(',')
+    .map((source) => source.trim().toLowerCase())
+    .filter((source) => source !== '');
+
   const requiredEnvVars = [
     'AZURE_STORAGE_CONNECTION_STRING',
-    'MS_GRAPH_CLIENT_ID',
-    'MS_GRAPH_CLIENT_SECRET',
     'DATABASE_URL',
   ];
 
+  // Graph credentials are only needed when the Outlook mailbox is polled
+  if (ingestionSources.includes('graph')) {
+    requiredEnvVars.push(
+      'MS_GRAPH_CLIENT_ID',
+      'MS_GRAPH_CLIENT_SECRET',
+      'TOKEN_ENCRYPTION_KEY'
+    );
+  }
+
   const missing = requiredEnvVars.filter((varName) => !process.env[varName]);
 
   if (missing.length > 0) {
@@ -47,10 +85,16 @@ function validateConfig(): Config {
       containerName: process.env.AZURE_BLOB_CONTAINER_NAME || 'hotel-files',
     },
     graph: {
-      clientId: process.env.MS_GRAPH_CLIENT_ID!,
-      clientSecret: process.env.MS_GRAPH_CLIENT_SECRET!,
+      clientId: process.env.MS_GRAPH_CLIENT_ID || '',
+      clientSecret: process.env.MS_GRAPH_CLIENT_SECRET || '',
       tenantId: process.env.MS_GRAPH_TENANT_ID || 'consumers',
-      redirectUri: process.env.REDIRECT_URI || 'http://localhost:3000/auth/callback',
+      redirectUri: process.env.REDIRECT_URI || 'http://localhost:3001/auth/callback',
+      // Encrypts stored refresh tokens (mailbox_credentials)
+      tokenEncryptionKey: process.env.TOKEN_ENCRYPTION_KEY || '',
+      // How far back the first delta sync (without a stored delta link) looks
+      initialSyncDays: Number(process.env.GRAPH_INITIAL_SYNC_DAYS) || 7,
+      // Public HTTPS URL of /api/webhooks/graph; enables change notifications when set
+      notificationUrl: process.env.GRAPH_NOTIFICATION_URL || '',
     },
     email: {
       monitoredEmail:
@@ -58,6 +102,32 @@ function validateConfig(): Config {
     },
     scheduler: {
       emailCheckCron: process.env.EMAIL_CHECK_CRON || '* * * * *',
+      // Sweep of mailboxes that receive change notifications (catches missed ones)
+      fallbackCron: process.env.GRAPH_FALLBACK_CRON || '*/30 * * * *',
+    },
+    ingestion: {
+      sources: ingestionSources,
+      imap: {
+        host: process.env.IMAP_HOST || '',
+        port: Number(process.env.IMAP_PORT) || 993,
+        secure: process.env.IMAP_SECURE !== 'false',
+        user: process.env.IMAP_USER || '',
+        password: process.env.IMAP_PASSWORD || '',
+        mailbox: process.env.IMAP_MAILBOX || 'INBOX',
+      },
+      watchFolder: {
+        path: process.env.WATCH_FOLDER_PATH || './watch',
+        filePattern:
+          process.env.WATCH_FOLDER_PATTERN || '^history_forecast.*\\.(txt|csv|xlsx|zip)$',
+        watch: process.env.WATCH_FOLDER_WATCH !== 'false',
+      },
+      // Files are held in memory (and in the queue) as a whole, so their size is capped
+      maxFileSizeMb: Number(process.env.MAX_FILE_SIZE_MB) || 100,
+    },
+    queue: {
+      maxAttempts: Number(process.env.QUEUE_MAX_ATTEMPTS) || 5,
+      backoffBaseSeconds: Number(process.env.QUEUE_BACKOFF_BASE_SECONDS) || 60,
+      batchSize: Number(process.env.QUEUE_BATCH_SIZE) || 20,
     },
     database: {
       url: process.env.DATABASE_URL!,
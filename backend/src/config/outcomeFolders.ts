@@ -0,0 +1,45 @@
+/**
+ * Where handled items end up, per pipeline outcome
+ *
+ * Mail sources move messages into these folders; the watch folder maps them
+ * onto processed/ and failed/. An email or archive with several files has one
+ * place, picked from the outcomes of all its files by pickOutcomeFolder().
+ */
+
+import type { IngestionOutcome, MailboxFolder } from '../types/ingestion.types.js';
+
+// Folder per outcome; the inbox keeps only mail that was not handled yet
+export const OUTCOME_FOLDERS: Record<IngestionOutcome, MailboxFolder | null> = {
+  QUEUED: null,
+  PROCESSED: 'processed',
+  ALREADY_PROCESSED: 'processed',
+  DUPLICATE: 'duplicate',
+  UNKNOWN_SENDER: 'unknownSender',
+  INACTIVE_HOTEL: 'unknownSender',
+  UNSUPPORTED_FILE: 'failed',
+  FAILED: 'failed',
+  REJECTED: 'failed',
+};
+
+// When the files of a message end differently, the first folder listed wins
+export const FOLDER_PRECEDENCE: MailboxFolder[] = [
+  'failed',
+  'unknownSender',
+  'duplicate',
+  'processed',
+];
+
+/**
+ * Folder for the outcomes of all files of a message or archive
+ * Unsupported files (logos, signatures) only count if nothing else was attached
+ * @param outcomes - Final outcomes of the files
+ * @returns Folder, or null if nothing was handled yet
+ */
+export function pickOutcomeFolder(outcomes: IngestionOutcome[]): MailboxFolder | null {
+  const relevant = outcomes.filter((outcome) => outcome !== 'UNSUPPORTED_FILE');
+  const folders = (relevant.length > 0 ? relevant : outcomes).map(
+    (outcome) => OUTCOME_FOLDERS[outcome]
+  );
+
+  return FOLDER_PRECEDENCE.find((folder) => folders.includes(folder)) ?? null;
+}
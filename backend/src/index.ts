@@ -4,9 +4,11 @@ import { config } from './config/index.js';
 import { prisma } from './utils/prisma.js';
 import { logger } from './utils/logger.js';
 import { blobStorageService } from './services/blobStorage.service.js';
-import { emailService } from './services/email.service.js';
+import { mailboxService } from './services/mailbox.service.js';
 import { startScheduler, stopScheduler } from './jobs/scheduler.js';
 import apiRoutes from './routes/api.js';
+import authRoutes from './routes/auth.js';
+import webhookRoutes from './routes/webhooks.js';
 import {
   setupSecurityMiddleware,
   apiRateLimiter,
@@ -64,9 +66,15 @@ app.get('/ready', async (_req, res) => {
   }
 });
 
+// Graph change notifications (not rate limited: Graph posts in bursts)
+app.use('/api/webhooks', webhookRoutes);
+
 // API routes with rate limiting
 app.use('/api', apiRateLimiter, apiRoutes);
 
+// OAuth redirect target for connecting the mailbox
+app.use('/auth', apiRateLimiter, authRoutes);
+
 // 404 handler
 app.use(notFoundHandler);
 
@@ -95,14 +103,21 @@ async function initialize(): Promise<void> {
     await blobStorageService.initialize();
     logger.info('Azure Blob Storage initialized');
 
-    // Step 3: Initialize Microsoft Graph client
-    logger.info('Initializing Microsoft Graph API...');
-    emailService.initializeClient();
-    logger.info('Microsoft Graph client initialized');
+    // Step 3: Register the monitored mailboxes (only when Outlook mailboxes are polled)
+    // Graph clients are created per mailbox on first use
+    if (config.ingestion.sources.includes('graph')) {
+      logger.info('Loading monitored mailboxes...');
+      await mailboxService.ensureDefaultMailbox();
+      const mailboxes = await mailboxService.getEnabledMailboxes();
+      logger.info(`${mailboxes.length} mailbox(es) enabled`, {
+        mailboxes: mailboxes.map((mailbox) => mailbox.address),
+      });
+    }
 
     // Step 4: Log configuration (without sensitive data)
     logger.info('Configuration loaded', {
       monitoredEmail: config.email.monitoredEmail,
+      ingestionSources: config.ingestion.sources,
       azureContainer: config.azure.containerName,
       cronSchedule: config.scheduler.emailCheckCron,
       port: API_PORT,
@@ -120,7 +135,7 @@ async function initialize(): Promise<void> {
     });
 
     // Step 6: Start the scheduler
-    startScheduler();
+    await startScheduler();
 
     logger.info('Application started successfully');
   } catch (error) {
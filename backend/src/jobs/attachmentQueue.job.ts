@@ -0,0 +1,318 @@
+import { config } from '../config/index.js';
+import { hotelService } from '../services/hotel.service.js';
+import { processedEmailService } from '../services/processedEmail.service.js';
+import { blobStorageService } from '../services/blobStorage.service.js';
+import { FileParseError } from '../services/fileProcessor.service.js';
+import { snapshotService } from '../services/snapshot.service.js';
+import { snapshotTimeService } from '../services/snapshotTime.service.js';
+import { columnMappingService } from '../services/columnMapping.service.js';
+import { ingestionRunService } from '../services/ingestionRun.service.js';
+import {
+  attachmentQueueService,
+  type QueuedAttachmentSummary,
+} from '../services/attachmentQueue.service.js';
+import { receiptService } from '../services/receipt.service.js';
+import { mailboxService } from '../services/mailbox.service.js';
+import { ingestionSourceRegistry } from '../sources/registry.js';
+import { calculateFileHash } from '../utils/fileHash.js';
+import { detectFileFormat } from '../utils/fileFormat.js';
+import { logger } from '../utils/logger.js';
+import type {
+  IngestionOutcome,
+  ItemResult,
+  QueueSummary,
+  SourceItem,
+} from '../types/ingestion.types.js';
+import type { ImportSnapshotResult } from '../types/fileProcessor.types.js';
+
+/**
+ * Attachment queue worker
+ * Claims due attachments and runs them through the pipeline. Thrown errors
+ * (DB, blob storage) are retried with backoff until max attempts, then dead-lettered.
+ */
+export async function processAttachmentQueue(): Promise<QueueSummary> {
+  const summary: QueueSummary = {
+    claimed: 0,
+    completed: 0,
+    retried: 0,
+    deadLettered: 0,
+  };
+
+  const attachments = await attachmentQueueService.claimDue(
+    config.queue.batchSize
+  );
+  summary.claimed = attachments.length;
+
+  if (attachments.length === 0) {
+    return summary;
+  }
+
+  logger.info(`Processing ${attachments.length} queued attachment(s)`);
+
+  // One file in memory at a time
+  for (const attachment of attachments) {
+    const item = attachmentQueueService.toSourceItem(
+      attachment,
+      await attachmentQueueService.getContent(attachment.id)
+    );
+
+    let result: ItemResult;
+    try {
+      console.log(
+        `\n  Processing queued attachment: ${item.filename} (attempt ${attachment.attempts}/${attachment.maxAttempts})`
+      );
+
+      result = await ingestAttachment(attachment, item);
+
+      // The outcome and the queue row are stored together; only then is the file dropped
+      await attachmentQueueService.markCompleted(
+        attachment.id,
+        await ingestionRunService.buildItemCompletion(attachment.ingestionItemId, result)
+      );
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      await handleFailedAttempt(attachment, item, errorMsg, summary);
+      continue;
+    }
+
+    // The item is done; a failing receipt or move must not retry it
+    // Reply before completing: moving a message changes its Graph ID
+    await receiptService.sendReceipt(item, result);
+    await completeAtSource(item, result.outcome);
+    summary.completed++;
+  }
+
+  console.log(
+    `Queue pass: ${summary.completed} completed, ${summary.retried} retried, ${summary.deadLettered} dead-lettered`
+  );
+
+  return summary;
+}
+
+/**
+ * Run a queued attachment through the pipeline:
+ * hash dedupe → blob upload → snapshot record → parse → save
+ * A retry resumes at parsing once the snapshot has been registered.
+ * @param attachment - Claimed queue row
+ * @param item - Source item rebuilt from the queue row
+ * @returns Final outcome (thrown errors are retried)
+ */
+async function ingestAttachment(
+  attachment: QueuedAttachmentSummary,
+  item: SourceItem
+): Promise<ItemResult> {
+  // Identify hotel (within the hotel scope of the receiving mailbox)
+  const hotelScope = item.mailboxId
+    ? await mailboxService.getHotelScope(item.mailboxId)
+    : undefined;
+  const hotel = await hotelService.resolveHotel(
+    item.hotelHint,
+    item.filename,
+    hotelScope
+  );
+  if (!hotel) {
+    console.warn(
+      `  ⚠ No hotel found for ${item.hotelHint.senderEmail || item.hotelHint.hotelId}, skipping...`
+    );
+    return { outcome: 'UNKNOWN_SENDER' };
+  }
+
+  if (!hotel.isActive) {
+    console.warn(`  ⚠ Hotel ${hotel.name} is inactive, skipping...`);
+    return { outcome: 'INACTIVE_HOTEL', hotelId: hotel.id };
+  }
+
+  console.log(`  ✓ Hotel identified: ${hotel.name} (${hotel.id})`);
+
+  // Filter for supported formats (archives are expanded before queueing)
+  const format = detectFileFormat(item.bytes, item.filename);
+  if (!format || format === 'zip') {
+    console.log(`  ⊘ Skipping unsupported file: ${item.filename}`);
+    return { outcome: 'UNSUPPORTED_FILE', hotelId: hotel.id };
+  }
+
+  const fileHash = calculateFileHash(item.bytes);
+  const totalAvailableRooms = hotel.totalAvailableRooms || 0;
+  let snapshotId = attachment.snapshotId;
+
+  if (!snapshotId) {
+    console.log(`  ✓ File hash: ${fileHash.substring(0, 16)}...`);
+
+    // Check for duplicate by hash
+    const existingSnapshot = await snapshotService.checkDuplicateByHash(fileHash);
+    if (existingSnapshot) {
+      console.log(
+        `  ⊘ Duplicate file detected (snapshot ${existingSnapshot.id}), skipping...`
+      );
+      return {
+        outcome: 'DUPLICATE',
+        hotelId: hotel.id,
+        snapshotId: existingSnapshot.id,
+      };
+    }
+
+    // Upload to Azure Blob Storage
+    console.log(`  ↑ Uploading to Azure Blob Storage...`);
+    const blobUrl = await blobStorageService.uploadFile(
+      hotel.id,
+      item.filename,
+      item.bytes
+    );
+    console.log(`  ✓ Uploaded to: ${blobUrl}`);
+
+    // Resolve snapshot time with the strategy chain of the hotel
+    const { snapshotTime, source: snapshotTimeSource } =
+      await snapshotTimeService.resolveSnapshotTime(hotel, item);
+    console.log(`  ✓ Snapshot time: ${snapshotTime.toISOString()} (${snapshotTimeSource})`);
+
+    // Phase 1: Register snapshot
+    const snapshot = await snapshotService.createSnapshotRecord(
+      {
+        hotelId: hotel.id,
+        snapshotTime,
+        snapshotTimeSource,
+        originalFilename: item.filename,
+        blobUrl,
+        fileHash,
+        uploadedAt: new Date(),
+      },
+      totalAvailableRooms
+    );
+    snapshotId = snapshot.id;
+    await attachmentQueueService.setSnapshot(attachment.id, hotel.id, snapshotId);
+    console.log(`  ✓ Snapshot created: ${snapshotId}`);
+  } else {
+    console.log(`  ↻ Resuming snapshot ${snapshotId}`);
+  }
+
+  // Phase 2: Parse, validate and save in batches
+  // (a broken file will not get better by retrying; DB errors are thrown and retried)
+  let imported: ImportSnapshotResult;
+  try {
+    imported = await snapshotService.importSnapshotFile(
+      snapshotId,
+      item.bytes,
+      item.filename,
+      await columnMappingService.getHotelMapping(hotel.id)
+    );
+  } catch (parseError) {
+    if (!(parseError instanceof FileParseError)) {
+      throw parseError;
+    }
+    console.error(`  ✗ Error parsing data: ${parseError.message}`);
+    return {
+      outcome: 'FAILED',
+      hotelId: hotel.id,
+      snapshotId,
+      error: parseError.message,
+    };
+  }
+
+  const { violations, driftFindings, rowCount, skippedLines, skippedLineCount } = imported;
+  if (violations.length > 0) {
+    const errorMsg = violations.map((violation) => violation.message).join('; ');
+    console.warn(`  ✗ Rejected by validation policy: ${errorMsg}`);
+    return {
+      outcome: 'REJECTED',
+      hotelId: hotel.id,
+      snapshotId,
+      rowCount: 0,
+      error: errorMsg,
+      skippedLines,
+      skippedLineCount,
+    };
+  }
+  console.log(`  ✓ Data saved successfully (${rowCount} rows)`);
+
+  // Update seed snapshot with last 7 days history if applicable
+  // (not from a file whose columns may have moved)
+  if (driftFindings.length > 0) {
+    console.warn(`  ⚠ Schema drift suspected: ${driftFindings.map((finding) => finding.message).join('; ')}`);
+  }
+  if (imported.recentHistoryRows.length > 0 && driftFindings.length === 0) {
+    await snapshotService.updateSeedActualsWithHistory(hotel.id, imported.recentHistoryRows);
+  }
+
+  // Record processed message once (several attachments can share one message)
+  if (!(await processedEmailService.isEmailProcessed(item.externalId))) {
+    await processedEmailService.recordProcessedEmail({
+      messageId: item.externalId,
+      sender: item.hotelHint.senderEmail || item.source,
+      subject: item.hotelHint.subject || item.filename,
+      receivedAt: item.receivedAt,
+      processedAt: new Date(),
+      fileHash,
+    });
+  }
+
+  return {
+    outcome: 'PROCESSED',
+    hotelId: hotel.id,
+    snapshotId,
+    rowCount,
+    skippedLines,
+    skippedLineCount,
+  };
+}
+
+/**
+ * Schedule a retry, or dead-letter the attachment once its attempts are used up
+ * Never throws, so one attachment cannot stop the rest of the claimed batch;
+ * a row left PROCESSING is claimed again once its lock is stale
+ */
+async function handleFailedAttempt(
+  attachment: QueuedAttachmentSummary,
+  item: SourceItem,
+  errorMsg: string,
+  summary: QueueSummary
+): Promise<void> {
+  try {
+    const isDead = await attachmentQueueService.markFailed(attachment, errorMsg);
+
+    if (!isDead) {
+      console.warn(`  ⚠ ${item.filename} failed, will retry: ${errorMsg}`);
+      summary.retried++;
+      return;
+    }
+
+    console.error(
+      `  ✗ ${item.filename} dead-lettered after ${attachment.attempts} attempt(s): ${errorMsg}`
+    );
+    summary.deadLettered++;
+    const result: ItemResult = {
+      outcome: 'FAILED',
+      hotelId: attachment.hotelId ?? undefined,
+      snapshotId: attachment.snapshotId ?? undefined,
+      error: errorMsg,
+    };
+    await ingestionRunService.completeItem(attachment.ingestionItemId, result);
+    await receiptService.sendReceipt(item, result);
+    await completeAtSource(item, 'FAILED');
+  } catch (error) {
+    console.error(`  ✗ Error recording the failure of ${item.filename}:`, error);
+  }
+}
+
+/**
+ * Let the originating source tidy up (e.g. move the file); never fail the worker for it
+ */
+async function completeAtSource(
+  item: SourceItem,
+  outcome: IngestionOutcome
+): Promise<void> {
+  const source = ingestionSourceRegistry.get(item.source);
+  if (!source) {
+    return;
+  }
+
+  try {
+    await source.complete(item, outcome);
+  } catch (error) {
+    console.error(
+      `✗ Error completing ${item.filename} at source ${item.source}:`,
+      error
+    );
+  }
+}
+
+export default processAttachmentQueue;
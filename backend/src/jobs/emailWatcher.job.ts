@@ -1,263 +1,166 @@
-import { emailService } from '../services/email.service.js';
-import { hotelService } from '../services/hotel.service.js';
 import { processedEmailService } from '../services/processedEmail.service.js';
-import { blobStorageService } from '../services/blobStorage.service.js';
-import { fileProcessorService } from '../services/fileProcessor.service.js';
-import { snapshotService } from '../services/snapshot.service.js';
-import { calculateFileHash } from '../utils/fileHash.js';
+import { ingestionRunService } from '../services/ingestionRun.service.js';
+import { attachmentQueueService } from '../services/attachmentQueue.service.js';
+import { ingestionSourceRegistry } from '../sources/registry.js';
+import { config } from '../config/index.js';
+import { detectFileFormat, expandZip } from '../utils/fileFormat.js';
 import { logger } from '../utils/logger.js';
-
-interface ProcessingSummary {
-  totalEmails: number;
-  processedEmails: number;
-  skippedEmails: number;
-  snapshotsCreated: number;
-  errors: number;
-  errorDetails: string[];
-}
+import type {
+  FetchedItem,
+  IngestionSource,
+  ProcessingSummary,
+  SourceItem,
+} from '../types/ingestion.types.js';
 
 /**
- * Main email processing job
- * Orchestrates the entire pipeline from email to database
+ * Main ingestion job
+ * Polls the enabled ingestion sources and puts new files on the durable
+ * attachment queue; the queue worker (attachmentQueue.job.ts) processes them
+ * @param sources - Sources to poll (default: all enabled sources)
  */
-export async function processEmails(): Promise<ProcessingSummary> {
+export async function processEmails(
+  sources: IngestionSource[] = ingestionSourceRegistry.getEnabledSources()
+): Promise<ProcessingSummary> {
   const summary: ProcessingSummary = {
-    totalEmails: 0,
-    processedEmails: 0,
-    skippedEmails: 0,
-    snapshotsCreated: 0,
+    sources: [],
+    totalItems: 0,
+    queuedItems: 0,
+    skippedItems: 0,
     errors: 0,
     errorDetails: [],
   };
 
+  logger.info('Starting ingestion job');
+
+  summary.sources = sources.map((source) => source.name);
+
+  // Persist the run so outcomes can be looked up later
+  const run = await ingestionRunService.startRun(summary.sources);
+
   try {
-    logger.info('Starting email processing job');
+    // Step 1: Poll all selected sources at once
+    const results = await Promise.allSettled(
+      sources.map((source) => source.fetchItems())
+    );
 
-    // Step 1: Fetch new emails
-    const emails = await emailService.getNewEmails();
-    summary.totalEmails = emails.length;
+    const queue: { source: IngestionSource; item: FetchedItem }[] = [];
+    // Sources whose items were all enqueued may commit their sync cursor
+    const committable = new Set<IngestionSource>();
+    results.forEach((result, index) => {
+      const source = sources[index];
+      if (result.status === 'fulfilled') {
+        result.value.forEach((item) => queue.push({ source, item }));
+        committable.add(source);
+      } else {
+        // A failing source must not block the others
+        const errorMsg =
+          result.reason instanceof Error
+            ? result.reason.message
+            : 'Unknown error';
+        console.error(`✗ Error polling source ${source.name}: ${errorMsg}`);
+        summary.errors++;
+        summary.errorDetails.push(`Source ${source.name}: ${errorMsg}`);
+      }
+    });
+
+    summary.totalItems = queue.length;
 
-    if (emails.length === 0) {
-      logger.info('No new emails found');
+    if (queue.length === 0) {
+      logger.info('No new items found');
+      await commitSources(committable, summary);
+      await ingestionRunService.finishRun(run.id, summary);
       return summary;
     }
 
-    logger.info(`Found ${emails.length} new email(s) to process`);
+    logger.info(`Found ${queue.length} new item(s) to enqueue`);
 
-    // Step 2: Process each email
-    for (const email of emails) {
+    // Step 2: Enqueue each item
+    for (const { source, item: fetched } of queue) {
       try {
-        logger.info('Processing email', {
-          messageId: email.messageId,
-          from: email.sender,
-          subject: email.subject,
-          received: email.receivedAt.toISOString(),
+        logger.info('Enqueueing item', {
+          source: source.name,
+          externalId: fetched.externalId,
+          filename: fetched.filename,
+          from: fetched.hotelHint.senderEmail,
+          received: fetched.receivedAt.toISOString(),
         });
 
+        const item = await loadItem(fetched);
+
         // Check if already processed
         const isProcessed = await processedEmailService.isEmailProcessed(
-          email.messageId
+          item.externalId
         );
         if (isProcessed) {
-          console.log(`  ⊘ Email already processed, skipping...`);
-          summary.skippedEmails++;
-          continue;
-        }
-
-        // Identify hotel
-        const hotel = await hotelService.getHotelByEmail(email.sender);
-        if (!hotel) {
-          console.warn(
-            `  ⚠ No hotel found for sender: ${email.sender}, skipping...`
-          );
-          summary.skippedEmails++;
-          continue;
-        }
-
-        if (!hotel.isActive) {
-          console.warn(
-            `  ⚠ Hotel ${hotel.name} is inactive, skipping...`
-          );
-          summary.skippedEmails++;
+          console.log(`  ⊘ Item already processed, skipping...`);
+          summary.skippedItems++;
+          await ingestionRunService.recordItem(run.id, item, {
+            outcome: 'ALREADY_PROCESSED',
+          });
+          await source.complete(item, 'ALREADY_PROCESSED');
           continue;
         }
 
-        console.log(`  ✓ Hotel identified: ${hotel.name} (${hotel.id})`);
-
-        // Get attachments
-        const attachments = await emailService.getAttachments(
-          email.messageId
-        );
-
-        if (attachments.length === 0) {
-          console.warn(`  ⚠ No attachments found in email, skipping...`);
-          summary.skippedEmails++;
+        // Archives are queued per inner file
+        let files: SourceItem[];
+        try {
+          files = expandItem(item);
+        } catch (fileError) {
+          const errorMsg =
+            fileError instanceof Error
+              ? fileError.message
+              : 'Unknown error';
+          console.error(`  ✗ Cannot queue ${item.filename}: ${errorMsg}`);
+          summary.errors++;
+          summary.errorDetails.push(`${item.filename}: ${errorMsg}`);
+          // Retrying will not repair a broken archive or shrink a file
+          await ingestionRunService.recordItem(run.id, item, {
+            outcome: 'FAILED',
+            error: errorMsg,
+          });
+          await source.acknowledge(item);
+          await source.complete(item, 'FAILED');
           continue;
         }
 
-        console.log(`  ✓ Found ${attachments.length} attachment(s)`);
-
-        // Process each attachment (txt files only)
-        for (const attachment of attachments) {
-          try {
-            // Filter for .txt files
-            if (!attachment.name.toLowerCase().endsWith('.txt')) {
-              console.log(
-                `  ⊘ Skipping non-txt file: ${attachment.name}`
-              );
-              continue;
-            }
-
-            console.log(`\n  Processing attachment: ${attachment.name}`);
-
-            // Calculate file hash
-            const fileHash = calculateFileHash(attachment.contentBytes);
-            console.log(`  ✓ File hash: ${fileHash.substring(0, 16)}...`);
-
-            // Check for duplicate by hash
-            const existingSnapshot =
-              await snapshotService.checkDuplicateByHash(fileHash);
-            if (existingSnapshot) {
-              console.log(
-                `  ⊘ Duplicate file detected (snapshot ${existingSnapshot.id}), skipping...`
-              );
-              continue;
-            }
-
-            // Upload to Azure Blob Storage
-            console.log(`  ↑ Uploading to Azure Blob Storage...`);
-            const blobUrl = await blobStorageService.uploadFile(
-              hotel.id,
-              attachment.name,
-              attachment.contentBytes
-            );
-            console.log(`  ✓ Uploaded to: ${blobUrl}`);
-
-            // Mark email as read immediately after successful upload
-            // This prevents re-processing even if parsing fails later
-            await emailService.markAsProcessed(email.messageId);
-            console.log(`  ✓ Email marked as read (file safely stored in blob)`);
-
-            // Extract snapshot time from filename or use email received time
-            const snapshotTime = fileProcessorService.extractSnapshotTime(
-              attachment.name
-            );
-            console.log(
-              `  ✓ Snapshot time: ${snapshotTime.toISOString()}`
-            );
-
-            // Phase 1: Register snapshot
-            console.log(`  ⚙ Creating snapshot record...`);
-            const totalAvailableRooms = hotel.totalAvailableRooms || 0;
-            const snapshot = await snapshotService.createSnapshotRecord(
-              {
-                hotelId: hotel.id,
-                snapshotTime,
-                originalFilename: attachment.name,
-                blobUrl,
-                fileHash,
-                uploadedAt: new Date(),
-              },
-              totalAvailableRooms
-            );
-            console.log(`  ✓ Snapshot created: ${snapshot.id}`);
-
-            // Phase 2: Parse and save data
-            try {
-              console.log(`  ⚙ Parsing file...`);
-              const parsedRows =
-                fileProcessorService.parseHistoryForecastFile(
-                  attachment.contentBytes,
-                  totalAvailableRooms
-                );
-              console.log(`  ✓ Parsed ${parsedRows.length} rows`);
-
-              console.log(`  ⚙ Saving data to database...`);
-              await snapshotService.saveSnapshotData(
-                snapshot.id,
-                parsedRows
-              );
-              console.log(
-                `  ✓ Data saved successfully (${parsedRows.length} rows)`
-              );
-
-              // Update seed snapshot with last 7 days history if applicable
-              const historyRows = parsedRows.filter((row) => row.dataType === 'HISTORY');
-              if (historyRows.length > 0) {
-                console.log(`  ⚙ Checking for seed snapshot override...`);
-                await snapshotService.updateSeedActualsWithHistory(
-                  hotel.id,
-                  parsedRows
-                );
-              }
-
-              summary.snapshotsCreated++;
-            } catch (parseError) {
-              const errorMsg =
-                parseError instanceof Error
-                  ? parseError.message
-                  : 'Unknown parsing error';
-              console.error(`  ✗ Error parsing/saving data: ${errorMsg}`);
-              await snapshotService.markSnapshotFailed(
-                snapshot.id,
-                errorMsg
-              );
-              summary.errors++;
-              summary.errorDetails.push(
-                `${attachment.name}: ${errorMsg}`
-              );
-              // Continue processing other attachments
-              continue;
-            }
-
-            // Record processed email (after successful processing)
-            await processedEmailService.recordProcessedEmail({
-              messageId: email.messageId,
-              sender: email.sender,
-              subject: email.subject,
-              receivedAt: email.receivedAt,
-              processedAt: new Date(),
-              fileHash,
-            });
-            console.log(`  ✓ Email recorded as processed`);
-
-            summary.processedEmails++;
-          } catch (attachmentError) {
-            const errorMsg =
-              attachmentError instanceof Error
-                ? attachmentError.message
-                : 'Unknown error';
-            console.error(
-              `  ✗ Error processing attachment ${attachment.name}: ${errorMsg}`
-            );
-            summary.errors++;
-            summary.errorDetails.push(`${attachment.name}: ${errorMsg}`);
-            // Continue with next attachment
+        for (const file of files) {
+          const isNew = await attachmentQueueService.enqueue(run.id, file);
+          if (isNew) {
+            summary.queuedItems++;
+            console.log(`  ✓ Queued ${file.filename}`);
+          } else {
+            summary.skippedItems++;
+            console.log(`  ⊘ ${file.filename} is already queued, skipping...`);
           }
         }
-      } catch (emailError) {
+
+        // Acknowledge once the file is safely stored in the queue
+        // This prevents re-fetching even if processing fails later
+        await source.acknowledge(item);
+      } catch (itemError) {
+        // Not acknowledged, so the source offers the item again next run
         const errorMsg =
-          emailError instanceof Error
-            ? emailError.message
+          itemError instanceof Error
+            ? itemError.message
             : 'Unknown error';
         console.error(
-          `✗ Error processing email ${email.messageId}: ${errorMsg}`
+          `✗ Error enqueueing ${fetched.filename} (${fetched.externalId}): ${errorMsg}`
         );
         summary.errors++;
-        summary.errorDetails.push(
-          `Email ${email.messageId}: ${errorMsg}`
-        );
-        // Continue with next email
+        summary.errorDetails.push(`${fetched.filename}: ${errorMsg}`);
+        committable.delete(source);
       }
     }
 
+    await commitSources(committable, summary);
+
     // Print summary
     console.log('\n' + '='.repeat(80));
-    console.log('Email Processing Summary:');
-    console.log(`  Total emails found: ${summary.totalEmails}`);
-    console.log(`  Processed: ${summary.processedEmails}`);
-    console.log(`  Skipped: ${summary.skippedEmails}`);
-    console.log(`  Snapshots created: ${summary.snapshotsCreated}`);
+    console.log('Ingestion Summary:');
+    console.log(`  Sources polled: ${summary.sources.join(', ')}`);
+    console.log(`  Total items found: ${summary.totalItems}`);
+    console.log(`  Queued: ${summary.queuedItems}`);
+    console.log(`  Skipped: ${summary.skippedItems}`);
     console.log(`  Errors: ${summary.errors}`);
     if (summary.errorDetails.length > 0) {
       console.log('  Error details:');
@@ -267,16 +170,94 @@ export async function processEmails(): Promise<ProcessingSummary> {
     }
     console.log('='.repeat(80));
 
+    await ingestionRunService.finishRun(run.id, summary);
     return summary;
   } catch (error) {
-    console.error('Fatal error in email processing job:', error);
+    console.error('Fatal error in ingestion job:', error);
     summary.errors++;
     summary.errorDetails.push(
       error instanceof Error ? error.message : 'Unknown fatal error'
     );
+    await ingestionRunService.finishRun(run.id, summary, true);
     throw error;
+  } finally {
+    await closeSources(sources);
   }
 }
 
-export default processEmails;
+/**
+ * Let sources persist their sync cursor; a failure only means the same
+ * items are offered again next run
+ */
+async function commitSources(
+  sources: Set<IngestionSource>,
+  summary: ProcessingSummary
+): Promise<void> {
+  for (const source of sources) {
+    try {
+      await source.commit?.();
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`✗ Error committing source ${source.name}: ${errorMsg}`);
+      summary.errors++;
+      summary.errorDetails.push(`Source ${source.name}: ${errorMsg}`);
+    }
+  }
+}
+
+/**
+ * Read the content of an item whose source listed it without
+ */
+async function loadItem(item: FetchedItem): Promise<SourceItem> {
+  const bytes = Buffer.isBuffer(item.bytes) ? item.bytes : await item.bytes();
+  return { ...item, bytes };
+}
+
+/**
+ * Replace a zip archive by one item per inner file
+ * Inner files keep the external ID of the archive, so the source completes
+ * the original message or file
+ * @param item - Item from the source
+ * @returns The item itself or its inner files (throws if one is over the size limit)
+ */
+function expandItem(item: SourceItem): SourceItem[] {
+  if (detectFileFormat(item.bytes, item.filename) !== 'zip') {
+    checkFileSize(item.filename, item.bytes);
+    return [item];
+  }
+
+  const entries = expandZip(item.bytes);
+  console.log(`  ✓ Expanded ${item.filename} into ${entries.length} file(s)`);
 
+  return entries.map((entry) => {
+    checkFileSize(entry.filename, entry.bytes);
+    return { ...item, filename: entry.filename, bytes: entry.bytes };
+  });
+}
+
+/**
+ * Files are stored in the queue as a whole, so their size is capped
+ */
+function checkFileSize(filename: string, bytes: Buffer): void {
+  const maxBytes = config.ingestion.maxFileSizeMb * 1024 * 1024;
+  if (bytes.length > maxBytes) {
+    throw new Error(
+      `${filename} is larger than ${config.ingestion.maxFileSizeMb} MB (MAX_FILE_SIZE_MB)`
+    );
+  }
+}
+
+/**
+ * Let sources close what they kept open during the poll
+ */
+async function closeSources(sources: IngestionSource[]): Promise<void> {
+  for (const source of sources) {
+    try {
+      await source.close?.();
+    } catch (error) {
+      console.error(`✗ Error closing source ${source.name}:`, error);
+    }
+  }
+}
+
+export default processEmails;
@@ -0,0 +1,61 @@
+import { metricRecomputeService } from '../services/metricRecompute.service.js';
+import { roomInventoryService } from '../services/roomInventory.service.js';
+import { logger } from '../utils/logger.js';
+import type { CapacityRules } from '../types/fileProcessor.types.js';
+
+// Rows recalculated (and written) per transaction
+const BATCH_SIZE = 1000;
+
+/**
+ * Recalculate occupancy, ADR and RevPAR of the rows of a recompute
+ * Rows are read in ID order, so rows saved meanwhile do not shift the batches.
+ * Never throws: a failure is stored on the recompute.
+ * @param recomputeId - Recompute created by metricRecomputeService.startRecompute()
+ */
+export async function runMetricRecompute(recomputeId: string): Promise<void> {
+  try {
+    const recompute = await metricRecomputeService.getRecomputeById(recomputeId);
+    if (!recompute) {
+      throw new Error(`Metric recompute ${recomputeId} not found`);
+    }
+
+    const capacity = roomInventoryService.toCapacity(recompute.capacityRules as CapacityRules);
+
+    let processed = 0;
+    let changed = 0;
+    let lastId: string | null = null;
+    do {
+      const batch = await metricRecomputeService.recalculateBatch(
+        recompute,
+        capacity,
+        lastId,
+        BATCH_SIZE
+      );
+      processed += batch.processed;
+      changed += batch.changed;
+      lastId = batch.lastId;
+    } while (lastId !== null);
+
+    await metricRecomputeService.completeRecompute(recomputeId);
+    logger.info('Metric recompute completed', {
+      recomputeId,
+      hotelId: recompute.hotelId,
+      processed,
+      changed,
+    });
+  } catch (error) {
+    logger.error('Metric recompute failed', { error, recomputeId });
+    await metricRecomputeService.failRecompute(
+      recomputeId,
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+}
+
+/**
+ * Run a recompute in the background (e.g. after answering the request)
+ * @param recomputeId - Recompute ID
+ */
+export function triggerMetricRecompute(recomputeId: string): void {
+  void runMetricRecompute(recomputeId);
+}
@@ -1,15 +1,38 @@
+import fs from 'fs';
+import path from 'path';
 import cron from 'node-cron';
 import { config } from '../config/index.js';
+import { mailboxService } from '../services/mailbox.service.js';
+import { graphSubscriptionService } from '../services/graphSubscription.service.js';
+import { ingestionSourceRegistry } from '../sources/registry.js';
+import { graphIngestionSource } from '../sources/graph.source.js';
+import { localDirectoryIngestionSource } from '../sources/localDirectory.source.js';
 import { processEmails } from './emailWatcher.job.js';
+import { processAttachmentQueue } from './attachmentQueue.job.js';
+import type { IngestionSource } from '../types/ingestion.types.js';
 
 // Job locks to prevent overlapping runs
 let isRunning = false;
+const runningMailboxes = new Set<string>(); // Each mailbox has its own lock
+const rerunMailboxes = new Set<string>(); // Notified while their poll was running
+
+// Poll schedule per mailbox, with the cron expression it was created for
+const mailboxTasks = new Map<
+  string,
+  { cronExpression: string; task: cron.ScheduledTask }
+>();
+
+// Watch folder state
+let folderWatcher: fs.FSWatcher | null = null;
+let watchDebounce: NodeJS.Timeout | null = null;
+const WATCH_DEBOUNCE_MS = 2000; // Wait for writes to settle before ingesting
 
 /**
  * Start the email watcher scheduler
- * Runs the email processing job at specified intervals
+ * Runs the email processing job at specified intervals; Graph mailboxes are
+ * polled independently on their own schedule
  */
-export function startScheduler(): void {
+export async function startScheduler(): Promise<void> {
   const cronExpression = config.scheduler.emailCheckCron;
 
   console.log(`\n${'='.repeat(80)}`);
@@ -37,7 +60,12 @@ export function startScheduler(): void {
     isRunning = true;
 
     try {
-      await processEmails();
+      // Pick up mailboxes added, changed or disabled through the API
+      if (isGraphEnabled()) {
+        await graphSubscriptionService.ensureSubscriptions();
+        await syncMailboxSchedules();
+      }
+      await runIngestion(getSharedSources());
     } catch (error) {
       console.error('Error in scheduled job:', error);
     } finally {
@@ -45,9 +73,187 @@ export function startScheduler(): void {
     }
   });
 
+  if (isGraphEnabled()) {
+    await graphSubscriptionService.ensureSubscriptions();
+    await syncMailboxSchedules();
+  }
+
+  // Trigger the directory source on file changes instead of waiting for cron
+  if (
+    config.ingestion.sources.includes(localDirectoryIngestionSource.name) &&
+    config.ingestion.watchFolder.watch
+  ) {
+    startFolderWatcher();
+  }
+
   console.log('✓ Scheduler started successfully\n');
 }
 
+/**
+ * Watch the local folder and ingest new files shortly after they appear
+ */
+function startFolderWatcher(): void {
+  const rootDir = localDirectoryIngestionSource.getRootDir();
+  fs.mkdirSync(rootDir, { recursive: true });
+
+  folderWatcher = fs.watch(rootDir, { recursive: true }, (_event, filename) => {
+    // Ignore our own moves into processed/ and failed/
+    if (
+      !filename ||
+      filename
+        .split(path.sep)
+        .some((segment) => segment === 'processed' || segment === 'failed')
+    ) {
+      return;
+    }
+
+    if (watchDebounce) {
+      clearTimeout(watchDebounce);
+    }
+    watchDebounce = setTimeout(runFolderJob, WATCH_DEBOUNCE_MS);
+  });
+
+  console.log(`✓ Watching folder ${rootDir} for new files`);
+}
+
+/**
+ * Ingest the watch folder; retried after the debounce if a job is already running
+ */
+async function runFolderJob(): Promise<void> {
+  watchDebounce = null;
+
+  if (isRunning) {
+    watchDebounce = setTimeout(runFolderJob, WATCH_DEBOUNCE_MS);
+    return;
+  }
+
+  isRunning = true;
+
+  try {
+    await runIngestion([localDirectoryIngestionSource]);
+  } catch (error) {
+    console.error('Error in watch folder job:', error);
+  } finally {
+    isRunning = false;
+  }
+}
+
+/**
+ * Schedule a poll job per enabled mailbox and drop jobs of removed or disabled ones
+ * Mailboxes with a change notification subscription are only swept as a fallback
+ */
+async function syncMailboxSchedules(): Promise<void> {
+  const mailboxes = await mailboxService.getEnabledMailboxes();
+  const enabledIds = new Set(mailboxes.map((mailbox) => mailbox.id));
+  const subscribedIds = await graphSubscriptionService.getSubscribedMailboxIds();
+
+  for (const [mailboxId, scheduled] of mailboxTasks) {
+    if (!enabledIds.has(mailboxId)) {
+      scheduled.task.stop();
+      mailboxTasks.delete(mailboxId);
+      console.log(`✓ Stopped polling mailbox ${mailboxId}`);
+    }
+  }
+
+  for (const mailbox of mailboxes) {
+    const cronExpression =
+      mailbox.pollCron ||
+      (subscribedIds.has(mailbox.id)
+        ? config.scheduler.fallbackCron
+        : config.scheduler.emailCheckCron);
+    const scheduled = mailboxTasks.get(mailbox.id);
+    if (scheduled?.cronExpression === cronExpression) {
+      continue;
+    }
+
+    scheduled?.task.stop();
+    mailboxTasks.delete(mailbox.id);
+
+    if (!cron.validate(cronExpression)) {
+      console.error(`Invalid cron expression for mailbox ${mailbox.address}: ${cronExpression}`);
+      continue;
+    }
+
+    const task = cron.schedule(cronExpression, () => runMailboxJob(mailbox.id));
+    mailboxTasks.set(mailbox.id, { cronExpression, task });
+    console.log(`✓ Polling mailbox ${mailbox.address} (${cronExpression})`);
+  }
+}
+
+/**
+ * Poll one mailbox; skipped while the previous poll of the same mailbox is running
+ * @param mailboxId - Mailbox ID
+ */
+async function runMailboxJob(mailboxId: string): Promise<void> {
+  if (runningMailboxes.has(mailboxId)) {
+    console.log(`\n⚠ Previous poll of mailbox ${mailboxId} still running, skipping...`);
+    return;
+  }
+
+  runningMailboxes.add(mailboxId);
+
+  try {
+    // Reload, so credential and scope changes apply immediately
+    const mailbox = await mailboxService.getMailboxById(mailboxId);
+    if (!mailbox?.isEnabled) {
+      return;
+    }
+
+    await runIngestion([graphIngestionSource.forMailbox(mailbox)]);
+  } catch (error) {
+    console.error(`Error polling mailbox ${mailboxId}:`, error);
+  } finally {
+    runningMailboxes.delete(mailboxId);
+  }
+
+  if (rerunMailboxes.delete(mailboxId)) {
+    await runMailboxJob(mailboxId);
+  }
+}
+
+/**
+ * Poll a mailbox now (e.g. on a change notification)
+ * If a poll is running, the mailbox is polled again once it finished,
+ * so messages that arrived meanwhile are not left until the next sweep
+ * @param mailboxId - Mailbox ID
+ */
+export function triggerMailboxJob(mailboxId: string): void {
+  if (runningMailboxes.has(mailboxId)) {
+    rerunMailboxes.add(mailboxId);
+    return;
+  }
+
+  void runMailboxJob(mailboxId);
+}
+
+/**
+ * Poll the sources, then work off the attachment queue
+ * The queue also runs when polling fails, so due retries are not held up
+ * @param sources - Sources to poll
+ */
+async function runIngestion(sources: IngestionSource[]): Promise<void> {
+  try {
+    if (sources.length > 0) {
+      await processEmails(sources);
+    }
+  } finally {
+    await processAttachmentQueue();
+  }
+}
+
+/**
+ * Enabled sources polled by the main job (Graph mailboxes have their own jobs)
+ */
+function getSharedSources(): IngestionSource[] {
+  return ingestionSourceRegistry
+    .getEnabledSources()
+    .filter((source) => source !== graphIngestionSource);
+}
+
+function isGraphEnabled(): boolean {
+  return config.ingestion.sources.includes(graphIngestionSource.name);
+}
+
 /**
  * Stop the scheduler (for graceful shutdown)
  */
@@ -55,6 +261,21 @@ export function stopScheduler(): void {
   // node-cron doesn't provide a direct stop method for individual tasks
   // but we can rely on process exit
   console.log('Stopping scheduler...');
+
+  if (watchDebounce) {
+    clearTimeout(watchDebounce);
+    watchDebounce = null;
+  }
+
+  if (folderWatcher) {
+    folderWatcher.close();
+    folderWatcher = null;
+  }
+
+  for (const { task } of mailboxTasks.values()) {
+    task.stop();
+  }
+  mailboxTasks.clear();
 }
 
 /**
@@ -95,12 +316,19 @@ export async function runJobNow(): Promise<void> {
   isRunning = true;
 
   try {
-    await processEmails();
+    await runIngestion(getSharedSources());
   } catch (error) {
     console.error('Error running job:', error);
   } finally {
     isRunning = false;
   }
+
+  if (isGraphEnabled()) {
+    const mailboxes = await mailboxService.getEnabledMailboxes();
+    for (const mailbox of mailboxes) {
+      await runMailboxJob(mailbox.id);
+    }
+  }
 }
 
 export default {
@@ -0,0 +1,55 @@
+import { snapshotReprocessService } from '../services/snapshotReprocess.service.js';
+import { snapshotService } from '../services/snapshot.service.js';
+import { logger } from '../utils/logger.js';
+import type { ReprocessResult } from '../types/fileProcessor.types.js';
+
+/**
+ * Reprocess the snapshots of a run one at a time, to keep memory and DB load bounded
+ * Never throws: a failure is stored on the run.
+ * @param runId - Run created by snapshotReprocessService.startRun()
+ */
+export async function runSnapshotReprocess(runId: string): Promise<void> {
+  try {
+    const run = await snapshotReprocessService.getRunById(runId);
+    if (!run) {
+      throw new Error(`Snapshot reprocess run ${runId} not found`);
+    }
+
+    const results: ReprocessResult[] = [];
+    for (const snapshotId of run.snapshotIds) {
+      try {
+        results.push(await snapshotService.reprocessSnapshot(snapshotId));
+      } catch (error) {
+        // E.g. the snapshot was deleted since the run started
+        results.push({
+          snapshotId,
+          status: 'FAILED',
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+      await snapshotReprocessService.recordResults(runId, results);
+    }
+
+    await snapshotReprocessService.completeRun(runId);
+    logger.info('Snapshot reprocess run completed', {
+      runId,
+      hotelId: run.hotelId,
+      total: results.length,
+      failed: results.filter((result) => result.status !== 'COMPLETED').length,
+    });
+  } catch (error) {
+    logger.error('Snapshot reprocess run failed', { error, runId });
+    await snapshotReprocessService.failRun(
+      runId,
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+}
+
+/**
+ * Run a reprocess run in the background (e.g. after answering the request)
+ * @param runId - Run ID
+ */
+export function triggerSnapshotReprocess(runId: string): void {
+  void runSnapshotReprocess(runId);
+}
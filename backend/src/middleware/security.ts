@@ -2,6 +2,8 @@ import helmet from 'helmet';
 import rateLimit from 'express-rate-limit';
 import cors from 'cors';
 import { Express, Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
 
 /**
@@ -46,7 +48,7 @@ export const configureCors = () => {
       }
     },
     credentials: true,
-    methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+    methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
     allowedHeaders: ['Content-Type', 'Authorization'],
   });
 };
@@ -128,6 +130,17 @@ export const requestLogger = (req: Request, res: Response, next: NextFunction) =
   next();
 };
 
+/**
+ * Multer for file uploads
+ * Files are written to the temp directory and streamed from there, so an upload is
+ * never held in memory; routes delete them when done (see removeUpload()). Larger
+ * files than the cap are answered with 413 by the error handler.
+ */
+export const upload = multer({
+  storage: multer.diskStorage({}),
+  limits: { fileSize: config.ingestion.maxFileSizeMb * 1024 * 1024 },
+});
+
 /**
  * Global error handler
  */
@@ -135,8 +148,19 @@ export const errorHandler = (
   err: Error,
   req: Request,
   res: Response,
-  // next: NextFunction
+  // Express only treats middleware with four parameters as an error handler
+  _next: NextFunction
 ) => {
+  // multer stops reading an upload over the size limit
+  if (err instanceof multer.MulterError && err.code === 'LIMIT_FILE_SIZE') {
+    logger.warn(`Upload too large: ${req.method} ${req.path}`);
+    res.status(413).json({
+      error: 'File too large',
+      message: `Files may be at most ${config.ingestion.maxFileSizeMb} MB`,
+    });
+    return;
+  }
+
   logger.error('Unhandled error', {
     error: err.message,
     stack: err.stack,
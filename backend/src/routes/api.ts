@@ -1,18 +1,73 @@
 import express from 'express';
-import multer from 'multer';
 import { hotelService } from '../services/hotel.service.js';
 import { snapshotService } from '../services/snapshot.service.js';
+import { ingestionRunService } from '../services/ingestionRun.service.js';
+import { attachmentQueueService } from '../services/attachmentQueue.service.js';
+import { senderRuleService } from '../services/senderRule.service.js';
+import { roomInventoryService } from '../services/roomInventory.service.js';
+import { metricRecomputeService } from '../services/metricRecompute.service.js';
+import { snapshotReprocessService } from '../services/snapshotReprocess.service.js';
+import {
+  DEFAULT_RECEIPT_BODY_TEMPLATE,
+  DEFAULT_RECEIPT_SUBJECT_TEMPLATE,
+} from '../services/receipt.service.js';
 import { blobStorageService } from '../services/blobStorage.service.js';
+import { tokenService } from '../services/token.service.js';
+import { mailboxService } from '../services/mailbox.service.js';
 import { fileProcessorService } from '../services/fileProcessor.service.js';
-import { calculateFileHash } from '../utils/fileHash.js';
+import { columnMappingService } from '../services/columnMapping.service.js';
+import { schemaDriftService } from '../services/schemaDrift.service.js';
+import {
+  DEFAULT_SNAPSHOT_TIME_STRATEGIES,
+  snapshotTimeService,
+} from '../services/snapshotTime.service.js';
+import {
+  DEFAULT_VALIDATION_POLICY,
+  fileValidationService,
+} from '../services/fileValidation.service.js';
+import { DEFAULT_COLUMN_MAPPING, formatDateToYYYYMMDD } from '../config/columnMapping.js';
+import { HEADER_SEARCH_LINES } from '../config/headerSynonyms.js';
+import { calculateStreamHash } from '../utils/fileHash.js';
+import { detectFileFormat } from '../utils/fileFormat.js';
+import { readUploadHead, removeUpload, uploadSource } from '../utils/uploadedFile.js';
 import { prisma } from '../utils/prisma.js';
 import { logger } from '../utils/logger.js';
-import { uploadRateLimiter } from '../middleware/security.js';
+import { upload, uploadRateLimiter } from '../middleware/security.js';
+import { triggerMetricRecompute } from '../jobs/metricRecompute.job.js';
+import { triggerSnapshotReprocess } from '../jobs/snapshotReprocess.job.js';
+import type { MailboxInput, SenderRuleInput } from '../types/ingestion.types.js';
+import type {
+  ColumnMappingProfileInput,
+  DecimalSeparator,
+  FieldDefinition,
+  ParsedRow,
+  ParseIssue,
+  RoomInventoryPeriodInput,
+  SnapshotTimeStrategy,
+  ValidationPolicy,
+} from '../types/fileProcessor.types.js';
+import type {
+  Prisma,
+  IngestionOutcome as IngestionOutcomeType,
+  IngestionRunStatus as IngestionRunStatusType,
+  ParseIssueSeverity as ParseIssueSeverityType,
+  ProcessingStatus as ProcessingStatusType,
+  QueueStatus as QueueStatusType,
+} from '@prisma/client';
+import pkg from '@prisma/client';
+
+const {
+  IngestionOutcome,
+  IngestionRunStatus,
+  ParseIssueSeverity,
+  ProcessingStatus,
+  QueueStatus,
+} = pkg;
 
 const router = express.Router();
 
-// Configure multer for file uploads (memory storage)
-const upload = multer({ storage: multer.memoryStorage() });
+// Rows and issues returned by a preview unless the request asks for another number
+const PREVIEW_LIMIT = 500;
 
 // Enable JSON parsing
 router.use(express.json());
@@ -31,20 +86,1295 @@ router.get('/hotels', async (_req, res) => {
   }
 });
 
+/**
+ * GET /api/hotels/:hotelId/receipts
+ * Get the processing receipt settings of a hotel (null templates use the defaults)
+ */
+router.get('/hotels/:hotelId/receipts', async (req, res) => {
+  try {
+    const hotel = await hotelService.getHotelById(req.params.hotelId);
+    if (!hotel) {
+      return res.status(404).json({ error: 'Hotel not found' });
+    }
+
+    return res.json({
+      enabled: hotel.receiptsEnabled,
+      subjectTemplate: hotel.receiptSubjectTemplate,
+      bodyTemplate: hotel.receiptBodyTemplate,
+      defaults: {
+        subjectTemplate: DEFAULT_RECEIPT_SUBJECT_TEMPLATE,
+        bodyTemplate: DEFAULT_RECEIPT_BODY_TEMPLATE,
+      },
+    });
+  } catch (error) {
+    logger.error('Error fetching receipt settings', { error, hotelId: req.params.hotelId });
+    return res.status(500).json({ error: 'Failed to fetch receipt settings' });
+  }
+});
+
+/**
+ * PATCH /api/hotels/:hotelId/receipts
+ * Opt in/out of processing receipts and set the templates
+ * Body: enabled, subjectTemplate, bodyTemplate (empty or null resets to the default)
+ * Placeholders: {{hotelName}} {{filename}} {{originalSubject}} {{receivedAt}} {{status}}
+ * {{outcome}} {{snapshotId}} {{rowCount}} {{historyRange}} {{forecastRange}}
+ * {{skippedLineCount}} {{skippedLines}} {{error}}
+ */
+router.patch('/hotels/:hotelId/receipts', async (req, res) => {
+  try {
+    const { hotelId } = req.params;
+    const { enabled, subjectTemplate, bodyTemplate } = req.body ?? {};
+
+    if (enabled !== undefined && typeof enabled !== 'boolean') {
+      return res.status(400).json({ error: 'enabled must be a boolean' });
+    }
+    for (const [field, value] of Object.entries({ subjectTemplate, bodyTemplate })) {
+      if (value !== undefined && value !== null && typeof value !== 'string') {
+        return res.status(400).json({ error: `${field} must be a string` });
+      }
+    }
+
+    const hotel = await hotelService.getHotelById(hotelId);
+    if (!hotel) {
+      return res.status(404).json({ error: 'Hotel not found' });
+    }
+
+    const updated = await hotelService.updateHotel(hotelId, {
+      receiptsEnabled: enabled,
+      receiptSubjectTemplate: subjectTemplate === undefined ? undefined : subjectTemplate || null,
+      receiptBodyTemplate: bodyTemplate === undefined ? undefined : bodyTemplate || null,
+    });
+
+    return res.json({
+      enabled: updated.receiptsEnabled,
+      subjectTemplate: updated.receiptSubjectTemplate,
+      bodyTemplate: updated.receiptBodyTemplate,
+    });
+  } catch (error) {
+    logger.error('Error updating receipt settings', { error, hotelId: req.params.hotelId });
+    return res.status(500).json({ error: 'Failed to update receipt settings' });
+  }
+});
+
+/**
+ * GET /api/hotels/:hotelId/snapshot-time
+ * Get the snapshot time strategy chain of a hotel (null uses the defaults)
+ */
+router.get('/hotels/:hotelId/snapshot-time', async (req, res) => {
+  try {
+    const hotel = await hotelService.getHotelById(req.params.hotelId);
+    if (!hotel) {
+      return res.status(404).json({ error: 'Hotel not found' });
+    }
+
+    return res.json({
+      strategies: hotel.snapshotTimeStrategies,
+      defaults: DEFAULT_SNAPSHOT_TIME_STRATEGIES,
+    });
+  } catch (error) {
+    logger.error('Error fetching snapshot time strategies', { error, hotelId: req.params.hotelId });
+    return res.status(500).json({ error: 'Failed to fetch snapshot time strategies' });
+  }
+});
+
+/**
+ * PATCH /api/hotels/:hotelId/snapshot-time
+ * Replace the snapshot time strategy chain of a hotel; the first strategy that yields a time wins
+ * Body: strategies (null resets to the defaults), each one of
+ * { type: 'filenameTimestamp' } | { type: 'receivedAt' }
+ * | { type: 'filenamePattern', pattern, format }
+ * | { type: 'fileLine', pattern, format, maxLines? }
+ * pattern captures the date in its first group; format tokens: yyyy yy MM M dd d HH H mm ss
+ */
+router.patch('/hotels/:hotelId/snapshot-time', async (req, res) => {
+  try {
+    const { hotelId } = req.params;
+    const { strategies } = req.body ?? {};
+
+    if (strategies !== null) {
+      const validationError = snapshotTimeService.validateStrategies(strategies);
+      if (validationError) {
+        return res.status(400).json({ error: validationError });
+      }
+    }
+
+    const hotel = await hotelService.getHotelById(hotelId);
+    if (!hotel) {
+      return res.status(404).json({ error: 'Hotel not found' });
+    }
+
+    const updated = await hotelService.updateHotel(hotelId, {
+      snapshotTimeStrategies: strategies as SnapshotTimeStrategy[] | null,
+    });
+
+    return res.json({ strategies: updated.snapshotTimeStrategies });
+  } catch (error) {
+    logger.error('Error updating snapshot time strategies', { error, hotelId: req.params.hotelId });
+    return res.status(500).json({ error: 'Failed to update snapshot time strategies' });
+  }
+});
+
+/**
+ * GET /api/hotels/:hotelId/validation-policy
+ * Get the file validation policy of a hotel (configured rules merged over the defaults)
+ */
+router.get('/hotels/:hotelId/validation-policy', async (req, res) => {
+  try {
+    const hotel = await hotelService.getHotelById(req.params.hotelId);
+    if (!hotel) {
+      return res.status(404).json({ error: 'Hotel not found' });
+    }
+
+    return res.json({
+      policy: fileValidationService.getPolicy(hotel),
+      defaults: DEFAULT_VALIDATION_POLICY,
+    });
+  } catch (error) {
+    logger.error('Error fetching validation policy', { error, hotelId: req.params.hotelId });
+    return res.status(500).json({ error: 'Failed to fetch validation policy' });
+  }
+});
+
+/**
+ * PATCH /api/hotels/:hotelId/validation-policy
+ * Change rules of the file validation policy; files breaking a rule are rejected before saving
+ * Body (all optional): maxSkippedLineShare (0-1 or null), rejectDuplicateStayDates (boolean),
+ * requireContiguousStayDates (boolean), maxBoundaryDays (days or null),
+ * maxCapacityOverrunPercent (percent or null); null turns a rule off
+ * Query params: reset (optional - "true" drops all rules back to the defaults)
+ */
+router.patch('/hotels/:hotelId/validation-policy', async (req, res) => {
+  try {
+    const { hotelId } = req.params;
+    const input = (req.body ?? {}) as Record<string, unknown>;
+    const reset = req.query.reset === 'true';
+
+    const validationError = fileValidationService.validatePolicy(input);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const hotel = await hotelService.getHotelById(hotelId);
+    if (!hotel) {
+      return res.status(404).json({ error: 'Hotel not found' });
+    }
+
+    const updated = await hotelService.updateHotel(hotelId, {
+      validationPolicy: reset
+        ? null
+        : { ...fileValidationService.getPolicy(hotel), ...(input as Partial<ValidationPolicy>) },
+    });
+
+    return res.json({ policy: fileValidationService.getPolicy(updated) });
+  } catch (error) {
+    logger.error('Error updating validation policy', { error, hotelId: req.params.hotelId });
+    return res.status(500).json({ error: 'Failed to update validation policy' });
+  }
+});
+
+/**
+ * Pick the column mapping profile fields from a request body (unknown fields are ignored)
+ */
+function readColumnMappingInput(body: Record<string, unknown>): ColumnMappingProfileInput {
+  const input: ColumnMappingProfileInput = {};
+  if (body.name !== undefined) {
+    input.name = typeof body.name === 'string' ? body.name.trim() : '';
+  }
+  if (body.description !== undefined) {
+    input.description =
+      typeof body.description === 'string' && body.description !== '' ? body.description : null;
+  }
+  if (body.skipLeadingColumn !== undefined) {
+    input.skipLeadingColumn = body.skipLeadingColumn === true || body.skipLeadingColumn === 'true';
+  }
+  if (body.dateFormat !== undefined) {
+    input.dateFormat = String(body.dateFormat).trim();
+  }
+  if (body.decimalSeparator !== undefined) {
+    input.decimalSeparator = String(body.decimalSeparator).toUpperCase() as DecimalSeparator;
+  }
+  for (const field of [
+    'minColumnCount',
+    'dataTypeColumn',
+    'stayDateColumn',
+    'roomNightsColumn',
+    'roomRevenueColumn',
+    'ooRoomsColumn',
+  ] as const) {
+    if (body[field] !== undefined) {
+      input[field] = Number(body[field]);
+    }
+  }
+  return input;
+}
+
+/**
+ * GET /api/column-profiles
+ * List the column mapping profiles with the number of hotels using each
+ */
+router.get('/column-profiles', async (_req, res) => {
+  try {
+    const profiles = await columnMappingService.getProfiles();
+    res.json({ profiles, defaults: DEFAULT_COLUMN_MAPPING });
+  } catch (error) {
+    logger.error('Error fetching column mapping profiles', { error });
+    res.status(500).json({ error: 'Failed to fetch column mapping profiles' });
+  }
+});
+
+/**
+ * POST /api/column-profiles
+ * Create a column mapping profile
+ * Body: name (required), description, skipLeadingColumn, minColumnCount, dataTypeColumn,
+ * stayDateColumn, roomNightsColumn, roomRevenueColumn, ooRoomsColumn
+ * (1-based column numbers after the skipped leading column; unset fields use the defaults),
+ * dateFormat (e.g. dd/MM/yyyy, or "auto"), decimalSeparator (POINT, COMMA or AUTO)
+ */
+router.post('/column-profiles', async (req, res) => {
+  try {
+    const input = readColumnMappingInput(req.body ?? {});
+    const validationError = await columnMappingService.validateProfile(input);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const profile = await columnMappingService.createProfile(input);
+    return res.status(201).json(profile);
+  } catch (error) {
+    logger.error('Error creating column mapping profile', { error });
+    return res.status(500).json({ error: 'Failed to create column mapping profile' });
+  }
+});
+
+/**
+ * PATCH /api/column-profiles/:id
+ * Update a column mapping profile (same fields as POST)
+ * Already parsed snapshots keep their data until reprocessed
+ */
+router.patch('/column-profiles/:id', async (req, res) => {
+  try {
+    const existing = await columnMappingService.getProfileById(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Column mapping profile not found' });
+    }
+
+    const input = readColumnMappingInput(req.body ?? {});
+    const validationError = await columnMappingService.validateProfile(input, existing);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const profile = await columnMappingService.updateProfile(existing.id, input);
+    return res.json(profile);
+  } catch (error) {
+    logger.error('Error updating column mapping profile', { error, profileId: req.params.id });
+    return res.status(500).json({ error: 'Failed to update column mapping profile' });
+  }
+});
+
+/**
+ * DELETE /api/column-profiles/:id
+ * Delete a column mapping profile; its hotels fall back to the default layout
+ */
+router.delete('/column-profiles/:id', async (req, res) => {
+  try {
+    const existing = await columnMappingService.getProfileById(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Column mapping profile not found' });
+    }
+
+    await columnMappingService.deleteProfile(existing.id);
+    return res.status(204).send();
+  } catch (error) {
+    logger.error('Error deleting column mapping profile', { error, profileId: req.params.id });
+    return res.status(500).json({ error: 'Failed to delete column mapping profile' });
+  }
+});
+
+/**
+ * GET /api/column-profiles/:id/fields
+ * Get the field dictionary of a column mapping profile
+ */
+router.get('/column-profiles/:id/fields', async (req, res) => {
+  try {
+    const profile = await columnMappingService.getProfileById(req.params.id);
+    if (!profile) {
+      return res.status(404).json({ error: 'Column mapping profile not found' });
+    }
+
+    const fields = await columnMappingService.getFields(profile.id);
+    return res.json(fields);
+  } catch (error) {
+    logger.error('Error fetching field dictionary', { error, profileId: req.params.id });
+    return res.status(500).json({ error: 'Failed to fetch field dictionary' });
+  }
+});
+
+/**
+ * PUT /api/column-profiles/:id/fields
+ * Replace the field dictionary of a column mapping profile
+ * Body: fields: [{ column, key (camelCase), label, valueType (NUMBER | INTEGER | TEXT,
+ * defaults to NUMBER), unit }]
+ * Numeric fields are summed and compared by the pickup and comparison endpoints;
+ * already parsed snapshots get their fields when reprocessed
+ */
+router.put('/column-profiles/:id/fields', async (req, res) => {
+  try {
+    const profile = await columnMappingService.getProfileById(req.params.id);
+    if (!profile) {
+      return res.status(404).json({ error: 'Column mapping profile not found' });
+    }
+
+    const { fields } = req.body ?? {};
+    const validationError = columnMappingService.validateFields(fields, profile);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const saved = await columnMappingService.replaceFields(
+      profile.id,
+      (fields as FieldDefinition[]).map((field) => ({
+        column: field.column,
+        key: field.key,
+        label: field.label.trim(),
+        valueType: field.valueType ?? 'NUMBER',
+        unit: field.unit || null,
+      }))
+    );
+    return res.json(saved);
+  } catch (error) {
+    logger.error('Error saving field dictionary', { error, profileId: req.params.id });
+    return res.status(500).json({ error: 'Failed to save field dictionary' });
+  }
+});
+
+/**
+ * PATCH /api/hotels/:hotelId/column-profile
+ * Assign a column mapping profile to a hotel
+ * Body: profileId (null uses the default layout)
+ */
+router.patch('/hotels/:hotelId/column-profile', async (req, res) => {
+  try {
+    const { hotelId } = req.params;
+    const { profileId } = req.body ?? {};
+
+    if (profileId !== null && typeof profileId !== 'string') {
+      return res.status(400).json({ error: 'profileId must be a profile ID or null' });
+    }
+
+    const hotel = await hotelService.getHotelById(hotelId);
+    if (!hotel) {
+      return res.status(404).json({ error: 'Hotel not found' });
+    }
+    if (profileId && !(await columnMappingService.getProfileById(profileId))) {
+      return res.status(400).json({ error: 'Column mapping profile not found' });
+    }
+
+    const updated = await hotelService.updateHotel(hotelId, {
+      columnMappingProfileId: profileId,
+    });
+
+    return res.json({ hotelId, profileId: updated.columnMappingProfileId });
+  } catch (error) {
+    logger.error('Error assigning column mapping profile', { error, hotelId: req.params.hotelId });
+    return res.status(500).json({ error: 'Failed to assign column mapping profile' });
+  }
+});
+
+/**
+ * POST /api/hotels/:hotelId/column-profile/detect
+ * Build a column mapping from the header row of a sample file
+ * Accepts multipart/form-data with 'file' field; other form fields are profile fields
+ * (as for POST /api/column-profiles) that override the detected ones, e.g. to settle
+ * an ambiguous key value
+ * Query params: save (optional - "true" creates the profile and assigns it to the hotel;
+ * needs a name and a column for every key value)
+ */
+router.post(
+  '/hotels/:hotelId/column-profile/detect',
+  uploadRateLimiter,
+  upload.single('file'),
+  async (req, res) => {
+    try {
+      const { hotelId } = req.params;
+      const file = req.file;
+
+      if (!file) {
+        return res.status(400).json({ error: 'No file uploaded' });
+      }
+
+      const { head, complete } = await readUploadHead(file);
+      const format = detectFileFormat(head, file.originalname, complete);
+      if (!format || format === 'zip') {
+        return res.status(400).json({
+          error: 'Unsupported file format',
+          allowed: ['.txt (tab-separated)', '.csv', '.xlsx'],
+        });
+      }
+
+      const hotel = await hotelService.getHotelById(hotelId);
+      if (!hotel) {
+        return res.status(404).json({ error: 'Hotel not found' });
+      }
+
+      const { name, description, ...overrides } = readColumnMappingInput(req.body ?? {});
+      const rows = await fileProcessorService.readHead(
+        uploadSource(file),
+        file.originalname,
+        HEADER_SEARCH_LINES
+      );
+      const result = columnMappingService.detectFromHeader(rows, overrides);
+
+      if (req.query.save !== 'true') {
+        return res.json(result);
+      }
+
+      if (result.headerLine === null) {
+        return res.status(400).json({ error: 'No header row found', ...result });
+      }
+      if (result.missing.length > 0 || result.ambiguous.length > 0) {
+        const fields = [...result.missing, ...result.ambiguous.map((entry) => entry.field)];
+        return res.status(400).json({
+          error: `Set the column of ${fields.join(', ')} before saving`,
+          ...result,
+        });
+      }
+
+      const input: ColumnMappingProfileInput = { ...result.profile, name, description };
+      const validationError = await columnMappingService.validateProfile(input);
+      if (validationError) {
+        return res.status(400).json({ error: validationError, ...result });
+      }
+
+      const profile = await columnMappingService.createProfile(input);
+      await hotelService.updateHotel(hotelId, { columnMappingProfileId: profile.id });
+      logger.info('Column mapping profile detected from header', { hotelId, profileId: profile.id });
+
+      return res.status(201).json({ ...result, saved: profile });
+    } catch (error) {
+      logger.error('Error detecting column mapping', { error, hotelId: req.params.hotelId });
+      return res.status(500).json({ error: 'Failed to detect column mapping' });
+    } finally {
+      await removeUpload(req.file);
+    }
+  }
+);
+
+/**
+ * Pick the sender rule fields from a request body (unknown fields are ignored)
+ */
+function readSenderRuleInput(body: Record<string, unknown>): SenderRuleInput {
+  const input: SenderRuleInput = {};
+  for (const field of ['senderEmail', 'subjectPattern', 'filenamePattern', 'description'] as const) {
+    if (body[field] !== undefined) {
+      input[field] = typeof body[field] === 'string' && body[field] !== '' ? body[field] : null;
+    }
+  }
+  if (body.priority !== undefined) {
+    input.priority = Number(body.priority);
+  }
+  if (body.isActive !== undefined) {
+    input.isActive = body.isActive === true || body.isActive === 'true';
+  }
+  return input;
+}
+
+/**
+ * GET /api/sender-rules
+ * List the routing rules of all hotels in evaluation order
+ */
+router.get('/sender-rules', async (_req, res) => {
+  try {
+    const rules = await senderRuleService.getAllRules();
+    res.json(rules);
+  } catch (error) {
+    logger.error('Error fetching sender rules', { error });
+    res.status(500).json({ error: 'Failed to fetch sender rules' });
+  }
+});
+
+/**
+ * GET /api/hotels/:hotelId/sender-rules
+ * List the routing rules of a hotel in evaluation order
+ */
+router.get('/hotels/:hotelId/sender-rules', async (req, res) => {
+  try {
+    const rules = await senderRuleService.getRulesByHotel(req.params.hotelId);
+    res.json(rules);
+  } catch (error) {
+    logger.error('Error fetching sender rules', { error, hotelId: req.params.hotelId });
+    res.status(500).json({ error: 'Failed to fetch sender rules' });
+  }
+});
+
+/**
+ * POST /api/hotels/:hotelId/sender-rules
+ * Create a routing rule
+ * Body: senderEmail, subjectPattern, filenamePattern (regex, at least one criterion required),
+ * priority (lower is evaluated first, defaults to 100), isActive, description
+ */
+router.post('/hotels/:hotelId/sender-rules', async (req, res) => {
+  try {
+    const { hotelId } = req.params;
+
+    const hotel = await hotelService.getHotelById(hotelId);
+    if (!hotel) {
+      return res.status(404).json({ error: 'Hotel not found' });
+    }
+
+    const input = readSenderRuleInput(req.body ?? {});
+    const validationError = senderRuleService.validateRule(input);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const rule = await senderRuleService.createRule(hotelId, input);
+    return res.status(201).json(rule);
+  } catch (error) {
+    logger.error('Error creating sender rule', { error, hotelId: req.params.hotelId });
+    return res.status(500).json({ error: 'Failed to create sender rule' });
+  }
+});
+
+/**
+ * PATCH /api/sender-rules/:id
+ * Update a routing rule (only the fields present in the body)
+ */
+router.patch('/sender-rules/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await senderRuleService.getRuleById(id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Sender rule not found' });
+    }
+
+    const input = readSenderRuleInput(req.body ?? {});
+    const validationError = senderRuleService.validateRule(input, existing);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const rule = await senderRuleService.updateRule(id, input);
+    return res.json(rule);
+  } catch (error) {
+    logger.error('Error updating sender rule', { error, ruleId: req.params.id });
+    return res.status(500).json({ error: 'Failed to update sender rule' });
+  }
+});
+
+/**
+ * DELETE /api/sender-rules/:id
+ * Delete a routing rule
+ */
+router.delete('/sender-rules/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await senderRuleService.getRuleById(id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Sender rule not found' });
+    }
+
+    await senderRuleService.deleteRule(id);
+    return res.status(204).send();
+  } catch (error) {
+    logger.error('Error deleting sender rule', { error, ruleId: req.params.id });
+    return res.status(500).json({ error: 'Failed to delete sender rule' });
+  }
+});
+
+/**
+ * Pick the room inventory period fields from a request body (unknown fields are ignored)
+ */
+function readRoomInventoryInput(body: Record<string, unknown>): RoomInventoryPeriodInput {
+  const input: RoomInventoryPeriodInput = {};
+  if (body.fromDate !== undefined) {
+    input.fromDate = new Date(String(body.fromDate));
+  }
+  if (body.toDate !== undefined) {
+    input.toDate = body.toDate === null || body.toDate === '' ? null : new Date(String(body.toDate));
+  }
+  if (body.rooms !== undefined) {
+    input.rooms = Number(body.rooms);
+  }
+  if (body.note !== undefined) {
+    input.note = typeof body.note === 'string' && body.note !== '' ? body.note : null;
+  }
+  return input;
+}
+
+/**
+ * GET /api/hotels/:hotelId/room-inventory
+ * List the room inventory periods of a hotel in date order
+ * Stay dates outside every period use the hotel's totalAvailableRooms
+ */
+router.get('/hotels/:hotelId/room-inventory', async (req, res) => {
+  try {
+    const periods = await roomInventoryService.getPeriodsByHotel(req.params.hotelId);
+    res.json(periods);
+  } catch (error) {
+    logger.error('Error fetching room inventory', { error, hotelId: req.params.hotelId });
+    res.status(500).json({ error: 'Failed to fetch room inventory' });
+  }
+});
+
+/**
+ * POST /api/hotels/:hotelId/room-inventory
+ * Create a room inventory period; periods of a hotel may not overlap
+ * Body: fromDate (YYYY-MM-DD), toDate (YYYY-MM-DD, inclusive; null or omitted for open-ended),
+ * rooms, note
+ */
+router.post('/hotels/:hotelId/room-inventory', async (req, res) => {
+  try {
+    const { hotelId } = req.params;
+
+    const hotel = await hotelService.getHotelById(hotelId);
+    if (!hotel) {
+      return res.status(404).json({ error: 'Hotel not found' });
+    }
+
+    const input = readRoomInventoryInput(req.body ?? {});
+    const validationError = await roomInventoryService.validatePeriod(hotelId, input);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const period = await roomInventoryService.createPeriod(hotelId, input);
+    return res.status(201).json(period);
+  } catch (error) {
+    logger.error('Error creating room inventory period', { error, hotelId: req.params.hotelId });
+    return res.status(500).json({ error: 'Failed to create room inventory period' });
+  }
+});
+
+/**
+ * PATCH /api/room-inventory/:id
+ * Update a room inventory period (only the fields present in the body)
+ * Rows already saved keep their occupancy and RevPAR until they are recalculated
+ * (POST /api/hotels/:hotelId/recompute)
+ */
+router.patch('/room-inventory/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await roomInventoryService.getPeriodById(id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Room inventory period not found' });
+    }
+
+    const input = readRoomInventoryInput(req.body ?? {});
+    const validationError = await roomInventoryService.validatePeriod(
+      existing.hotelId,
+      input,
+      existing
+    );
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const period = await roomInventoryService.updatePeriod(id, input);
+    return res.json(period);
+  } catch (error) {
+    logger.error('Error updating room inventory period', { error, periodId: req.params.id });
+    return res.status(500).json({ error: 'Failed to update room inventory period' });
+  }
+});
+
+/**
+ * DELETE /api/room-inventory/:id
+ * Delete a room inventory period
+ */
+router.delete('/room-inventory/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await roomInventoryService.getPeriodById(id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Room inventory period not found' });
+    }
+
+    await roomInventoryService.deletePeriod(id);
+    return res.status(204).send();
+  } catch (error) {
+    logger.error('Error deleting room inventory period', { error, periodId: req.params.id });
+    return res.status(500).json({ error: 'Failed to delete room inventory period' });
+  }
+});
+
+/**
+ * POST /api/hotels/:hotelId/recompute
+ * Recalculate occupancy, ADR and RevPAR of saved rows from their room nights and revenue,
+ * with the hotel's current room count and inventory periods
+ * Runs in the background; poll GET /api/recomputes/:id for progress
+ * Query params (optional): from, to (YYYY-MM-DD stay dates, inclusive; all rows if omitted)
+ * Body (optional): requestedBy, reason
+ */
+router.post('/hotels/:hotelId/recompute', async (req, res) => {
+  try {
+    const { hotelId } = req.params;
+    const { from, to } = req.query;
+
+    const fromDate = from ? new Date(from as string) : undefined;
+    const toDate = to ? new Date(to as string) : undefined;
+    if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+      return res.status(400).json({ error: 'Invalid from/to date' });
+    }
+    if (fromDate && toDate && fromDate > toDate) {
+      return res.status(400).json({ error: 'from must not be after to' });
+    }
+
+    const hotel = await hotelService.getHotelById(hotelId);
+    if (!hotel) {
+      return res.status(404).json({ error: 'Hotel not found' });
+    }
+
+    const active = await metricRecomputeService.getActiveRecompute(hotelId);
+    if (active) {
+      return res.status(409).json({ error: 'A recompute is already running', recompute: active });
+    }
+
+    const { requestedBy, reason } = req.body ?? {};
+    const recompute = await metricRecomputeService.startRecompute(hotelId, {
+      from: fromDate,
+      to: toDate,
+      requestedBy: typeof requestedBy === 'string' && requestedBy !== '' ? requestedBy : undefined,
+      reason: typeof reason === 'string' && reason !== '' ? reason : undefined,
+    });
+
+    logger.info('Recomputing metrics', { hotelId, recomputeId: recompute.id, from, to });
+    triggerMetricRecompute(recompute.id);
+
+    return res.status(202).json(recompute);
+  } catch (error) {
+    logger.error('Error starting metric recompute', { error, hotelId: req.params.hotelId });
+    return res.status(500).json({ error: 'Failed to start metric recompute' });
+  }
+});
+
+/**
+ * GET /api/hotels/:hotelId/recomputes
+ * List the metric recomputes of a hotel (newest first)
+ * Query params: limit (optional - defaults to 50)
+ */
+router.get('/hotels/:hotelId/recomputes', async (req, res) => {
+  try {
+    const limit = parseInt(req.query.limit as string) || 50;
+    const recomputes = await metricRecomputeService.getRecomputesByHotel(
+      req.params.hotelId,
+      limit
+    );
+    res.json(recomputes);
+  } catch (error) {
+    logger.error('Error fetching metric recomputes', { error, hotelId: req.params.hotelId });
+    res.status(500).json({ error: 'Failed to fetch metric recomputes' });
+  }
+});
+
+/**
+ * GET /api/recomputes/:id
+ * Get a metric recompute with its progress (processedRows of totalRows)
+ */
+router.get('/recomputes/:id', async (req, res) => {
+  try {
+    const recompute = await metricRecomputeService.getRecomputeById(req.params.id);
+    if (!recompute) {
+      return res.status(404).json({ error: 'Metric recompute not found' });
+    }
+
+    return res.json(recompute);
+  } catch (error) {
+    logger.error('Error fetching metric recompute', { error, recomputeId: req.params.id });
+    return res.status(500).json({ error: 'Failed to fetch metric recompute' });
+  }
+});
+
 /**
  * GET /api/hotels/:hotelId/snapshots
  * Get all snapshots for a hotel
  */
-router.get('/hotels/:hotelId/snapshots', async (req, res) => {
+router.get('/hotels/:hotelId/snapshots', async (req, res) => {
+  try {
+    const { hotelId } = req.params;
+    const limit = parseInt(req.query.limit as string) || 100;
+    
+    const snapshots = await snapshotService.getSnapshotsByHotel(hotelId, limit);
+    res.json(snapshots);
+  } catch (error) {
+    logger.error('Error fetching snapshots', { error, hotelId: req.params.hotelId });
+    res.status(500).json({ error: 'Failed to fetch snapshots' });
+  }
+});
+
+/**
+ * POST /api/hotels/:hotelId/snapshots/reprocess
+ * Reprocess all snapshots of a hotel with a given status from the blob archive
+ * Runs in the background; poll GET /api/reprocess-runs/:id for progress and results
+ * Query params: status (optional - defaults to FAILED), limit (optional - defaults to 100)
+ */
+router.post('/hotels/:hotelId/snapshots/reprocess', async (req, res) => {
+  try {
+    const { hotelId } = req.params;
+    const status = ((req.query.status as string) || 'FAILED').toUpperCase();
+    const limit = parseInt(req.query.limit as string) || 100;
+
+    if (!Object.values(ProcessingStatus).includes(status as ProcessingStatusType)) {
+      return res.status(400).json({
+        error: 'Invalid status',
+        allowed: Object.values(ProcessingStatus),
+      });
+    }
+
+    const hotel = await hotelService.getHotelById(hotelId);
+    if (!hotel) {
+      return res.status(404).json({ error: 'Hotel not found' });
+    }
+
+    const active = await snapshotReprocessService.getActiveRun(hotelId);
+    if (active) {
+      return res.status(409).json({ error: 'A reprocess run is already running', run: active });
+    }
+
+    const run = await snapshotReprocessService.startRun(
+      hotelId,
+      status as ProcessingStatusType,
+      limit
+    );
+
+    logger.info('Reprocessing snapshots', { hotelId, status, limit, runId: run.id });
+    triggerSnapshotReprocess(run.id);
+
+    return res.status(202).json(run);
+  } catch (error) {
+    logger.error('Error reprocessing snapshots', { error, hotelId: req.params.hotelId });
+    return res.status(500).json({ error: 'Failed to reprocess snapshots' });
+  }
+});
+
+/**
+ * GET /api/hotels/:hotelId/reprocess-runs
+ * List the snapshot reprocess runs of a hotel (newest first)
+ * Query params: limit (optional - defaults to 50)
+ */
+router.get('/hotels/:hotelId/reprocess-runs', async (req, res) => {
+  try {
+    const limit = parseInt(req.query.limit as string) || 50;
+    const runs = await snapshotReprocessService.getRunsByHotel(req.params.hotelId, limit);
+    res.json(runs);
+  } catch (error) {
+    logger.error('Error fetching reprocess runs', { error, hotelId: req.params.hotelId });
+    res.status(500).json({ error: 'Failed to fetch reprocess runs' });
+  }
+});
+
+/**
+ * GET /api/reprocess-runs/:id
+ * Get a snapshot reprocess run with its progress (processedSnapshots of snapshotIds)
+ * and the result per snapshot
+ */
+router.get('/reprocess-runs/:id', async (req, res) => {
+  try {
+    const run = await snapshotReprocessService.getRunById(req.params.id);
+    if (!run) {
+      return res.status(404).json({ error: 'Reprocess run not found' });
+    }
+
+    return res.json(run);
+  } catch (error) {
+    logger.error('Error fetching reprocess run', { error, runId: req.params.id });
+    return res.status(500).json({ error: 'Failed to fetch reprocess run' });
+  }
+});
+
+/**
+ * POST /api/snapshots/:id/reprocess
+ * Re-download the original file and re-parse it with the current column mapping and room count
+ */
+router.post('/snapshots/:id/reprocess', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const snapshot = await prisma.historyForecastSnapshot.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+    if (!snapshot) {
+      return res.status(404).json({ error: 'Snapshot not found' });
+    }
+
+    logger.info('Reprocessing snapshot', { snapshotId: id });
+    const result = await snapshotService.reprocessSnapshot(id);
+
+    return res.status(result.status === 'COMPLETED' ? 200 : 422).json(result);
+  } catch (error) {
+    logger.error('Error reprocessing snapshot', { error, snapshotId: req.params.id });
+    return res.status(500).json({ error: 'Failed to reprocess snapshot' });
+  }
+});
+
+/**
+ * GET /api/snapshots/:id/issues
+ * Lines the parser skipped (ERROR) or imported with doubtful values (WARNING)
+ * Query params: severity (optional - ERROR or WARNING)
+ */
+router.get('/snapshots/:id/issues', async (req, res) => {
   try {
-    const { hotelId } = req.params;
+    const { id } = req.params;
+    const severity = (req.query.severity as string | undefined)?.toUpperCase();
+
+    if (severity && !Object.values(ParseIssueSeverity).includes(severity as ParseIssueSeverityType)) {
+      return res.status(400).json({
+        error: 'Invalid severity',
+        allowed: Object.values(ParseIssueSeverity),
+      });
+    }
+
+    const snapshot = await prisma.historyForecastSnapshot.findUnique({
+      where: { id },
+      select: { id: true, acceptedLineCount: true, skippedLineCount: true },
+    });
+    if (!snapshot) {
+      return res.status(404).json({ error: 'Snapshot not found' });
+    }
+
+    const issues = await snapshotService.getParseIssues(
+      id,
+      severity as ParseIssueSeverityType | undefined
+    );
+
+    return res.json({
+      snapshotId: snapshot.id,
+      acceptedLineCount: snapshot.acceptedLineCount,
+      skippedLineCount: snapshot.skippedLineCount,
+      issues,
+    });
+  } catch (error) {
+    logger.error('Error fetching parse issues', { error, snapshotId: req.params.id });
+    return res.status(500).json({ error: 'Failed to fetch parse issues' });
+  }
+});
+
+/**
+ * GET /api/snapshots/drift
+ * Snapshots whose file structure differs from the hotel's previous file (DRIFT_SUSPECTED);
+ * they are left out of default snapshot selection until acknowledged
+ * Query params: hotelId (optional)
+ */
+router.get('/snapshots/drift', async (req, res) => {
+  try {
+    const hotelId = req.query.hotelId as string | undefined;
+    const snapshots = await schemaDriftService.getSuspectedSnapshots(hotelId);
+
+    return res.json(
+      snapshots.map((snapshot) => ({
+        id: snapshot.id,
+        hotelId: snapshot.hotelId,
+        snapshotTime: snapshot.snapshotTime,
+        originalFilename: snapshot.originalFilename,
+        isSeedSnapshot: snapshot.isSeedSnapshot,
+        driftFindings: snapshot.driftFindings,
+      }))
+    );
+  } catch (error) {
+    logger.error('Error fetching drift suspected snapshots', { error });
+    return res.status(500).json({ error: 'Failed to fetch drift suspected snapshots' });
+  }
+});
+
+/**
+ * POST /api/snapshots/:id/drift/acknowledge
+ * Accept the file structure of a suspected snapshot; it becomes the reference for the
+ * hotel's next files and is selected by default again
+ * Body: acknowledgedBy (optional)
+ */
+router.post('/snapshots/:id/drift/acknowledge', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { acknowledgedBy } = req.body ?? {};
+
+    const snapshot = await prisma.historyForecastSnapshot.findUnique({
+      where: { id },
+      select: { driftStatus: true },
+    });
+    if (!snapshot) {
+      return res.status(404).json({ error: 'Snapshot not found' });
+    }
+    if (snapshot.driftStatus !== 'DRIFT_SUSPECTED') {
+      return res.status(400).json({ error: 'Snapshot is not suspected of schema drift' });
+    }
+
+    const updated = await schemaDriftService.acknowledge(
+      id,
+      typeof acknowledgedBy === 'string' && acknowledgedBy !== '' ? acknowledgedBy : undefined
+    );
+
+    return res.json({
+      id: updated.id,
+      driftStatus: updated.driftStatus,
+      driftAcknowledgedAt: updated.driftAcknowledgedAt,
+      driftAcknowledgedBy: updated.driftAcknowledgedBy,
+    });
+  } catch (error) {
+    logger.error('Error acknowledging schema drift', { error, snapshotId: req.params.id });
+    return res.status(500).json({ error: 'Failed to acknowledge schema drift' });
+  }
+});
+
+/**
+ * GET /api/ingestion/runs
+ * List ingestion runs (newest first) with their per-item outcomes
+ * Query params (all optional): status, source, hotelId, sender, outcome,
+ * from, to (ISO dates, filter on run start), limit (defaults to 50)
+ */
+router.get('/ingestion/runs', async (req, res) => {
+  try {
+    const { source, hotelId, sender, from, to } = req.query;
+    const status = (req.query.status as string)?.toUpperCase();
+    const outcome = (req.query.outcome as string)?.toUpperCase();
+
+    if (status && !Object.values(IngestionRunStatus).includes(status as IngestionRunStatusType)) {
+      return res.status(400).json({
+        error: 'Invalid status',
+        allowed: Object.values(IngestionRunStatus),
+      });
+    }
+
+    if (outcome && !Object.values(IngestionOutcome).includes(outcome as IngestionOutcomeType)) {
+      return res.status(400).json({
+        error: 'Invalid outcome',
+        allowed: Object.values(IngestionOutcome),
+      });
+    }
+
+    const fromDate = from ? new Date(from as string) : undefined;
+    const toDate = to ? new Date(to as string) : undefined;
+    if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+      return res.status(400).json({ error: 'Invalid from/to date' });
+    }
+
+    const runs = await ingestionRunService.getRuns({
+      status: status as IngestionRunStatusType | undefined,
+      source: source as string | undefined,
+      hotelId: hotelId as string | undefined,
+      sender: sender as string | undefined,
+      outcome: outcome as IngestionOutcomeType | undefined,
+      from: fromDate,
+      to: toDate,
+      limit: parseInt(req.query.limit as string) || 50,
+    });
+
+    return res.json(runs);
+  } catch (error) {
+    logger.error('Error fetching ingestion runs', { error });
+    return res.status(500).json({ error: 'Failed to fetch ingestion runs' });
+  }
+});
+
+/**
+ * GET /api/ingestion/runs/:id
+ * Get a single ingestion run with all item outcomes
+ */
+router.get('/ingestion/runs/:id', async (req, res) => {
+  try {
+    const run = await ingestionRunService.getRunById(req.params.id);
+    if (!run) {
+      return res.status(404).json({ error: 'Ingestion run not found' });
+    }
+
+    return res.json(run);
+  } catch (error) {
+    logger.error('Error fetching ingestion run', { error, runId: req.params.id });
+    return res.status(500).json({ error: 'Failed to fetch ingestion run' });
+  }
+});
+
+/**
+ * GET /api/ingestion/queue
+ * List queued attachments (without file content)
+ * Query params: status (optional - defaults to DEAD), limit (optional - defaults to 100)
+ */
+router.get('/ingestion/queue', async (req, res) => {
+  try {
+    const status = ((req.query.status as string) || 'DEAD').toUpperCase();
     const limit = parseInt(req.query.limit as string) || 100;
-    
-    const snapshots = await snapshotService.getSnapshotsByHotel(hotelId, limit);
-    res.json(snapshots);
+
+    if (!Object.values(QueueStatus).includes(status as QueueStatusType)) {
+      return res.status(400).json({
+        error: 'Invalid status',
+        allowed: Object.values(QueueStatus),
+      });
+    }
+
+    const attachments = await attachmentQueueService.list(
+      status as QueueStatusType,
+      limit
+    );
+
+    return res.json(attachments);
   } catch (error) {
-    logger.error('Error fetching snapshots', { error, hotelId: req.params.hotelId });
-    res.status(500).json({ error: 'Failed to fetch snapshots' });
+    logger.error('Error fetching queued attachments', { error });
+    return res.status(500).json({ error: 'Failed to fetch queued attachments' });
+  }
+});
+
+/**
+ * POST /api/ingestion/queue/requeue
+ * Put all dead-lettered attachments back on the queue
+ */
+router.post('/ingestion/queue/requeue', async (_req, res) => {
+  try {
+    const requeued = await attachmentQueueService.requeueAllDead();
+    return res.json({ requeued });
+  } catch (error) {
+    logger.error('Error requeueing dead-lettered attachments', { error });
+    return res.status(500).json({ error: 'Failed to requeue attachments' });
+  }
+});
+
+/**
+ * POST /api/ingestion/queue/:id/requeue
+ * Put a single dead-lettered attachment back on the queue with fresh attempts
+ */
+router.post('/ingestion/queue/:id/requeue', async (req, res) => {
+  try {
+    const attachment = await attachmentQueueService.requeue(req.params.id);
+    if (!attachment) {
+      return res.status(404).json({ error: 'Dead-lettered attachment not found' });
+    }
+
+    return res.json(attachment);
+  } catch (error) {
+    logger.error('Error requeueing attachment', { error, attachmentId: req.params.id });
+    return res.status(500).json({ error: 'Failed to requeue attachment' });
+  }
+});
+
+/**
+ * Pick the mailbox fields from a request body (unknown fields are ignored)
+ */
+function readMailboxInput(body: Record<string, unknown>): MailboxInput {
+  const input: MailboxInput = {};
+  if (body.address !== undefined) {
+    input.address = String(body.address).trim();
+  }
+  if (body.isEnabled !== undefined) {
+    input.isEnabled = body.isEnabled === true || body.isEnabled === 'true';
+  }
+  if (body.pollCron !== undefined) {
+    input.pollCron = typeof body.pollCron === 'string' && body.pollCron !== '' ? body.pollCron : null;
+  }
+  if (Array.isArray(body.hotelIds)) {
+    input.hotelIds = body.hotelIds.map(String);
+  }
+  if (body.folderingEnabled !== undefined) {
+    input.folderingEnabled = body.folderingEnabled === true || body.folderingEnabled === 'true';
+  }
+  for (const field of ['processedFolder', 'duplicateFolder', 'unknownSenderFolder', 'failedFolder'] as const) {
+    if (body[field] !== undefined) {
+      input[field] = typeof body[field] === 'string' && body[field] !== '' ? body[field] : null;
+    }
+  }
+  return input;
+}
+
+/**
+ * GET /api/mailboxes
+ * List the monitored mailboxes with hotel scope and connection state
+ */
+router.get('/mailboxes', async (_req, res) => {
+  try {
+    const mailboxes = await mailboxService.getMailboxes();
+    res.json(mailboxes);
+  } catch (error) {
+    logger.error('Error fetching mailboxes', { error });
+    res.status(500).json({ error: 'Failed to fetch mailboxes' });
+  }
+});
+
+/**
+ * GET /api/mailboxes/connect
+ * Start the OAuth flow that connects (or reconnects) a mailbox
+ * Redirects to the Microsoft sign-in page, which returns to /auth/callback;
+ * the mailbox of the signed-in account is added if it does not exist yet
+ */
+router.get('/mailboxes/connect', (_req, res) => {
+  try {
+    return res.redirect(tokenService.getAuthorizationUrl());
+  } catch (error) {
+    logger.error('Error starting mailbox connect', { error });
+    return res.status(500).json({ error: 'Failed to start mailbox connect' });
+  }
+});
+
+/**
+ * POST /api/mailboxes
+ * Add a mailbox to monitor (connect it afterwards via GET /api/mailboxes/connect)
+ * Body: address (required), isEnabled, pollCron (defaults to EMAIL_CHECK_CRON),
+ * hotelIds (hotel scope, empty for all hotels), folderingEnabled, processedFolder,
+ * duplicateFolder, unknownSenderFolder, failedFolder (empty or null for the default name)
+ */
+router.post('/mailboxes', async (req, res) => {
+  try {
+    const input = readMailboxInput(req.body ?? {});
+    const validationError = await mailboxService.validateMailbox(input, true);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const mailbox = await mailboxService.createMailbox(input);
+    return res.status(201).json(mailbox);
+  } catch (error) {
+    logger.error('Error creating mailbox', { error });
+    return res.status(500).json({ error: 'Failed to create mailbox' });
+  }
+});
+
+/**
+ * PATCH /api/mailboxes/:id
+ * Update a mailbox (only the fields present in the body; hotelIds replaces the scope)
+ * Schedule changes apply from the next run of the main job (EMAIL_CHECK_CRON)
+ */
+router.patch('/mailboxes/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await mailboxService.getMailboxById(id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Mailbox not found' });
+    }
+
+    const input = readMailboxInput(req.body ?? {});
+    const validationError = await mailboxService.validateMailbox(input, false);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const mailbox = await mailboxService.updateMailbox(id, input);
+    return res.json(mailbox);
+  } catch (error) {
+    logger.error('Error updating mailbox', { error, mailboxId: req.params.id });
+    return res.status(500).json({ error: 'Failed to update mailbox' });
+  }
+});
+
+/**
+ * DELETE /api/mailboxes/:id
+ * Stop monitoring a mailbox
+ */
+router.delete('/mailboxes/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await mailboxService.getMailboxById(id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Mailbox not found' });
+    }
+
+    await mailboxService.deleteMailbox(id);
+    return res.status(204).send();
+  } catch (error) {
+    logger.error('Error deleting mailbox', { error, mailboxId: req.params.id });
+    return res.status(500).json({ error: 'Failed to delete mailbox' });
   }
 });
 
@@ -52,6 +1382,8 @@ router.get('/hotels/:hotelId/snapshots', async (req, res) => {
  * POST /api/hotels/:hotelId/seed
  * Upload seed snapshot file (1 year of historical data)
  * Accepts multipart/form-data with 'file' field
+ * A rejected (422) or failed seed upload is kept with its issues until the next seed
+ * upload replaces it
  * Query params: onboardingDate (optional - defaults to current date)
  */
 router.post('/hotels/:hotelId/seed', uploadRateLimiter, upload.single('file'), async (req, res) => {
@@ -64,19 +1396,23 @@ router.post('/hotels/:hotelId/seed', uploadRateLimiter, upload.single('file'), a
       return res.status(400).json({ error: 'No file uploaded' });
     }
 
+    const { head, complete } = await readUploadHead(file);
+    const format = detectFileFormat(head, file.originalname, complete);
+    if (!format || format === 'zip') {
+      return res.status(400).json({
+        error: 'Unsupported file format',
+        allowed: ['.txt (tab-separated)', '.csv', '.xlsx'],
+      });
+    }
+
     // Validate hotel exists
     const hotel = await hotelService.getHotelById(hotelId);
     if (!hotel) {
       return res.status(404).json({ error: 'Hotel not found' });
     }
 
-    // Check if seed snapshot already exists
-    const existingSeed = await prisma.historyForecastSnapshot.findFirst({
-      where: {
-        hotelId,
-        isSeedSnapshot: true,
-      },
-    });
+    // Check if seed snapshot already exists (rejected or failed uploads do not count)
+    const existingSeed = await snapshotService.findSeedSnapshot(hotelId);
 
     if (existingSeed) {
       return res.status(400).json({ 
@@ -86,13 +1422,16 @@ router.post('/hotels/:hotelId/seed', uploadRateLimiter, upload.single('file'), a
     }
 
     // Calculate file hash
-    const fileHash = calculateFileHash(file.buffer);
+    const fileHash = await calculateStreamHash(uploadSource(file).chunks);
     logger.info('Processing seed file upload', { 
       hotelId, 
       filename: file.originalname,
       fileHash: fileHash.substring(0, 16) 
     });
 
+    // This upload replaces earlier rejected or failed ones (and frees their file hash)
+    await snapshotService.deleteFailedSeedSnapshots(hotelId);
+
     // Check for duplicate
     const existing = await snapshotService.checkDuplicateByHash(fileHash);
     if (existing) {
@@ -108,7 +1447,7 @@ router.post('/hotels/:hotelId/seed', uploadRateLimiter, upload.single('file'), a
     const blobUrl = await blobStorageService.uploadFile(
       hotelId,
       file.originalname,
-      file.buffer
+      file
     );
     logger.info('File uploaded successfully', { hotelId, blobUrl });
 
@@ -122,6 +1461,7 @@ router.post('/hotels/:hotelId/seed', uploadRateLimiter, upload.single('file'), a
       {
         hotelId,
         snapshotTime,
+        snapshotTimeSource: onboardingDate ? 'MANUAL' : 'UPLOAD_TIME',
         originalFilename: file.originalname,
         blobUrl,
         fileHash,
@@ -131,18 +1471,24 @@ router.post('/hotels/:hotelId/seed', uploadRateLimiter, upload.single('file'), a
       true // isSeedSnapshot = true
     );
 
-    // Parse file
-    logger.info('Parsing seed file', { snapshotId: snapshot.id });
-    const parsedRows = fileProcessorService.parseHistoryForecastFile(
-      file.buffer,
-      hotel.totalAvailableRooms || 0
-    );
-    logger.info('Seed file parsed', { snapshotId: snapshot.id, rowCount: parsedRows.length });
-
-    // Save data
-    logger.info('Saving seed data to database', { snapshotId: snapshot.id });
-    await snapshotService.saveSnapshotData(snapshot.id, parsedRows);
-    logger.info('Seed data saved successfully', { snapshotId: snapshot.id, rowCount: parsedRows.length });
+    // Parse and save the file in batches unless it breaks the hotel's validation policy
+    logger.info('Importing seed file', { snapshotId: snapshot.id });
+    const { violations, driftFindings, rowCount, skippedLineCount } =
+      await snapshotService.importSnapshotFile(
+        snapshot.id,
+        uploadSource(file),
+        file.originalname,
+        await columnMappingService.getHotelMapping(hotelId)
+      );
+    if (violations.length > 0) {
+      logger.warn('Seed file rejected by validation policy', { snapshotId: snapshot.id, violations });
+      return res.status(422).json({
+        error: 'File rejected by validation policy',
+        snapshotId: snapshot.id,
+        violations,
+      });
+    }
+    logger.info('Seed data saved successfully', { snapshotId: snapshot.id, rowCount });
 
     return res.json({
       success: true,
@@ -150,9 +1496,11 @@ router.post('/hotels/:hotelId/seed', uploadRateLimiter, upload.single('file'), a
         id: snapshot.id,
         snapshotTime: snapshot.snapshotTime,
         filename: snapshot.originalFilename,
-        rowCount: parsedRows.length,
+        rowCount,
+        skippedLineCount,
+        driftFindings,
       },
-      message: `Seed snapshot created successfully with ${parsedRows.length} rows`,
+      message: `Seed snapshot created successfully with ${rowCount} rows`,
     });
   } catch (error) {
     logger.error('Error uploading seed snapshot', { 
@@ -164,9 +1512,178 @@ router.post('/hotels/:hotelId/seed', uploadRateLimiter, upload.single('file'), a
       error: 'Failed to upload seed snapshot',
       details: error instanceof Error ? error.message : 'Unknown error',
     });
+  } finally {
+    await removeUpload(req.file);
+  }
+});
+
+/**
+ * POST /api/hotels/:hotelId/preview
+ * Dry run of a seed or snapshot upload: parse and validate a file with the hotel's
+ * column mapping and validation policy without storing anything
+ * Accepts multipart/form-data with 'file' field
+ * Query params: onboardingDate (optional - snapshot time to validate against, defaults to now),
+ *   limit (optional - rows and issues returned, defaults to 500; counts cover the whole file)
+ */
+router.post('/hotels/:hotelId/preview', uploadRateLimiter, upload.single('file'), async (req, res) => {
+  try {
+    const { hotelId } = req.params;
+    const { onboardingDate } = req.query;
+    const file = req.file;
+
+    if (!file) {
+      return res.status(400).json({ error: 'No file uploaded' });
+    }
+
+    const { head, complete } = await readUploadHead(file);
+    const format = detectFileFormat(head, file.originalname, complete);
+    if (!format || format === 'zip') {
+      return res.status(400).json({
+        error: 'Unsupported file format',
+        allowed: ['.txt (tab-separated)', '.csv', '.xlsx'],
+      });
+    }
+
+    const snapshotTime = onboardingDate ? new Date(onboardingDate as string) : new Date();
+    if (isNaN(snapshotTime.getTime())) {
+      return res.status(400).json({ error: 'Invalid onboardingDate' });
+    }
+
+    const hotel = await hotelService.getHotelById(hotelId);
+    if (!hotel) {
+      return res.status(404).json({ error: 'Hotel not found' });
+    }
+
+    const limit = parseInt(req.query.limit as string) || PREVIEW_LIMIT;
+    const mapping = await columnMappingService.getHotelMapping(hotelId);
+    const capacity = await roomInventoryService.getCapacity(hotelId);
+    const tally = fileValidationService.startValidation(
+      { snapshotTime, capacity },
+      fileValidationService.getPolicy(hotel)
+    );
+
+    // The whole file is validated and counted, but only the first rows and issues are kept
+    const rows: ParsedRow[] = [];
+    const issues: ParseIssue[] = [];
+    let issueCount = 0;
+    const ranges = {
+      all: emptyStayDateRange(),
+      HISTORY: emptyStayDateRange(),
+      FORECAST: emptyStayDateRange(),
+    };
+    const parseResult = await fileProcessorService.parseFileStream(
+      uploadSource(file),
+      file.originalname,
+      capacity,
+      mapping,
+      async (batch) => {
+        const batchIssues = [...batch.issues];
+        for (const row of batch.rows) {
+          // Repeated stay dates are skipped like in an import
+          const duplicate = fileValidationService.addRow(tally, row);
+          if (duplicate) {
+            batchIssues.push(duplicate);
+            continue;
+          }
+          addToStayDateRange(ranges.all, row.stayDate);
+          addToStayDateRange(ranges[row.dataType], row.stayDate);
+          if (rows.length < limit) {
+            rows.push(row);
+          }
+        }
+        issueCount += batchIssues.length;
+        issues.push(...batchIssues.slice(0, Math.max(limit - issues.length, 0)));
+      }
+    );
+    const violations = fileValidationService.finishValidation(
+      tally,
+      parseResult.skippedLineCount
+    );
+
+    logger.info('Previewed upload', {
+      hotelId,
+      filename: file.originalname,
+      rowCount: ranges.all.count,
+      violations: violations.length,
+    });
+
+    return res.json({
+      filename: file.originalname,
+      format,
+      snapshotTime,
+      totalAvailableRooms: hotel.totalAvailableRooms || 0,
+      rowCount: ranges.all.count,
+      skippedLineCount: parseResult.skippedLineCount + tally.duplicates.count,
+      dateRange: formatStayDateRange(ranges.all),
+      history: formatStayDateRange(ranges.HISTORY),
+      forecast: formatStayDateRange(ranges.FORECAST),
+      locale: parseResult.locale,
+      headerLine: parseResult.headerLine,
+      accepted: violations.length === 0,
+      violations,
+      issueCount,
+      issues,
+      fieldDefinitions: mapping.fields ?? [],
+      // Raw columns are left out; rows carry the key values and derived metrics
+      rows: rows.map((row) => ({
+        rowIndex: row.rowIndex,
+        dataType: row.dataType,
+        stayDate: formatDateToYYYYMMDD(row.stayDate),
+        roomNights: row.roomNights,
+        roomRevenue: row.roomRevenue,
+        ooRooms: row.ooRooms,
+        occupancyPercent: row.occupancyPercent,
+        adr: row.adr,
+        revPAR: row.revPAR,
+        fields: row.fields,
+      })),
+    });
+  } catch (error) {
+    logger.error('Error previewing upload', {
+      error,
+      hotelId: req.params.hotelId,
+      filename: req.file?.originalname,
+    });
+    return res.status(500).json({
+      error: 'Failed to preview file',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  } finally {
+    await removeUpload(req.file);
   }
 });
 
+/**
+ * Row count and first and last stay date of the rows of a file, as they are read
+ */
+interface StayDateRange {
+  count: number;
+  from: number | null;
+  to: number | null;
+}
+
+function emptyStayDateRange(): StayDateRange {
+  return { count: 0, from: null, to: null };
+}
+
+function addToStayDateRange(range: StayDateRange, stayDate: Date): void {
+  const time = stayDate.getTime();
+  range.count++;
+  range.from = Math.min(range.from ?? time, time);
+  range.to = Math.max(range.to ?? time, time);
+}
+
+/**
+ * Stay date range as YYYY-MM-DD (null without rows)
+ */
+function formatStayDateRange(range: StayDateRange) {
+  return {
+    count: range.count,
+    from: range.from === null ? null : formatDateToYYYYMMDD(new Date(range.from)),
+    to: range.to === null ? null : formatDateToYYYYMMDD(new Date(range.to)),
+  };
+}
+
 /**
  * Helper function to create pickup metadata for UI formatting
  */
@@ -179,6 +1696,53 @@ function createPickupMetadata(value: number) {
   };
 }
 
+// Named field totals by field key
+type NumericFields = Record<string, number>;
+
+/**
+ * Numeric named fields of a data row (text fields are left out)
+ */
+function getNumericFields(row?: { fields: Prisma.JsonValue }): NumericFields {
+  const fields: NumericFields = {};
+  if (row?.fields && typeof row.fields === 'object' && !Array.isArray(row.fields)) {
+    for (const [key, value] of Object.entries(row.fields)) {
+      if (typeof value === 'number') {
+        fields[key] = value;
+      }
+    }
+  }
+  return fields;
+}
+
+/**
+ * Add the numeric named fields of a data row to running totals
+ */
+function addNumericFields(totals: NumericFields, row: { fields: Prisma.JsonValue }): void {
+  for (const [key, value] of Object.entries(getNumericFields(row))) {
+    totals[key] = (totals[key] ?? 0) + value;
+  }
+}
+
+/**
+ * Pickup metadata per numeric named field (a field missing on one side counts as 0)
+ */
+function createFieldPickup(fields1: NumericFields, fields2: NumericFields) {
+  const keys = new Set([...Object.keys(fields1), ...Object.keys(fields2)]);
+  return Object.fromEntries(
+    [...keys].map((key) => [key, createPickupMetadata((fields2[key] ?? 0) - (fields1[key] ?? 0))])
+  );
+}
+
+/**
+ * Labels and units of the numeric named fields of a hotel
+ */
+async function getNumericFieldDefinitions(hotelId: string) {
+  const fields = await columnMappingService.getHotelFields(hotelId);
+  return fields
+    .filter((field) => field.valueType !== 'TEXT')
+    .map(({ key, label, unit }) => ({ key, label, unit }));
+}
+
 /**
  * GET /api/pickup/:hotelId
  * Compare two snapshots and return pickup data with MTD and monthly comparisons
@@ -207,6 +1771,7 @@ router.get('/pickup/:hotelId', async (req, res) => {
           hotelId,
           processed: true,
           processingStatus: 'COMPLETED',
+          driftStatus: { not: 'DRIFT_SUSPECTED' },
           isSeedSnapshot: false, // Only compare hourly snapshots
         },
         orderBy: { snapshotTime: 'desc' },
@@ -276,6 +1841,8 @@ router.get('/pickup/:hotelId', async (req, res) => {
     const roomsMTD1 = mtdData1.reduce((sum, row) => sum + Number(row.roomNights), 0);
     const revenueMTD1 = mtdData1.reduce((sum, row) => sum + Number(row.roomRevenue), 0);
     const adrMTD1 = roomsMTD1 > 0 ? revenueMTD1 / roomsMTD1 : 0;
+    const fieldsMTD1: NumericFields = {};
+    mtdData1.forEach((row) => addNumericFields(fieldsMTD1, row));
     // const totalRooms1 = snapshot1.totalAvailableRoomsSnapshot || 0;
     // const occupancyMTD1 = totalRooms1 > 0 ? (roomsMTD1 / totalRooms1) * 100 : 0;
 
@@ -283,8 +1850,12 @@ router.get('/pickup/:hotelId', async (req, res) => {
     const roomsMTD2 = mtdData2.reduce((sum, row) => sum + Number(row.roomNights), 0);
     const revenueMTD2 = mtdData2.reduce((sum, row) => sum + Number(row.roomRevenue), 0);
     const adrMTD2 = roomsMTD2 > 0 ? revenueMTD2 / roomsMTD2 : 0;
-    const totalRooms2 = snapshot2.totalAvailableRoomsSnapshot || 0;
-    const occupancyMTD2 = totalRooms2 > 0 ? (roomsMTD2 / totalRooms2 * 31) * 100 : 0;
+    const fieldsMTD2: NumericFields = {};
+    mtdData2.forEach((row) => addNumericFields(fieldsMTD2, row));
+    // Rooms available over the same stay dates (room inventory periods apply per date)
+    const capacity = await roomInventoryService.getCapacity(hotelId);
+    const availableMTD2 = mtdData2.reduce((sum, row) => sum + capacity(row.stayDate), 0);
+    const occupancyMTD2 = availableMTD2 > 0 ? (roomsMTD2 / availableMTD2) * 100 : 0;
 
     // Calculate MTD pickup
     const puRoomsMTD = roomsMTD2 - roomsMTD1;
@@ -309,7 +1880,7 @@ router.get('/pickup/:hotelId', async (req, res) => {
       revenueMTD2,
       adrMTD1,
       adrMTD2,
-      totalRooms2,
+      availableMTD2,
       occupancyMTD2,
       puRoomsMTD,
       puRevenueMTD,
@@ -328,9 +1899,11 @@ router.get('/pickup/:hotelId', async (req, res) => {
       rooms: Math.round(roomsMTD2),
       adr: Number(adrMTD2.toFixed(2)),
       revenue: Number(revenueMTD2.toFixed(2)),
+      fields: fieldsMTD2,
       puRooms: createPickupMetadata(puRoomsMTD),
       puADR: createPickupMetadata(puADRMTD),
       puRevenue: createPickupMetadata(puRevenueMTD),
+      puFields: createFieldPickup(fieldsMTD1, fieldsMTD2),
     };
 
     // Group by month and calculate pickup
@@ -356,12 +1929,14 @@ router.get('/pickup/:hotelId', async (req, res) => {
           revenue: 0,
           adr: 0,
           occupancy: 0,
+          fields: {},
         },
         snapshot2: {
           rooms: 0,
           revenue: 0,
           adr: 0,
           occupancy: 0,
+          fields: {},
         },
       };
     });
@@ -372,6 +1947,7 @@ router.get('/pickup/:hotelId', async (req, res) => {
       monthlyPickup[monthKey].snapshot1.rooms += Number(row.roomNights);
       monthlyPickup[monthKey].snapshot1.revenue += Number(row.roomRevenue);
       monthlyPickup[monthKey].snapshot1.occupancy += Number(row.occupancyPercent);
+      addNumericFields(monthlyPickup[monthKey].snapshot1.fields, row);
     });
 
     // Process snapshot2 (newer)
@@ -380,6 +1956,7 @@ router.get('/pickup/:hotelId', async (req, res) => {
       monthlyPickup[monthKey].snapshot2.rooms += Number(row.roomNights);
       monthlyPickup[monthKey].snapshot2.revenue += Number(row.roomRevenue);
       monthlyPickup[monthKey].snapshot2.occupancy += Number(row.occupancyPercent);
+      addNumericFields(monthlyPickup[monthKey].snapshot2.fields, row);
     });
 
     // Calculate pickup metrics and format for frontend
@@ -423,9 +2000,11 @@ router.get('/pickup/:hotelId', async (req, res) => {
           rooms: Math.round(month.snapshot2.rooms),
           adr: Number(adr2.toFixed(2)),
           revenue: Number(month.snapshot2.revenue.toFixed(2)),
+          fields: month.snapshot2.fields,
           puRooms: createPickupMetadata(puRooms),
           puADR: createPickupMetadata(puAdrChange),
           puRevenue: createPickupMetadata(puRevenue),
+          puFields: createFieldPickup(month.snapshot1.fields, month.snapshot2.fields),
         };
       })
       .sort((a: any, b: any) => a.month.localeCompare(b.month));
@@ -441,6 +2020,7 @@ router.get('/pickup/:hotelId', async (req, res) => {
         snapshotTime: snapshot2.snapshotTime,
         filename: snapshot2.originalFilename,
       },
+      fieldDefinitions: await getNumericFieldDefinitions(hotelId),
       pickup: {
         mtd: mtdPickup,
         monthly: monthlyPickupData,
@@ -481,6 +2061,7 @@ router.get('/pickup/:hotelId/daily', async (req, res) => {
           hotelId,
           processed: true,
           processingStatus: 'COMPLETED',
+          driftStatus: { not: 'DRIFT_SUSPECTED' },
           isSeedSnapshot: false,
         },
         orderBy: { snapshotTime: 'desc' },
@@ -553,22 +2134,28 @@ router.get('/pickup/:hotelId/daily', async (req, res) => {
         const revenue2 = d2 ? Number(d2.roomRevenue) : 0;
         const adr2 = rooms2 > 0 ? revenue2 / rooms2 : 0;
 
+        const fields1 = getNumericFields(d1);
+        const fields2 = getNumericFields(d2);
+
         return {
           stayDate: dateStr.split('T')[0],
           snapshot1: {
             rooms: rooms1,
             revenue: revenue1,
             adr: adr1,
+            fields: fields1,
           },
           snapshot2: {
             rooms: rooms2,
             revenue: revenue2,
             adr: adr2,
+            fields: fields2,
           },
           pickup: {
             puRooms: createPickupMetadata(rooms2 - rooms1),
             puRevenue: createPickupMetadata(revenue2 - revenue1),
             puADR: createPickupMetadata(adr2 - adr1),
+            puFields: createFieldPickup(fields1, fields2),
           },
         };
       });
@@ -584,6 +2171,7 @@ router.get('/pickup/:hotelId/daily', async (req, res) => {
         snapshotTime: snapshot2.snapshotTime,
         filename: snapshot2.originalFilename,
       },
+      fieldDefinitions: await getNumericFieldDefinitions(hotelId),
       daily: dailyPickup,
     });
   } catch (error) {
@@ -629,6 +2217,7 @@ router.get('/comparison/:hotelId/actual-vs-snapshot', async (req, res) => {
           hotelId,
           processed: true,
           processingStatus: 'COMPLETED',
+          driftStatus: { not: 'DRIFT_SUSPECTED' },
           isSeedSnapshot: false,
         },
         orderBy: { snapshotTime: 'desc' },
@@ -686,6 +2275,9 @@ router.get('/comparison/:hotelId/actual-vs-snapshot', async (req, res) => {
         const compRevenue = comp ? Number(comp.roomRevenue) : 0;
         const compAdr = compRooms > 0 ? compRevenue / compRooms : 0;
 
+        const seedFields = getNumericFields(seed);
+        const compFields = getNumericFields(comp);
+
         return {
           stayDate: dateStr.split('T')[0],
           dataType: comp?.dataType || null,
@@ -693,16 +2285,19 @@ router.get('/comparison/:hotelId/actual-vs-snapshot', async (req, res) => {
             rooms: seedRooms,
             revenue: seedRevenue,
             adr: seedAdr,
+            fields: seedFields,
           },
           snapshot: {
             rooms: compRooms,
             revenue: compRevenue,
             adr: compAdr,
+            fields: compFields,
           },
           difference: {
             puRooms: createPickupMetadata(compRooms - seedRooms),
             puRevenue: createPickupMetadata(compRevenue - seedRevenue),
             puADR: createPickupMetadata(compAdr - seedAdr),
+            puFields: createFieldPickup(seedFields, compFields),
           },
         };
       });
@@ -718,6 +2313,7 @@ router.get('/comparison/:hotelId/actual-vs-snapshot', async (req, res) => {
         snapshotTime: comparisonSnapshot.snapshotTime,
         filename: comparisonSnapshot.originalFilename,
       },
+      fieldDefinitions: await getNumericFieldDefinitions(hotelId),
       daily: dailyComparison,
     });
   } catch (error) {
@@ -746,6 +2342,7 @@ router.get('/comparison/:hotelId/stly', async (req, res) => {
         hotelId,
         processed: true,
         processingStatus: 'COMPLETED',
+        driftStatus: { not: 'DRIFT_SUSPECTED' },
         isSeedSnapshot: false,
         snapshotTime: {
           gte: new Date(lastYearDate.getTime() - 7 * 24 * 60 * 60 * 1000),
@@ -770,6 +2367,7 @@ router.get('/comparison/:hotelId/stly', async (req, res) => {
         hotelId,
         processed: true,
         processingStatus: 'COMPLETED',
+        driftStatus: { not: 'DRIFT_SUSPECTED' },
         isSeedSnapshot: false,
       },
       orderBy: { snapshotTime: 'desc' },
@@ -822,22 +2420,28 @@ router.get('/comparison/:hotelId/stly', async (req, res) => {
         const latestRevenue = latest ? Number(latest.roomRevenue) : 0;
         const latestAdr = latestRooms > 0 ? latestRevenue / latestRooms : 0;
 
+        const stlyFields = getNumericFields(stly);
+        const latestFields = getNumericFields(latest);
+
         return {
           stayDate: dateStr.split('T')[0],
           stly: {
             rooms: stlyRooms,
             revenue: stlyRevenue,
             adr: stlyAdr,
+            fields: stlyFields,
           },
           latest: {
             rooms: latestRooms,
             revenue: latestRevenue,
             adr: latestAdr,
+            fields: latestFields,
           },
           difference: {
             puRooms: createPickupMetadata(latestRooms - stlyRooms),
             puRevenue: createPickupMetadata(latestRevenue - stlyRevenue),
             puADR: createPickupMetadata(latestAdr - stlyAdr),
+            puFields: createFieldPickup(stlyFields, latestFields),
           },
         };
       });
@@ -853,6 +2457,7 @@ router.get('/comparison/:hotelId/stly', async (req, res) => {
         snapshotTime: latestSnapshot.snapshotTime,
         filename: latestSnapshot.originalFilename,
       },
+      fieldDefinitions: await getNumericFieldDefinitions(hotelId),
       daily: stlyComparison,
     });
   } catch (error) {
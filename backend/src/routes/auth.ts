@@ -0,0 +1,49 @@
+import express from 'express';
+import { tokenService } from '../services/token.service.js';
+import { mailboxService } from '../services/mailbox.service.js';
+import { logger } from '../utils/logger.js';
+
+const router = express.Router();
+
+/**
+ * GET /auth/callback
+ * OAuth redirect target of the mailbox connect flow (see GET /api/mailboxes/connect)
+ * Query params: code, state (or error, error_description when sign-in failed)
+ */
+router.get('/callback', async (req, res) => {
+  const { code, state, error, error_description } = req.query;
+
+  if (error) {
+    logger.warn('Mailbox connect was not completed', { error, error_description });
+    return res
+      .status(400)
+      .type('text/plain')
+      .send(`Mailbox was not connected: ${error_description || error}`);
+  }
+
+  if (typeof code !== 'string' || typeof state !== 'string') {
+    return res.status(400).type('text/plain').send('Missing code or state');
+  }
+
+  if (!tokenService.isValidState(state)) {
+    return res
+      .status(400)
+      .type('text/plain')
+      .send('Invalid or expired state. Start again from /api/mailboxes/connect.');
+  }
+
+  try {
+    const credential = await tokenService.completeAuthorization(code);
+    const mailbox = await mailboxService.attachCredential(credential);
+    logger.info('Mailbox connected', { mailboxId: mailbox.id, accountEmail: credential.accountEmail });
+
+    return res
+      .type('text/plain')
+      .send(`Mailbox ${credential.accountEmail} connected. You can close this window.`);
+  } catch (err) {
+    logger.error('Error completing mailbox connect', { error: err });
+    return res.status(500).type('text/plain').send('Failed to connect mailbox');
+  }
+});
+
+export default router;
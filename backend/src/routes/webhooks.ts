@@ -0,0 +1,40 @@
+import express from 'express';
+import { graphSubscriptionService } from '../services/graphSubscription.service.js';
+import { triggerMailboxJob } from '../jobs/scheduler.js';
+import { logger } from '../utils/logger.js';
+import type { GraphNotification } from '../types/ingestion.types.js';
+
+const router = express.Router();
+
+/**
+ * POST /api/webhooks/graph
+ * Graph change and lifecycle notifications for the mailbox subscriptions
+ * Query params: validationToken (subscription validation, echoed back as plain text)
+ * Body: { value: GraphNotification[] }
+ */
+router.post('/graph', (req, res) => {
+  const { validationToken } = req.query;
+  if (typeof validationToken === 'string') {
+    return res.status(200).type('text/plain').send(validationToken);
+  }
+
+  const notifications: GraphNotification[] = Array.isArray(req.body?.value)
+    ? req.body.value
+    : [];
+
+  // Graph expects an answer within 3 seconds, so acknowledge before polling
+  res.status(202).send();
+
+  graphSubscriptionService
+    .handleNotifications(notifications)
+    .then((mailboxIds) => {
+      mailboxIds.forEach((mailboxId) => triggerMailboxJob(mailboxId));
+    })
+    .catch((error) => {
+      logger.error('Error handling Graph notifications', { error });
+    });
+
+  return;
+});
+
+export default router;
@@ -0,0 +1,355 @@
+import { prisma } from '../utils/prisma.js';
+import { config } from '../config/index.js';
+import type { IngestionOutcome, Prisma, QueuedAttachment, QueueStatus } from '@prisma/client';
+import type { SourceItem } from '../types/ingestion.types.js';
+
+// Jobs stuck in PROCESSING longer than this are assumed to belong to a crashed worker
+const STALE_LOCK_MINUTES = 15;
+
+// Upper bound for the exponential backoff
+const MAX_BACKOFF_SECONDS = 6 * 60 * 60;
+
+/**
+ * Queued attachment without the file content (for listings)
+ */
+export type QueuedAttachmentSummary = Omit<QueuedAttachment, 'content'>;
+
+class AttachmentQueueService {
+  /**
+   * Add an attachment to the queue and record it on the ingestion run
+   * Enqueueing is idempotent per (source, externalId, filename)
+   * @param runId - Ingestion run that found the item
+   * @param item - Item from the source
+   * @returns True if the item was newly queued, false if it was queued before
+   */
+  async enqueue(runId: string, item: SourceItem): Promise<boolean> {
+    try {
+      const existing = await prisma.queuedAttachment.findUnique({
+        where: {
+          source_externalId_filename: {
+            source: item.source,
+            externalId: item.externalId,
+            filename: item.filename,
+          },
+        },
+        select: { id: true },
+      });
+
+      if (existing) {
+        return false;
+      }
+
+      await prisma.ingestionItem.create({
+        data: {
+          runId,
+          source: item.source,
+          externalId: item.externalId,
+          filename: item.filename,
+          sender: item.hotelHint.senderEmail?.toLowerCase(),
+          subject: item.hotelHint.subject,
+          receivedAt: item.receivedAt,
+          outcome: 'QUEUED',
+          queuedItems: {
+            create: {
+              source: item.source,
+              externalId: item.externalId,
+              filename: item.filename,
+              content: new Uint8Array(item.bytes),
+              senderEmail: item.hotelHint.senderEmail,
+              subject: item.hotelHint.subject,
+              hintHotelId: item.hotelHint.hotelId,
+              mailboxId: item.mailboxId,
+              receivedAt: item.receivedAt,
+              maxAttempts: config.queue.maxAttempts,
+            },
+          },
+        },
+      });
+
+      return true;
+    } catch (error) {
+      console.error('Error enqueueing attachment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Whether any attachment of a message/file was queued before (in any status)
+   * @param source - Source name
+   * @param externalId - ID in the source system
+   * @returns True if at least one attachment was queued
+   */
+  async isQueued(source: string, externalId: string): Promise<boolean> {
+    try {
+      const count = await prisma.queuedAttachment.count({
+        where: { source, externalId },
+      });
+      return count > 0;
+    } catch (error) {
+      console.error('Error checking queued attachments:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Final outcomes of all attachments of a message/file
+   * @param source - Source name
+   * @param externalId - ID in the source system
+   * @returns Outcomes, or null while some attachment is still waiting or being processed
+   */
+  async getMessageOutcomes(
+    source: string,
+    externalId: string
+  ): Promise<IngestionOutcome[] | null> {
+    try {
+      const attachments = await prisma.queuedAttachment.findMany({
+        where: { source, externalId },
+        select: { status: true, ingestionItem: { select: { outcome: true } } },
+      });
+
+      if (
+        attachments.some(
+          (attachment) =>
+            attachment.status === 'PENDING' || attachment.status === 'PROCESSING'
+        )
+      ) {
+        return null;
+      }
+
+      return attachments.map((attachment) => attachment.ingestionItem.outcome);
+    } catch (error) {
+      console.error('Error fetching message outcomes:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Claim due attachments for processing
+   * Uses SKIP LOCKED so several workers never claim the same row. The file content
+   * is left out, so a batch of large files is never held in memory at once; load it
+   * with getContent() when the attachment's turn comes.
+   * @param limit - Maximum number of attachments to claim
+   * @returns Claimed attachments without content (attempts already incremented)
+   */
+  async claimDue(limit: number): Promise<QueuedAttachmentSummary[]> {
+    try {
+      const claimed = await prisma.$queryRaw<{ id: string }[]>`
+        UPDATE queued_attachments
+        SET status = 'PROCESSING', "lockedAt" = NOW(), attempts = attempts + 1, "updatedAt" = NOW()
+        WHERE id IN (
+          SELECT id FROM queued_attachments
+          WHERE (status = 'PENDING' AND "nextAttemptAt" <= NOW())
+             OR (status = 'PROCESSING' AND "lockedAt" < NOW() - make_interval(mins => ${STALE_LOCK_MINUTES}))
+          ORDER BY "nextAttemptAt" ASC
+          LIMIT ${limit}
+          FOR UPDATE SKIP LOCKED
+        )
+        RETURNING id
+      `;
+
+      if (claimed.length === 0) {
+        return [];
+      }
+
+      return await prisma.queuedAttachment.findMany({
+        where: { id: { in: claimed.map((row) => row.id) } },
+        omit: { content: true },
+        orderBy: { nextAttemptAt: 'asc' },
+      });
+    } catch (error) {
+      console.error('Error claiming queued attachments:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Load the file content of a queued attachment
+   * @param id - Queued attachment ID
+   * @returns File content
+   */
+  async getContent(id: string): Promise<Buffer> {
+    const { content } = await prisma.queuedAttachment.findUniqueOrThrow({
+      where: { id },
+      select: { content: true },
+    });
+    return Buffer.from(content);
+  }
+
+  /**
+   * Remember the registered snapshot so a retry resumes at parsing
+   * @param id - Queued attachment ID
+   * @param hotelId - Resolved hotel ID
+   * @param snapshotId - Created snapshot ID
+   */
+  async setSnapshot(
+    id: string,
+    hotelId: string,
+    snapshotId: string
+  ): Promise<void> {
+    await prisma.queuedAttachment.update({
+      where: { id },
+      data: { hotelId, snapshotId },
+    });
+  }
+
+  /**
+   * Mark an attachment as done (any final outcome)
+   * The file content is dropped; the original lives in blob storage. The writes
+   * that record the outcome run in the same transaction, so a row is never left
+   * retryable without its file.
+   * @param id - Queued attachment ID
+   * @param outcomeWrites - Writes recording the outcome (see ingestionRunService.buildItemCompletion())
+   */
+  async markCompleted(
+    id: string,
+    outcomeWrites: Prisma.PrismaPromise<unknown>[]
+  ): Promise<void> {
+    await prisma.$transaction([
+      ...outcomeWrites,
+      prisma.queuedAttachment.update({
+        where: { id },
+        data: {
+          status: 'COMPLETED',
+          lockedAt: null,
+          completedAt: new Date(),
+          content: Buffer.alloc(0),
+        },
+      }),
+    ]);
+  }
+
+  /**
+   * Record a failed attempt and schedule a retry with exponential backoff
+   * @param attachment - Claimed attachment
+   * @param error - Error message
+   * @returns True if the attachment reached max attempts and was dead-lettered
+   */
+  async markFailed(
+    attachment: QueuedAttachmentSummary,
+    error: string
+  ): Promise<boolean> {
+    const isDead = attachment.attempts >= attachment.maxAttempts;
+    const backoffSeconds = Math.min(
+      config.queue.backoffBaseSeconds * 2 ** (attachment.attempts - 1),
+      MAX_BACKOFF_SECONDS
+    );
+
+    await prisma.queuedAttachment.update({
+      where: { id: attachment.id },
+      data: {
+        status: isDead ? 'DEAD' : 'PENDING',
+        lockedAt: null,
+        lastError: error,
+        nextAttemptAt: isDead
+          ? attachment.nextAttemptAt
+          : new Date(Date.now() + backoffSeconds * 1000),
+      },
+    });
+
+    return isDead;
+  }
+
+  /**
+   * List queued attachments by status (without file content)
+   * @param status - Queue status (default: DEAD)
+   * @param limit - Maximum number of rows
+   * @returns Queued attachments, newest first
+   */
+  async list(
+    status: QueueStatus = 'DEAD',
+    limit: number = 100
+  ): Promise<QueuedAttachmentSummary[]> {
+    try {
+      return await prisma.queuedAttachment.findMany({
+        where: { status },
+        omit: { content: true },
+        orderBy: { updatedAt: 'desc' },
+        take: limit,
+      });
+    } catch (error) {
+      console.error('Error listing queued attachments:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Put a dead-lettered attachment back on the queue with fresh attempts
+   * @param id - Queued attachment ID
+   * @returns Updated attachment or null if not found / not dead
+   */
+  async requeue(id: string): Promise<QueuedAttachmentSummary | null> {
+    try {
+      const { count } = await prisma.queuedAttachment.updateMany({
+        where: { id, status: 'DEAD' },
+        data: this.requeueData(),
+      });
+
+      if (count === 0) {
+        return null;
+      }
+
+      console.log(`Queued attachment ${id} requeued`);
+      return await prisma.queuedAttachment.findUnique({
+        where: { id },
+        omit: { content: true },
+      });
+    } catch (error) {
+      console.error('Error requeueing attachment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Put all dead-lettered attachments back on the queue
+   * @returns Number of requeued attachments
+   */
+  async requeueAllDead(): Promise<number> {
+    try {
+      const { count } = await prisma.queuedAttachment.updateMany({
+        where: { status: 'DEAD' },
+        data: this.requeueData(),
+      });
+
+      console.log(`Requeued ${count} dead-lettered attachment(s)`);
+      return count;
+    } catch (error) {
+      console.error('Error requeueing dead-lettered attachments:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Rebuild the source item from a queued attachment
+   * @param attachment - Queued attachment
+   * @param content - File content (see getContent())
+   * @returns Source item as originally fetched
+   */
+  toSourceItem(attachment: QueuedAttachmentSummary, content: Buffer): SourceItem {
+    return {
+      source: attachment.source,
+      externalId: attachment.externalId,
+      hotelHint: {
+        senderEmail: attachment.senderEmail ?? undefined,
+        subject: attachment.subject ?? undefined,
+        hotelId: attachment.hintHotelId ?? undefined,
+      },
+      filename: attachment.filename,
+      bytes: content,
+      receivedAt: attachment.receivedAt,
+      mailboxId: attachment.mailboxId ?? undefined,
+    };
+  }
+
+  private requeueData() {
+    return {
+      status: 'PENDING' as const,
+      attempts: 0,
+      nextAttemptAt: new Date(),
+      lockedAt: null,
+    };
+  }
+}
+
+// Export singleton instance
+export const attachmentQueueService = new AttachmentQueueService();
+export default attachmentQueueService;
@@ -52,13 +52,13 @@ class BlobStorageService {
    * Upload file to Azure Blob Storage
    * @param hotelId - Hotel identifier
    * @param filename - Original filename
-   * @param buffer - File content as buffer
+   * @param content - File content as buffer, or a file on disk (streamed in blocks)
    * @returns Blob URL
    */
   async uploadFile(
     hotelId: string,
     filename: string,
-    buffer: Buffer
+    content: Buffer | { path: string }
   ): Promise<string> {
     if (!this.initialized) {
       await this.initialize();
@@ -72,13 +72,18 @@ class BlobStorageService {
         this.containerClient.getBlockBlobClient(blobName);
 
       // Upload with metadata (Azure requires all values to be strings)
-      await blockBlobClient.upload(buffer, buffer.length, {
+      const options = {
         metadata: {
           hotelId: String(hotelId),
           originalFilename: String(filename),
           uploadedAt: String(new Date().toISOString()),
         },
-      });
+      };
+      if (Buffer.isBuffer(content)) {
+        await blockBlobClient.upload(content, content.length, options);
+      } else {
+        await blockBlobClient.uploadFile(content.path, options);
+      }
 
       console.log(`File uploaded successfully: ${blobName}`);
       return blockBlobClient.url;
@@ -99,6 +104,25 @@ class BlobStorageService {
     return blockBlobClient.url;
   }
 
+  /**
+   * Get the blob path (name inside the container) from a stored blob URL
+   * @param blobUrl - Blob URL as returned by uploadFile()
+   * @returns Blob path, e.g. history-forecast/<hotelId>/<timestamp>_<filename>
+   */
+  getBlobPathFromUrl(blobUrl: string): string {
+    const { pathname } = new URL(blobUrl);
+    const containerPrefix = `/${config.azure.containerName}/`;
+    const index = pathname.indexOf(containerPrefix);
+
+    if (index === -1) {
+      throw new Error(
+        `Blob URL does not belong to container '${config.azure.containerName}': ${blobUrl}`
+      );
+    }
+
+    return decodeURIComponent(pathname.slice(index + containerPrefix.length));
+  }
+
   /**
    * Check if file exists in blob storage
    * @param blobPath - Path to the blob
@@ -141,6 +165,33 @@ class BlobStorageService {
       throw error;
     }
   }
+
+  /**
+   * Download file from blob storage as a stream of chunks
+   * @param blobPath - Path to the blob
+   * @returns Chunks of the file and its size in bytes (null if not reported)
+   */
+  async downloadStream(
+    blobPath: string
+  ): Promise<{ chunks: AsyncIterable<Uint8Array>; size: number | null }> {
+    try {
+      const blockBlobClient =
+        this.containerClient.getBlockBlobClient(blobPath);
+      const downloadResponse = await blockBlobClient.download();
+
+      if (!downloadResponse.readableStreamBody) {
+        throw new Error('No content in blob');
+      }
+
+      return {
+        chunks: downloadResponse.readableStreamBody as AsyncIterable<Uint8Array>,
+        size: downloadResponse.contentLength ?? null,
+      };
+    } catch (error) {
+      console.error('Error downloading file from blob storage:', error);
+      throw error;
+    }
+  }
 }
 
 // Export singleton instance
@@ -0,0 +1,376 @@
+import { prisma } from '../utils/prisma.js';
+import { AUTO_DATE_FORMAT, DEFAULT_COLUMN_MAPPING } from '../config/columnMapping.js';
+import { findHeaderRow, matchHeaderField } from '../config/headerSynonyms.js';
+import { isValidDateFormat } from '../utils/dateFormat.js';
+import type { ColumnFieldDefinition, ColumnMappingProfile } from '@prisma/client';
+import type {
+  ColumnMapping,
+  ColumnMappingProfileInput,
+  FieldDefinition,
+  HeaderColumn,
+  HeaderMappingResult,
+  KeyColumnField,
+} from '../types/fileProcessor.types.js';
+
+// Column fields of a profile (1-based column numbers)
+const KEY_COLUMN_FIELDS: readonly KeyColumnField[] = [
+  'dataTypeColumn',
+  'stayDateColumn',
+  'roomNightsColumn',
+  'roomRevenueColumn',
+  'ooRoomsColumn',
+];
+
+const FIELD_VALUE_TYPES = ['NUMBER', 'INTEGER', 'TEXT'];
+
+const DECIMAL_SEPARATORS = ['AUTO', 'POINT', 'COMMA'];
+
+class ColumnMappingService {
+  /**
+   * Get all profiles with the number of hotels using them
+   * @returns Profiles ordered by name
+   */
+  async getProfiles(): Promise<(ColumnMappingProfile & { _count: { hotels: number } })[]> {
+    try {
+      return await prisma.columnMappingProfile.findMany({
+        include: { _count: { select: { hotels: true } } },
+        orderBy: { name: 'asc' },
+      });
+    } catch (error) {
+      console.error('Error fetching column mapping profiles:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a profile by ID
+   * @param id - Profile ID
+   * @returns Profile or null
+   */
+  async getProfileById(id: string): Promise<ColumnMappingProfile | null> {
+    try {
+      return await prisma.columnMappingProfile.findUnique({ where: { id } });
+    } catch (error) {
+      console.error('Error fetching column mapping profile:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Column layout used to parse the files of a hotel
+   * @param hotelId - Hotel ID
+   * @returns Profile of the hotel or the default layout
+   */
+  async getHotelMapping(hotelId: string): Promise<ColumnMapping> {
+    try {
+      const hotel = await prisma.hotel.findUnique({
+        where: { id: hotelId },
+        select: { columnMappingProfile: { include: { fields: true } } },
+      });
+
+      return hotel?.columnMappingProfile ?? DEFAULT_COLUMN_MAPPING;
+    } catch (error) {
+      console.error('Error fetching column mapping of hotel:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Field dictionary of the profile a hotel uses
+   * @param hotelId - Hotel ID
+   * @returns Field definitions ordered by column (empty without a profile)
+   */
+  async getHotelFields(hotelId: string): Promise<ColumnFieldDefinition[]> {
+    try {
+      return await prisma.columnFieldDefinition.findMany({
+        where: { profile: { hotels: { some: { id: hotelId } } } },
+        orderBy: { column: 'asc' },
+      });
+    } catch (error) {
+      console.error('Error fetching field dictionary of hotel:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Field dictionary of a profile
+   * @param profileId - Profile ID
+   * @returns Field definitions ordered by column
+   */
+  async getFields(profileId: string): Promise<ColumnFieldDefinition[]> {
+    try {
+      return await prisma.columnFieldDefinition.findMany({
+        where: { profileId },
+        orderBy: { column: 'asc' },
+      });
+    } catch (error) {
+      console.error('Error fetching field dictionary:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the field dictionary of a profile
+   * @param profileId - Profile ID
+   * @param fields - New definitions (validate with validateFields() first)
+   * @returns Saved definitions ordered by column
+   */
+  async replaceFields(
+    profileId: string,
+    fields: FieldDefinition[]
+  ): Promise<ColumnFieldDefinition[]> {
+    try {
+      await prisma.$transaction([
+        prisma.columnFieldDefinition.deleteMany({ where: { profileId } }),
+        prisma.columnFieldDefinition.createMany({
+          data: fields.map((field) => ({ ...field, profileId })),
+        }),
+      ]);
+
+      console.log(`Field dictionary of profile ${profileId} saved (${fields.length} fields)`);
+      return await this.getFields(profileId);
+    } catch (error) {
+      console.error('Error saving field dictionary:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a profile; unset columns use the default layout
+   * @param input - Profile fields (validate with validateProfile() first)
+   * @returns Created profile
+   */
+  async createProfile(input: ColumnMappingProfileInput): Promise<ColumnMappingProfile> {
+    try {
+      const profile = await prisma.columnMappingProfile.create({
+        data: { ...input, name: input.name! },
+      });
+
+      console.log(`Column mapping profile created: ${profile.name}`);
+      return profile;
+    } catch (error) {
+      console.error('Error creating column mapping profile:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a profile (applies to files parsed from now on, or reprocessed)
+   * @param id - Profile ID
+   * @param input - Changed fields (validate with validateProfile() first)
+   * @returns Updated profile
+   */
+  async updateProfile(
+    id: string,
+    input: ColumnMappingProfileInput
+  ): Promise<ColumnMappingProfile> {
+    try {
+      const profile = await prisma.columnMappingProfile.update({
+        where: { id },
+        data: input,
+      });
+
+      console.log(`Column mapping profile updated: ${profile.name}`);
+      return profile;
+    } catch (error) {
+      console.error('Error updating column mapping profile:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a profile; its hotels fall back to the default layout
+   * @param id - Profile ID
+   */
+  async deleteProfile(id: string): Promise<void> {
+    try {
+      const profile = await prisma.columnMappingProfile.delete({ where: { id } });
+      console.log(`Column mapping profile deleted: ${profile.name}`);
+    } catch (error) {
+      console.error('Error deleting column mapping profile:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Build a column mapping from the header row of a file
+   * Columns are numbered from column 0 of the file (skipLeadingColumn off); dates and
+   * numbers are detected per file
+   * @param rows - Rows including column 0
+   * @param overrides - Profile fields set by the user; a key column here settles a missing or ambiguous key value
+   * @returns Suggested profile fields and how each header was matched
+   */
+  detectFromHeader(
+    rows: string[][],
+    overrides: ColumnMappingProfileInput = {}
+  ): HeaderMappingResult {
+    const headerIndex = findHeaderRow(rows);
+    const headers: HeaderColumn[] =
+      headerIndex < 0
+        ? []
+        : rows[headerIndex]
+            .map((header, index) => ({ column: index + 1, header: header.trim() }))
+            .filter((header) => header.header !== '');
+
+    const matches = new Map<KeyColumnField, HeaderColumn[]>();
+    const unmapped: HeaderColumn[] = [];
+    for (const header of headers) {
+      const field = matchHeaderField(header.header);
+      if (field) {
+        matches.set(field, [...(matches.get(field) ?? []), header]);
+      } else {
+        unmapped.push(header);
+      }
+    }
+
+    const result: HeaderMappingResult = {
+      headerLine: headerIndex >= 0 ? headerIndex + 1 : null,
+      profile: {
+        skipLeadingColumn: false,
+        dateFormat: AUTO_DATE_FORMAT,
+        decimalSeparator: 'AUTO',
+      },
+      mapped: [],
+      missing: [],
+      ambiguous: [],
+      unmapped,
+    };
+
+    for (const field of KEY_COLUMN_FIELDS) {
+      const columns = matches.get(field) ?? [];
+      const column = overrides[field] ?? (columns.length === 1 ? columns[0].column : undefined);
+
+      if (column !== undefined) {
+        const header = headers.find((candidate) => candidate.column === column)?.header ?? '';
+        result.mapped.push({ field, column, header });
+        result.profile[field] = column;
+      } else if (columns.length > 1) {
+        result.ambiguous.push({ field, columns });
+      } else {
+        result.missing.push(field);
+      }
+    }
+
+    // Lines need every key column; key values not found keep their default column
+    result.profile = { ...result.profile, ...overrides };
+    result.profile.minColumnCount ??= Math.max(
+      ...KEY_COLUMN_FIELDS.map((field) => result.profile[field] ?? DEFAULT_COLUMN_MAPPING[field])
+    );
+
+    return result;
+  }
+
+  /**
+   * Check profile fields before saving
+   * @param input - Profile fields
+   * @param existing - Current profile when updating
+   * @returns Error message or null if valid
+   */
+  async validateProfile(
+    input: ColumnMappingProfileInput,
+    existing?: ColumnMappingProfile
+  ): Promise<string | null> {
+    if (input.name !== undefined || !existing) {
+      if (!input.name?.trim()) {
+        return 'name is required';
+      }
+      const sameName = await prisma.columnMappingProfile.findUnique({
+        where: { name: input.name },
+        select: { id: true },
+      });
+      if (sameName && sameName.id !== existing?.id) {
+        return 'A profile with this name already exists';
+      }
+    }
+
+    for (const field of [...KEY_COLUMN_FIELDS, 'minColumnCount'] as const) {
+      const value = input[field];
+      if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+        return `${field} must be a positive integer`;
+      }
+    }
+
+    if (
+      input.dateFormat !== undefined &&
+      input.dateFormat !== AUTO_DATE_FORMAT &&
+      (!isValidDateFormat(input.dateFormat) || /[Hms]/.test(input.dateFormat))
+    ) {
+      return `dateFormat must be "${AUTO_DATE_FORMAT}" or use the tokens yyyy yy MM M dd d (e.g. dd/MM/yyyy)`;
+    }
+    if (
+      input.decimalSeparator !== undefined &&
+      !DECIMAL_SEPARATORS.includes(input.decimalSeparator)
+    ) {
+      return `decimalSeparator must be one of ${DECIMAL_SEPARATORS.join(', ')}`;
+    }
+
+    const merged: ColumnMapping = { ...DEFAULT_COLUMN_MAPPING, ...existing, ...input };
+    const columns = KEY_COLUMN_FIELDS.map((field) => merged[field]);
+    if (new Set(columns).size !== columns.length) {
+      return 'Each key value needs its own column';
+    }
+    if (Math.max(...columns) > merged.minColumnCount) {
+      return 'minColumnCount must include all key columns';
+    }
+
+    if (existing) {
+      const taken = await prisma.columnFieldDefinition.findFirst({
+        where: { profileId: existing.id, column: { in: columns } },
+      });
+      if (taken) {
+        return `Column ${taken.column} is already the named field ${taken.key}`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Check a field dictionary before saving
+   * @param fields - Definitions from the request body
+   * @param profile - Profile the dictionary belongs to
+   * @returns Error message or null if valid
+   */
+  validateFields(fields: unknown, profile: ColumnMappingProfile): string | null {
+    if (!Array.isArray(fields)) {
+      return 'fields must be an array';
+    }
+
+    const keyColumns: number[] = KEY_COLUMN_FIELDS.map((field) => profile[field]);
+    const columns = new Set<number>();
+    const keys = new Set<string>();
+
+    for (const [index, field] of fields.entries()) {
+      const label = `fields[${index}]`;
+      if (!Number.isInteger(field?.column) || field.column < 1) {
+        return `${label}.column must be a positive integer`;
+      }
+      if (keyColumns.includes(field.column)) {
+        return `${label}.column ${field.column} is a key column of the profile`;
+      }
+      if (typeof field.key !== 'string' || !/^[a-z][A-Za-z0-9]*$/.test(field.key)) {
+        return `${label}.key must be camelCase (e.g. groupRooms)`;
+      }
+      if (typeof field.label !== 'string' || field.label.trim() === '') {
+        return `${label}.label is required`;
+      }
+      if (field.valueType !== undefined && !FIELD_VALUE_TYPES.includes(field.valueType)) {
+        return `${label}.valueType must be one of ${FIELD_VALUE_TYPES.join(', ')}`;
+      }
+      if (field.unit !== undefined && field.unit !== null && typeof field.unit !== 'string') {
+        return `${label}.unit must be a string`;
+      }
+      if (columns.has(field.column) || keys.has(field.key)) {
+        return `${label} repeats column ${field.column} or key ${field.key}`;
+      }
+      columns.add(field.column);
+      keys.add(field.key);
+    }
+
+    return null;
+  }
+}
+
+// Export singleton instance
+export const columnMappingService = new ColumnMappingService();
+export default columnMappingService;
@@ -1,78 +1,151 @@
 import { Client } from '@microsoft/microsoft-graph-client';
 import { tokenService } from './token.service.js';
-import type { Email, Attachment } from '../types/fileProcessor.types.js';
+import { config } from '../config/index.js';
+import type { Mailbox } from '@prisma/client';
+import type {
+  Email,
+  EmailSyncResult,
+  Attachment,
+} from '../types/fileProcessor.types.js';
+
+// Messages per delta page (Graph caps this at its own maximum)
+const DELTA_PAGE_SIZE = 50;
+
+// Resource watched by change notifications
+const INBOX_MESSAGES_RESOURCE = "me/mailFolders('inbox')/messages";
 
 class EmailService {
-  private client: Client | null = null;
+  // Graph clients per mailbox credential
+  private clients = new Map<string, Client>();
+
+  // Folder IDs per mailbox and folder name (looked up or created once)
+  private folderIds = new Map<string, string>();
 
   /**
-   * Initialize Microsoft Graph client with user delegated permissions
+   * Get the Microsoft Graph client of a mailbox (user delegated permissions)
+   * `/me` of the client is the account the mailbox was connected with
+   * @param mailbox - Connected mailbox
    */
-  initializeClient(): void {
-    try {
-      this.client = Client.initWithMiddleware({
-        authProvider: {
-          getAccessToken: async () => {
+  private getClient(mailbox: Mailbox): Client {
+    const { credentialId } = mailbox;
+    if (!credentialId) {
+      throw new Error(
+        `Mailbox ${mailbox.address} is not connected. Open /api/mailboxes/connect to connect it.`
+      );
+    }
+
+    let client = this.clients.get(credentialId);
+    if (!client) {
+      try {
+        client = Client.initWithMiddleware({
+          authProvider: {
             // Get access token using refresh token flow
-            const token = await tokenService.getAccessToken();
-            return token;
+            getAccessToken: () => tokenService.getAccessToken(credentialId),
           },
-        },
-      });
-
-      console.log('Microsoft Graph client initialized successfully');
-    } catch (error) {
-      console.error('Error initializing Microsoft Graph client:', error);
-      throw error;
+        });
+        this.clients.set(credentialId, client);
+        console.log(`Microsoft Graph client initialized for ${mailbox.address}`);
+      } catch (error) {
+        console.error('Error initializing Microsoft Graph client:', error);
+        throw error;
+      }
     }
+
+    return client;
   }
 
   /**
-   * Get new emails from the monitored inbox
-   * @returns Array of emails with attachments
+   * Get new and changed inbox messages with attachments via a Graph delta query
+   * Pages through all results, so backlogs larger than one page are not dropped
+   * @param mailbox - Mailbox to sync
+   * @param deltaLink - Delta link of the previous sync (null for an initial sync)
+   * @returns Messages with attachments and the delta link for the next sync
    */
-  async getNewEmails(): Promise<Email[]> {
-    if (!this.client) {
-      this.initializeClient();
-    }
+  async syncMessages(
+    mailbox: Mailbox,
+    deltaLink: string | null
+  ): Promise<EmailSyncResult> {
+    const client = this.getClient(mailbox);
 
     try {
-      // Query for unread emails with attachments
-      // Using /me endpoint since we're using delegated permissions (user context)
-      const response = await this.client!
-        .api('/me/messages')
-        .filter('hasAttachments eq true and isRead eq false')
-        .select('id,subject,from,receivedDateTime')
-        .top(50)
-        .get();
+      let response;
+      if (deltaLink) {
+        response = await client
+          .api(deltaLink)
+          .header('Prefer', `odata.maxpagesize=${DELTA_PAGE_SIZE}`)
+          .get();
+      } else {
+        // Initial sync: only look back a limited number of days
+        const since = new Date(
+          Date.now() - config.graph.initialSyncDays * 24 * 60 * 60 * 1000
+        );
+        response = await client
+          .api('/me/mailFolders/inbox/messages/delta')
+          .select('id,subject,from,receivedDateTime,hasAttachments')
+          .filter(`receivedDateTime ge ${since.toISOString()}`)
+          .header('Prefer', `odata.maxpagesize=${DELTA_PAGE_SIZE}`)
+          .get();
+      }
+
+      const emails: Email[] = [];
+      let pages = 1;
+
+      for (;;) {
+        for (const msg of response.value) {
+          // Deleted messages and messages without attachments are of no interest
+          if (msg['@removed'] || !msg.hasAttachments) {
+            continue;
+          }
+
+          emails.push({
+            messageId: msg.id,
+            sender: msg.from?.emailAddress?.address || '',
+            subject: msg.subject || '',
+            receivedAt: new Date(msg.receivedDateTime),
+          });
+        }
+
+        const nextLink: string | undefined = response['@odata.nextLink'];
+        if (!nextLink) {
+          break;
+        }
 
-      const emails: Email[] = response.value.map((msg: any) => ({
-        messageId: msg.id,
-        sender: msg.from?.emailAddress?.address || '',
-        subject: msg.subject || '',
-        receivedAt: new Date(msg.receivedDateTime),
-      }));
+        response = await client
+          .api(nextLink)
+          .header('Prefer', `odata.maxpagesize=${DELTA_PAGE_SIZE}`)
+          .get();
+        pages++;
+      }
+
+      const newDeltaLink: string | undefined = response['@odata.deltaLink'];
+      if (!newDeltaLink) {
+        throw new Error('Delta query finished without a delta link');
+      }
 
-      console.log(`Found ${emails.length} new email(s) with attachments`);
-      return emails;
+      console.log(
+        `Found ${emails.length} new/changed email(s) with attachments in ${mailbox.address} (${pages} page(s))`
+      );
+      return { emails, deltaLink: newDeltaLink };
     } catch (error) {
-      console.error('Error fetching emails:', error);
+      console.error('Error syncing emails:', error);
       throw error;
     }
   }
 
   /**
    * Get attachments for a specific email
+   * @param mailbox - Mailbox of the email
    * @param messageId - Email message ID
    * @returns Array of attachments
    */
-  async getAttachments(messageId: string): Promise<Attachment[]> {
-    if (!this.client) {
-      this.initializeClient();
-    }
+  async getAttachments(
+    mailbox: Mailbox,
+    messageId: string
+  ): Promise<Attachment[]> {
+    const client = this.getClient(mailbox);
 
     try {
-      const response = await this.client!
+      const response = await client
         .api(`/me/messages/${messageId}/attachments`)
         .get();
 
@@ -106,15 +179,14 @@ class EmailService {
 
   /**
    * Mark email as read/processed
+   * @param mailbox - Mailbox of the email
    * @param messageId - Email message ID
    */
-  async markAsProcessed(messageId: string): Promise<void> {
-    if (!this.client) {
-      this.initializeClient();
-    }
+  async markAsProcessed(mailbox: Mailbox, messageId: string): Promise<void> {
+    const client = this.getClient(mailbox);
 
     try {
-      await this.client!
+      await client
         .api(`/me/messages/${messageId}`)
         .patch({
           isRead: true,
@@ -128,41 +200,75 @@ class EmailService {
   }
 
   /**
-   * Move email to a specific folder (optional, for better organization)
+   * Reply to the sender on the same thread
+   * @param mailbox - Mailbox of the email
+   * @param messageId - Email message ID
+   * @param subject - Reply subject
+   * @param body - Plain text reply (placed above the quoted original)
+   */
+  async replyToMessage(
+    mailbox: Mailbox,
+    messageId: string,
+    subject: string,
+    body: string
+  ): Promise<void> {
+    const client = this.getClient(mailbox);
+
+    try {
+      await client
+        .api(`/me/messages/${messageId}/reply`)
+        .post({
+          message: { subject },
+          comment: body,
+        });
+
+      console.log(`Replied to email ${messageId}`);
+    } catch (error) {
+      console.error('Error replying to email:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Move email to a specific folder, creating the folder if needed
+   * @param mailbox - Mailbox of the email
    * @param messageId - Email message ID
    * @param folderName - Target folder name
    */
   async moveToFolder(
+    mailbox: Mailbox,
     messageId: string,
     folderName: string
   ): Promise<void> {
-    if (!this.client) {
-      this.initializeClient();
-    }
+    const client = this.getClient(mailbox);
+    const cacheKey = `${mailbox.id}/${folderName.toLowerCase()}`;
 
     try {
-      // First, get or create the folder
-      const foldersResponse = await this.client!
-        .api('/me/mailFolders')
-        .filter(`displayName eq '${folderName}'`)
-        .get();
-
-      let folderId: string;
+      let folderId = this.folderIds.get(cacheKey);
 
-      if (foldersResponse.value.length > 0) {
-        folderId = foldersResponse.value[0].id;
-      } else {
-        // Create folder if it doesn't exist
-        const newFolder = await this.client!
+      if (!folderId) {
+        // First, get or create the folder (quotes are doubled in OData strings)
+        const foldersResponse = await client
           .api('/me/mailFolders')
-          .post({
-            displayName: folderName,
-          });
-        folderId = newFolder.id;
+          .filter(`displayName eq '${folderName.replace(/'/g, "''")}'`)
+          .get();
+
+        if (foldersResponse.value.length > 0) {
+          folderId = foldersResponse.value[0].id as string;
+        } else {
+          // Create folder if it doesn't exist
+          const newFolder = await client
+            .api('/me/mailFolders')
+            .post({
+              displayName: folderName,
+            });
+          folderId = newFolder.id as string;
+        }
+        this.folderIds.set(cacheKey, folderId);
       }
 
       // Move the message
-      await this.client!
+      await client
         .api(`/me/messages/${messageId}/move`)
         .post({
           destinationId: folderId,
@@ -170,10 +276,92 @@ class EmailService {
 
       console.log(`Email ${messageId} moved to folder '${folderName}'`);
     } catch (error) {
+      // The folder may have been deleted or renamed in Outlook
+      this.folderIds.delete(cacheKey);
       console.error('Error moving email to folder:', error);
       throw error;
     }
   }
+
+  /**
+   * Subscribe to new messages in the inbox (Graph change notifications)
+   * Graph validates the notification URL before answering
+   * @param mailbox - Mailbox to watch
+   * @param notificationUrl - Public URL of /api/webhooks/graph
+   * @param clientState - Secret echoed in every notification
+   * @param expiresAt - Requested expiry
+   * @returns Subscription ID
+   */
+  async createSubscription(
+    mailbox: Mailbox,
+    notificationUrl: string,
+    clientState: string,
+    expiresAt: Date
+  ): Promise<string> {
+    const client = this.getClient(mailbox);
+
+    try {
+      const subscription = await client.api('/subscriptions').post({
+        changeType: 'created',
+        notificationUrl,
+        lifecycleNotificationUrl: notificationUrl,
+        resource: INBOX_MESSAGES_RESOURCE,
+        expirationDateTime: expiresAt.toISOString(),
+        clientState,
+      });
+
+      console.log(`Subscribed to ${mailbox.address} (${subscription.id})`);
+      return subscription.id;
+    } catch (error) {
+      console.error('Error creating subscription:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Extend a subscription
+   * @param mailbox - Watched mailbox
+   * @param subscriptionId - Subscription ID
+   * @param expiresAt - New expiry
+   */
+  async renewSubscription(
+    mailbox: Mailbox,
+    subscriptionId: string,
+    expiresAt: Date
+  ): Promise<void> {
+    const client = this.getClient(mailbox);
+
+    try {
+      await client.api(`/subscriptions/${subscriptionId}`).patch({
+        expirationDateTime: expiresAt.toISOString(),
+      });
+
+      console.log(`Subscription ${subscriptionId} of ${mailbox.address} renewed`);
+    } catch (error) {
+      console.error('Error renewing subscription:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a subscription
+   * @param mailbox - Watched mailbox
+   * @param subscriptionId - Subscription ID
+   */
+  async deleteSubscription(
+    mailbox: Mailbox,
+    subscriptionId: string
+  ): Promise<void> {
+    const client = this.getClient(mailbox);
+
+    try {
+      await client.api(`/subscriptions/${subscriptionId}`).delete();
+      console.log(`Subscription ${subscriptionId} of ${mailbox.address} deleted`);
+    } catch (error) {
+      console.error('Error deleting subscription:', error);
+      throw error;
+    }
+  }
 }
 
 // Export singleton instance
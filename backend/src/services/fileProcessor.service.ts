@@ -1,225 +1,662 @@
-import type { ParsedRow } from '../types/fileProcessor.types.js';
+import type {
+  ColumnMapping,
+  FieldDefinition,
+  FileSource,
+  NamedFields,
+  ParseBatch,
+  ParsedRow,
+  ParseIssue,
+  ParseIssueRule,
+  ParseLocale,
+  RoomCapacity,
+  SkippedLine,
+  StreamParseResult,
+} from '../types/fileProcessor.types.js';
 import {
+  countBytes,
+  detectFileFormat,
+  openFileSource,
+  streamDelimited,
+  streamFirstSheet,
+  streamTabSeparated,
+} from '../utils/fileFormat.js';
+import {
+  detectDecimalSeparator,
+  detectStayDateFormat,
+} from '../utils/localeDetection.js';
+import {
+  AUTO_DATE_FORMAT,
   COLUMN_INDICES,
+  DEFAULT_STAY_DATE_FORMAT,
   parseStayDate,
   parseNumericValue,
+  isNumericValue,
   parseDataType,
   calculateOccupancyPercent,
   calculateADR,
   calculateRevPAR,
 } from '../config/columnMapping.js';
+import { findHeaderRow } from '../config/headerSynonyms.js';
+import { schemaDriftService, type FingerprintTally } from './schemaDrift.service.js';
+
+// Longest part of a raw line stored with a parse issue
+const EXCERPT_LENGTH = 200;
+
+// Lines sampled to detect the date and number format of a file
+const LOCALE_SAMPLE_LINES = 500;
+
+// Rows (or issues) handed over at a time while a file is streamed
+const DEFAULT_BATCH_SIZE = 1000;
+
+// Skipped lines kept for the result of a streamed parse (all are stored as issues)
+const MAX_KEPT_SKIPPED_LINES = 1000;
+
+/**
+ * The file as a whole cannot be read (unsupported format, ambiguous locale, corrupt
+ * workbook); retrying will not help
+ */
+export class FileParseError extends Error {}
+
+/**
+ * A line that cannot be imported, with the rule it breaks
+ */
+class LineParseError extends Error {
+  constructor(
+    readonly rule: ParseIssueRule,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+// Issues of a line that was imported anyway
+type LineWarning = Pick<ParseIssue, 'rule' | 'message'>;
+
+/**
+ * What a file parse carries from line to line
+ */
+interface ParseState {
+  capacity: RoomCapacity;
+  mapping: ColumnMapping;
+  locale: ParseLocale;
+  headerIndex: number; // 0-based, -1 without a header row
+  headerRow: string[] | null;
+  rowIndex: number;
+  rowCount: number;
+  skippedLineCount: number;
+  skippedLines: SkippedLine[];
+  maxSkippedLines: number;
+  fingerprint: FingerprintTally;
+}
 
 class FileProcessorService {
   /**
-   * Parse history forecast file (tab-separated text)
-   * @param buffer - File content as buffer
-   * @param totalAvailableRooms - Total available rooms for calculations
-   * @returns Array of parsed rows
+   * Read the raw cell values of the first lines of a file, e.g. to find its header row
+   * Reading stops after those lines, whatever the size of the file
+   * @param source - File content, in memory or streamed
+   * @param filename - Original filename (used for format detection)
+   * @param maxLines - Lines to read
+   * @returns Rows including column 0 (throws FileParseError if the file cannot be read)
+   */
+  async readHead(source: FileSource, filename: string, maxLines: number): Promise<string[][]> {
+    const rows: string[][] = [];
+    try {
+      for await (const cells of this.streamRawRows(source, filename, () => {})) {
+        rows.push(cells);
+        if (rows.length >= maxLines) {
+          break;
+        }
+      }
+      return rows;
+    } catch (error) {
+      throw this.toFileParseError(error);
+    }
+  }
+
+  /**
+   * Parse a history forecast file while it is read, handing over rows in batches
+   * Only the batch and the first lines (for format detection) are held in memory,
+   * so files of any size can be parsed
+   * @param source - File content, in memory or streamed
+   * @param filename - Original filename (used for format detection)
+   * @param capacity - Rooms available per stay date, for calculations
+   * @param mapping - Column layout of the hotel
+   * @param onBatch - Receives the rows and issues of each batch, in file order
+   * @param batchSize - Rows (or issues) per batch
+   * @returns Counts, skipped lines and fingerprint of the file (throws FileParseError
+   *   if the file cannot be read)
    */
-  parseHistoryForecastFile(buffer: Buffer, totalAvailableRooms: number): ParsedRow[] {
+  async parseFileStream(
+    source: FileSource,
+    filename: string,
+    capacity: RoomCapacity,
+    mapping: ColumnMapping,
+    onBatch: (batch: ParseBatch) => Promise<void>,
+    batchSize: number = DEFAULT_BATCH_SIZE
+  ): Promise<StreamParseResult> {
+    let bytesRead = 0;
+    const rows = this.streamRawRows(source, filename, (bytes) => {
+      bytesRead = bytes;
+    });
+    const iterator = rows[Symbol.asyncIterator]();
+
     try {
-      // Convert buffer to string
-      const content = buffer.toString('utf-8');
+      const head: string[][] = [];
+      let state: ParseState;
+      try {
+        while (head.length < LOCALE_SAMPLE_LINES) {
+          const next = await iterator.next();
+          if (next.done) {
+            break;
+          }
+          head.push(next.value);
+        }
+        state = this.startParse(head, capacity, mapping, MAX_KEPT_SKIPPED_LINES);
+      } catch (error) {
+        throw this.toFileParseError(error);
+      }
 
-      // Split by lines
-      const lines = content.split('\n').filter((line) => line.trim() !== '');
+      let batch: ParseBatch = { rows: [], issues: [], linesRead: 0, bytesRead: 0 };
+      let linesRead = 0;
+      const flush = async () => {
+        await onBatch({ ...batch, linesRead, bytesRead });
+        batch = { rows: [], issues: [], linesRead: 0, bytesRead: 0 };
+      };
 
-      const parsedRows: ParsedRow[] = [];
+      const readLine = async (cells: string[]) => {
+        linesRead++;
+        const { row, issues } = this.parseLine(state, cells, linesRead);
+        if (row) {
+          batch.rows.push(row);
+        }
+        batch.issues.push(...issues);
+        if (batch.rows.length >= batchSize || batch.issues.length >= batchSize) {
+          await flush();
+        }
+      };
 
-      for (let i = 0; i < lines.length; i++) {
-        const line = lines[i];
+      for (const cells of head) {
+        await readLine(cells);
+      }
+      head.length = 0;
 
+      while (true) {
+        let next: IteratorResult<string[]>;
         try {
-          const row = this.parseLine(line, i, totalAvailableRooms);
-          if (row) {
-            parsedRows.push(row);
-          }
+          next = await iterator.next();
         } catch (error) {
-          console.warn(
-            `Error parsing line ${i + 1}: ${error}. Skipping...`
-          );
-          // Continue processing other lines
+          throw this.toFileParseError(error);
         }
+        if (next.done) {
+          break;
+        }
+        await readLine(next.value);
       }
 
-      console.log(
-        `Successfully parsed ${parsedRows.length} rows from file`
-      );
-      return parsedRows;
+      if (batch.rows.length > 0 || batch.issues.length > 0) {
+        await flush();
+      }
+
+      return this.finishParse(state);
     } catch (error) {
       console.error('Error parsing history forecast file:', error);
       throw error;
+    } finally {
+      await iterator.return?.(undefined);
     }
   }
 
   /**
-   * Parse a single line from the file
-   * @param line - Line content
-   * @param rowIndex - Line number (0-indexed)
-   * @param totalAvailableRooms - Total available rooms for calculations
-   * @returns Parsed row or null if invalid
+   * Read the raw cell values of a file row by row in any supported format
+   * @param source - File content, in memory or streamed
+   * @param filename - Original filename (used for format detection)
+   * @param onBytes - Told how many bytes of the file were read so far
+   * @returns Rows including column 0
    */
-  private parseLine(line: string, rowIndex: number, totalAvailableRooms: number): ParsedRow | null {
-    // Split by tab (skip column 0, so we start from index 1)
-    const allColumns = line.split('\t');
-    
-    // Skip column 0, so columns array starts from index 1
-    const columns = allColumns.slice(1);
-
-    // Validate minimum columns (need at least 30 columns after skipping column 0)
-    if (!this.validateRow(columns)) {
-      return null;
+  private async *streamRawRows(
+    source: FileSource,
+    filename: string,
+    onBytes: (bytes: number) => void
+  ): AsyncGenerator<string[]> {
+    const { head, complete, chunks } = await openFileSource(source);
+    const format = detectFileFormat(head, filename, complete);
+    const counted = countBytes(chunks, onBytes);
+
+    switch (format) {
+      case 'tsv':
+        yield* streamTabSeparated(counted);
+        return;
+      case 'csv':
+        console.log(`Parsing ${filename} as CSV`);
+        yield* streamDelimited(counted);
+        return;
+      case 'xlsx':
+        console.log(`Parsing ${filename} as XLSX (first sheet)`);
+        yield* streamFirstSheet(counted);
+        return;
+      case 'zip':
+        throw new FileParseError(`${filename} is an archive; expand it before parsing`);
+      default:
+        throw new FileParseError(`Unsupported file format: ${filename}`);
+    }
+  }
+
+  /**
+   * Detect the format and header row of a file from its first lines
+   * @param head - First lines of the file, including column 0
+   * @param capacity - Rooms available per stay date, for calculations
+   * @param mapping - Column layout of the hotel
+   * @param maxSkippedLines - Skipped lines to keep for the result
+   * @returns State for parseLine()
+   */
+  private startParse(
+    head: string[][],
+    capacity: RoomCapacity,
+    mapping: ColumnMapping,
+    maxSkippedLines: number
+  ): ParseState {
+    const locale = this.resolveLocale(head, mapping);
+    const headerIndex = findHeaderRow(head);
+
+    return {
+      capacity,
+      mapping,
+      locale,
+      headerIndex,
+      headerRow: headerIndex >= 0 ? head[headerIndex] : null,
+      rowIndex: 0,
+      rowCount: 0,
+      skippedLineCount: 0,
+      skippedLines: [],
+      maxSkippedLines,
+      fingerprint: schemaDriftService.startFingerprint(locale),
+    };
+  }
+
+  /**
+   * Parse one line of a file
+   * @param state - State of the file
+   * @param cells - Raw cell values of the line, including column 0
+   * @param line - 1-based line number
+   * @returns Parsed row (null if blank, a header or skipped) and the issues of the line
+   */
+  private parseLine(
+    state: ParseState,
+    cells: string[],
+    line: number
+  ): { row: ParsedRow | null; issues: ParseIssue[] } {
+    // Skip blank lines, and the header row with any title lines above it
+    if (line - 1 <= state.headerIndex || !cells.some((cell) => cell.trim() !== '')) {
+      return { row: null, issues: [] };
     }
 
+    const excerpt = cells.join('\t').trim().slice(0, EXCERPT_LENGTH);
+    const warnings: LineWarning[] = [];
+    const rowIndex = state.rowIndex++;
+
     try {
-      // Extract all 30 columns as raw strings
-      const col1 = columns[COLUMN_INDICES.DATA_TYPE - 1]?.trim() || '';
-      const col2 = columns[COLUMN_INDICES.STAY_DATE - 1]?.trim() || '';
-      const col3 = columns[COLUMN_INDICES.ROOM_NIGHTS - 1]?.trim() || '0';
-      const col4 = columns[COLUMN_INDICES.COL_A - 1]?.trim() || '';
-      const col5 = columns[COLUMN_INDICES.COL_B - 1]?.trim() || '';
-      const col6 = columns[COLUMN_INDICES.COL_C - 1]?.trim() || '';
-      const col7 = columns[COLUMN_INDICES.COL_D - 1]?.trim() || '';
-      const col8 = columns[COLUMN_INDICES.COL_E - 1]?.trim() || '';
-      const col9 = columns[COLUMN_INDICES.COL_F - 1]?.trim() || '';
-      const col10 = columns[COLUMN_INDICES.ROOM_REVENUE - 1]?.trim() || '0';
-      const col11 = columns[COLUMN_INDICES.COL_G - 1]?.trim() || '';
-      const col12 = columns[COLUMN_INDICES.COL_H - 1]?.trim() || '';
-      const col13 = columns[COLUMN_INDICES.COL_I - 1]?.trim() || '';
-      const col14 = columns[COLUMN_INDICES.COL_J - 1]?.trim() || '';
-      const col15 = columns[COLUMN_INDICES.OO_ROOMS - 1]?.trim() || '0';
-      const col16 = columns[COLUMN_INDICES.COL_K - 1]?.trim() || '';
-      const col17 = columns[COLUMN_INDICES.COL_L - 1]?.trim() || '';
-      const col18 = columns[COLUMN_INDICES.COL_M - 1]?.trim() || '';
-      const col19 = columns[COLUMN_INDICES.COL_N - 1]?.trim() || '';
-      const col20 = columns[COLUMN_INDICES.COL_O - 1]?.trim() || '';
-      const col21 = columns[COLUMN_INDICES.COL_P - 1]?.trim() || '';
-      const col22 = columns[COLUMN_INDICES.COL_Q - 1]?.trim() || '';
-      const col23 = columns[COLUMN_INDICES.COL_R - 1]?.trim() || '';
-      const col24 = columns[COLUMN_INDICES.COL_S - 1]?.trim() || '';
-      const col25 = columns[COLUMN_INDICES.COL_T - 1]?.trim() || '';
-      const col26 = columns[COLUMN_INDICES.COL_U - 1]?.trim() || '';
-      const col27 = columns[COLUMN_INDICES.COL_V - 1]?.trim() || '';
-      const col28 = columns[COLUMN_INDICES.COL_W - 1]?.trim() || '';
-      const col29 = columns[COLUMN_INDICES.COL_X - 1]?.trim() || '';
-      const col30 = columns[COLUMN_INDICES.COL_Y - 1]?.trim() || '';
-
-      // Parse key values for calculations
-      const dataType = parseDataType(col1);
-      const stayDate = parseStayDate(col2);
-      const roomNights = parseNumericValue(col3);
-      const roomRevenue = parseNumericValue(col10);
-      const ooRooms = parseNumericValue(col15);
-
-      // Calculate the 3 metrics
-      const occupancyPercent = calculateOccupancyPercent(roomNights, totalAvailableRooms);
-      const adr = calculateADR(roomRevenue, roomNights);
-      const revPAR = calculateRevPAR(roomRevenue, totalAvailableRooms);
-
-      const parsedRow: ParsedRow = {
-        dataType,
-        stayDate,
-        col1,
-        col2,
-        col3,
-        col4,
-        col5,
-        col6,
-        col7,
-        col8,
-        col9,
-        col10,
-        col11,
-        col12,
-        col13,
-        col14,
-        col15,
-        col16,
-        col17,
-        col18,
-        col19,
-        col20,
-        col21,
-        col22,
-        col23,
-        col24,
-        col25,
-        col26,
-        col27,
-        col28,
-        col29,
-        col30,
-        roomNights,
-        roomRevenue,
-        ooRooms,
-        occupancyPercent,
-        adr,
-        revPAR,
+      const row = this.parseColumns(
+        cells,
         rowIndex,
+        line,
+        state.capacity,
+        state.mapping,
+        state.locale,
+        warnings
+      );
+      schemaDriftService.addLine(state.fingerprint, cells);
+      state.rowCount++;
+      return {
+        row,
+        issues: warnings.map((warning) => ({
+          ...warning,
+          line,
+          severity: 'WARNING' as const,
+          excerpt,
+        })),
       };
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      console.warn(
+        `Error parsing line ${line}: ${reason}. Skipping...`
+      );
+      state.skippedLineCount++;
+      if (state.skippedLines.length < state.maxSkippedLines) {
+        state.skippedLines.push({ line, reason });
+      }
+      return {
+        row: null,
+        issues: [
+          {
+            line,
+            severity: 'ERROR',
+            rule: error instanceof LineParseError ? error.rule : 'PARSE_ERROR',
+            excerpt,
+            message: reason,
+          },
+        ],
+      };
+    }
+  }
 
-      return parsedRow;
+  /**
+   * Result of a file once all lines were parsed
+   */
+  private finishParse(state: ParseState): StreamParseResult {
+    console.log(
+      `Successfully parsed ${state.rowCount} rows from file` +
+        (state.skippedLineCount > 0 ? ` (${state.skippedLineCount} lines skipped)` : '')
+    );
+    return {
+      rowCount: state.rowCount,
+      skippedLineCount: state.skippedLineCount,
+      skippedLines: state.skippedLines,
+      locale: state.locale,
+      headerLine: state.headerIndex >= 0 ? state.headerIndex + 1 : null,
+      fingerprint: schemaDriftService.finishFingerprint(state.fingerprint, state.headerRow),
+    };
+  }
+
+  /**
+   * Errors reading the file as a whole are not worth retrying
+   */
+  private toFileParseError(error: unknown): FileParseError {
+    return error instanceof FileParseError
+      ? error
+      : new FileParseError(error instanceof Error ? error.message : String(error));
+  }
+
+  /**
+   * Date and number format of a file; AUTO settings are detected from a sample of lines
+   * @param rows - Rows including column 0
+   * @param mapping - Column layout of the hotel
+   * @returns Formats to read the file with (throws if the sample is ambiguous)
+   */
+  private resolveLocale(rows: string[][], mapping: ColumnMapping): ParseLocale {
+    const autoDate = mapping.dateFormat === AUTO_DATE_FORMAT;
+    const autoDecimal = mapping.decimalSeparator === 'AUTO';
+    if (!autoDate && mapping.decimalSeparator !== 'AUTO') {
+      return {
+        dateFormat: mapping.dateFormat,
+        decimalSeparator: mapping.decimalSeparator,
+        detected: false,
+      };
+    }
+
+    const sample = rows
+      .map((row) => (mapping.skipLeadingColumn ? row.slice(1) : row))
+      .filter((columns) => columns.length >= mapping.minColumnCount)
+      .slice(0, LOCALE_SAMPLE_LINES);
+
+    let dateFormat = mapping.dateFormat;
+    if (autoDate) {
+      const detection = detectStayDateFormat(
+        sample.map((columns) => this.getCell(columns, mapping.stayDateColumn)),
+        DEFAULT_STAY_DATE_FORMAT
+      );
+      if ('ambiguous' in detection) {
+        throw new FileParseError(
+          `Stay dates can be read as ${detection.ambiguous.join(' or ')}; set the date format of the column mapping profile`
+        );
+      }
+      dateFormat = detection.value;
+    }
+
+    let decimalSeparator = mapping.decimalSeparator;
+    if (decimalSeparator === 'AUTO') {
+      const numericColumns = [
+        mapping.roomNightsColumn,
+        mapping.roomRevenueColumn,
+        mapping.ooRoomsColumn,
+        ...(mapping.fields ?? [])
+          .filter((field) => field.valueType !== 'TEXT')
+          .map((field) => field.column),
+      ];
+      const detection = detectDecimalSeparator(
+        sample.flatMap((columns) => numericColumns.map((column) => this.getCell(columns, column)))
+      );
+      if ('ambiguous' in detection) {
+        throw new FileParseError(
+          'Numbers such as "1,234" or "1.234" can be read with either decimal separator; set the decimal separator of the column mapping profile'
+        );
+      }
+      decimalSeparator = detection.value;
+    }
+
+    console.log(`Reading stay dates as ${dateFormat}, decimal separator ${decimalSeparator}`);
+    return { dateFormat, decimalSeparator, detected: autoDate || autoDecimal };
+  }
+
+  /**
+   * Parse a single row from the file
+   * @param allColumns - Cell values including column 0
+   * @param rowIndex - Row number among the non-blank lines (0-indexed)
+   * @param line - 1-based line number
+   * @param capacity - Rooms available per stay date, for calculations
+   * @param mapping - Column layout of the hotel
+   * @param locale - Date and number format of the file
+   * @param warnings - Collects problems that do not prevent importing the row
+   * @returns Parsed row (throws LineParseError if invalid)
+   */
+  private parseColumns(
+    allColumns: string[],
+    rowIndex: number,
+    line: number,
+    capacity: RoomCapacity,
+    mapping: ColumnMapping,
+    locale: ParseLocale,
+    warnings: LineWarning[] = []
+  ): ParsedRow {
+    // Skip column 0 if the layout has one, so columns array starts from index 1
+    const columns = mapping.skipLeadingColumn ? allColumns.slice(1) : allColumns;
+
+    if (columns.length < mapping.minColumnCount) {
+      throw new LineParseError(
+        'MIN_COLUMNS',
+        `Expected ${mapping.minColumnCount} columns (found ${columns.length} columns)`
+      );
+    }
+    if (!this.validateRow(columns, mapping)) {
+      throw new LineParseError(
+        'MISSING_KEY_VALUE',
+        'Data type, stay date and room nights are required'
+      );
+    }
+
+    // Extract all 30 columns as raw strings (in file order)
+    const col1 = columns[COLUMN_INDICES.DATA_TYPE - 1]?.trim() || '';
+    const col2 = columns[COLUMN_INDICES.STAY_DATE - 1]?.trim() || '';
+    const col3 = columns[COLUMN_INDICES.ROOM_NIGHTS - 1]?.trim() || '0';
+    const col4 = columns[COLUMN_INDICES.COL_A - 1]?.trim() || '';
+    const col5 = columns[COLUMN_INDICES.COL_B - 1]?.trim() || '';
+    const col6 = columns[COLUMN_INDICES.COL_C - 1]?.trim() || '';
+    const col7 = columns[COLUMN_INDICES.COL_D - 1]?.trim() || '';
+    const col8 = columns[COLUMN_INDICES.COL_E - 1]?.trim() || '';
+    const col9 = columns[COLUMN_INDICES.COL_F - 1]?.trim() || '';
+    const col10 = columns[COLUMN_INDICES.ROOM_REVENUE - 1]?.trim() || '0';
+    const col11 = columns[COLUMN_INDICES.COL_G - 1]?.trim() || '';
+    const col12 = columns[COLUMN_INDICES.COL_H - 1]?.trim() || '';
+    const col13 = columns[COLUMN_INDICES.COL_I - 1]?.trim() || '';
+    const col14 = columns[COLUMN_INDICES.COL_J - 1]?.trim() || '';
+    const col15 = columns[COLUMN_INDICES.OO_ROOMS - 1]?.trim() || '0';
+    const col16 = columns[COLUMN_INDICES.COL_K - 1]?.trim() || '';
+    const col17 = columns[COLUMN_INDICES.COL_L - 1]?.trim() || '';
+    const col18 = columns[COLUMN_INDICES.COL_M - 1]?.trim() || '';
+    const col19 = columns[COLUMN_INDICES.COL_N - 1]?.trim() || '';
+    const col20 = columns[COLUMN_INDICES.COL_O - 1]?.trim() || '';
+    const col21 = columns[COLUMN_INDICES.COL_P - 1]?.trim() || '';
+    const col22 = columns[COLUMN_INDICES.COL_Q - 1]?.trim() || '';
+    const col23 = columns[COLUMN_INDICES.COL_R - 1]?.trim() || '';
+    const col24 = columns[COLUMN_INDICES.COL_S - 1]?.trim() || '';
+    const col25 = columns[COLUMN_INDICES.COL_T - 1]?.trim() || '';
+    const col26 = columns[COLUMN_INDICES.COL_U - 1]?.trim() || '';
+    const col27 = columns[COLUMN_INDICES.COL_V - 1]?.trim() || '';
+    const col28 = columns[COLUMN_INDICES.COL_W - 1]?.trim() || '';
+    const col29 = columns[COLUMN_INDICES.COL_X - 1]?.trim() || '';
+    const col30 = columns[COLUMN_INDICES.COL_Y - 1]?.trim() || '';
+
+    // Parse key values for calculations from the columns of the hotel's layout
+    const rawDataType = this.getCell(columns, mapping.dataTypeColumn);
+    if (!/^(history|forecast)$/i.test(rawDataType)) {
+      warnings.push({
+        rule: 'UNKNOWN_DATA_TYPE',
+        message: `Data type "${rawDataType}" is neither History nor Forecast; read as Forecast`,
+      });
+    }
+    const dataType = parseDataType(rawDataType);
+
+    let stayDate: Date;
+    try {
+      stayDate = parseStayDate(this.getCell(columns, mapping.stayDateColumn), locale.dateFormat);
     } catch (error) {
-      console.warn(`Error parsing row ${rowIndex}: ${error}`);
-      return null;
+      throw new LineParseError(
+        'INVALID_STAY_DATE',
+        error instanceof Error ? error.message : String(error)
+      );
     }
+
+    const roomNights = this.readNumber(columns, mapping.roomNightsColumn, 'Room nights', locale, warnings);
+    const roomRevenue = this.readNumber(columns, mapping.roomRevenueColumn, 'Room revenue', locale, warnings);
+    const ooRooms = this.readNumber(columns, mapping.ooRoomsColumn, 'Out of order rooms', locale, warnings);
+
+    // Calculate the 3 metrics against the rooms available on the stay date
+    const rooms = capacity(stayDate);
+    const occupancyPercent = calculateOccupancyPercent(roomNights, rooms);
+    const adr = calculateADR(roomRevenue, roomNights);
+    const revPAR = calculateRevPAR(roomRevenue, rooms);
+
+    // Typed values of the field dictionary
+    const fields: NamedFields = {};
+    for (const field of mapping.fields ?? []) {
+      const value = this.getCell(columns, field.column);
+      if (
+        field.valueType !== 'TEXT' &&
+        value !== '' &&
+        !isNumericValue(value, locale.decimalSeparator)
+      ) {
+        warnings.push({
+          rule: 'NON_NUMERIC_VALUE',
+          message: `${field.label} "${value}" in column ${field.column} is not a number; read as 0`,
+        });
+      }
+      fields[field.key] = this.parseFieldValue(value, field, locale);
+    }
+
+    const parsedRow: ParsedRow = {
+      dataType,
+      stayDate,
+      col1,
+      col2,
+      col3,
+      col4,
+      col5,
+      col6,
+      col7,
+      col8,
+      col9,
+      col10,
+      col11,
+      col12,
+      col13,
+      col14,
+      col15,
+      col16,
+      col17,
+      col18,
+      col19,
+      col20,
+      col21,
+      col22,
+      col23,
+      col24,
+      col25,
+      col26,
+      col27,
+      col28,
+      col29,
+      col30,
+      roomNights,
+      roomRevenue,
+      ooRooms,
+      occupancyPercent,
+      adr,
+      revPAR,
+      fields,
+      rowIndex,
+      line,
+    };
+
+    return parsedRow;
   }
 
   /**
    * Validate if a row has minimum required columns
-   * @param columns - Array of column values (after skipping column 0)
+   * @param columns - Array of column values (after skipping column 0, if configured)
+   * @param mapping - Column layout of the hotel
    * @returns True if valid, false otherwise
    */
-  private validateRow(columns: string[]): boolean {
-    // Check minimum column count (need at least 30 columns after skipping column 0)
-    if (columns.length < 30) {
+  private validateRow(columns: string[], mapping: ColumnMapping): boolean {
+    // Check minimum column count of the layout
+    if (columns.length < mapping.minColumnCount) {
       return false;
     }
 
     // Check if essential fields are not empty
-    const hasDataType =
-      columns[COLUMN_INDICES.DATA_TYPE - 1]?.trim() !== '';
-    const hasStayDate =
-      columns[COLUMN_INDICES.STAY_DATE - 1]?.trim() !== '';
-    const hasRoomNights =
-      columns[COLUMN_INDICES.ROOM_NIGHTS - 1]?.trim() !== '';
+    const hasDataType = this.getCell(columns, mapping.dataTypeColumn) !== '';
+    const hasStayDate = this.getCell(columns, mapping.stayDateColumn) !== '';
+    const hasRoomNights = this.getCell(columns, mapping.roomNightsColumn) !== '';
 
     return hasDataType && hasStayDate && hasRoomNights;
   }
 
   /**
-   * Extract snapshot time from filename
-   * Example: "history_forecast99383127.txt" -> parse the number as timestamp
-   * If not parseable, return current time
-   * @param filename - Original filename
-   * @returns Date object
+   * Parse a numeric key value, warning when it is not a number (read as 0)
    */
-  extractSnapshotTime(filename: string): Date {
-    try {
-      // Try to extract timestamp from filename
-      // Pattern: history_forecast[TIMESTAMP].txt
-      const match = filename.match(/history_forecast(\d+)/i);
-      if (match && match[1]) {
-        const timestamp = parseInt(match[1], 10);
-        // Check if it's a valid timestamp (Unix timestamp in seconds or milliseconds)
-        if (timestamp > 1000000000 && timestamp < 9999999999) {
-          // Likely seconds
-          return new Date(timestamp * 1000);
-        } else if (timestamp > 1000000000000) {
-          // Likely milliseconds
-          return new Date(timestamp);
-        }
-      }
+  private readNumber(
+    columns: string[],
+    column: number,
+    name: string,
+    locale: ParseLocale,
+    warnings: LineWarning[]
+  ): number {
+    const value = this.getCell(columns, column);
+    if (value !== '' && !isNumericValue(value, locale.decimalSeparator)) {
+      warnings.push({
+        rule: 'NON_NUMERIC_VALUE',
+        message: `${name} "${value}" in column ${column} is not a number; read as 0`,
+      });
+    }
+    return parseNumericValue(value, locale.decimalSeparator);
+  }
 
-      // If can't parse, return current time
-      return new Date();
-    } catch (error) {
-      console.warn(
-        `Could not extract snapshot time from filename: ${filename}`
-      );
-      return new Date();
+  /**
+   * Convert a cell to the type of its field (null if empty)
+   */
+  private parseFieldValue(
+    value: string,
+    field: FieldDefinition,
+    locale: ParseLocale
+  ): number | string | null {
+    if (value === '') {
+      return null;
+    }
+
+    switch (field.valueType) {
+      case 'NUMBER':
+        return parseNumericValue(value, locale.decimalSeparator);
+      case 'INTEGER':
+        return Math.round(parseNumericValue(value, locale.decimalSeparator));
+      default:
+        return value;
     }
   }
+
+  /**
+   * Trimmed value of a 1-based column ('' if the line is shorter)
+   */
+  private getCell(columns: string[], column: number): string {
+    return columns[column - 1]?.trim() || '';
+  }
 }
 
 // Export singleton instance
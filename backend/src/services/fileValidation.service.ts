@@ -0,0 +1,285 @@
+import { formatDateToYYYYMMDD } from '../config/columnMapping.js';
+import type { Hotel } from '@prisma/client';
+import type {
+  FileValidationViolation,
+  ParsedRow,
+  ParseIssue,
+  RoomCapacity,
+  ValidationPolicy,
+} from '../types/fileProcessor.types.js';
+
+// Used for rules a hotel did not configure; a hotel allowing duplicates gets the first
+// line of each stay date saved and the repeats skipped
+export const DEFAULT_VALIDATION_POLICY: ValidationPolicy = {
+  maxSkippedLineShare: null,
+  rejectDuplicateStayDates: true,
+  requireContiguousStayDates: false,
+  maxBoundaryDays: null,
+  maxCapacityOverrunPercent: null,
+};
+
+// Stay dates quoted in a violation message; the rest are counted
+const MAX_LISTED_DATES = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Snapshot facts the rules are checked against
+ */
+interface ValidationContext {
+  snapshotTime: Date;
+  capacity: RoomCapacity;
+}
+
+/**
+ * Stay dates found by a rule: the first ones for the message, and how many there are
+ */
+interface DateList {
+  first: Date[];
+  count: number;
+}
+
+/**
+ * Running state of the rules while the rows of a file go by
+ * Memory grows with the distinct stay dates, not with the rows
+ */
+export interface ValidationTally {
+  context: ValidationContext;
+  policy: ValidationPolicy;
+  rowCount: number;
+  seen: Set<string>; // Day and data type of every row
+  days: Set<number>;
+  duplicates: DateList;
+  overruns: DateList;
+  lastHistoryDay: number | null;
+  firstForecastDay: number | null;
+}
+
+class FileValidationService {
+  /**
+   * Validation policy of a hotel
+   * @param hotel - Hotel
+   * @returns Configured rules merged over the defaults
+   */
+  getPolicy(hotel: Hotel): ValidationPolicy {
+    const configured =
+      hotel.validationPolicy && typeof hotel.validationPolicy === 'object'
+        ? (hotel.validationPolicy as Partial<ValidationPolicy>)
+        : {};
+
+    return { ...DEFAULT_VALIDATION_POLICY, ...configured };
+  }
+
+  /**
+   * Start checking a file whose rows are read in batches
+   * @param context - Snapshot time and rooms per stay date
+   * @param policy - Rules of the hotel
+   * @returns Empty tally for addRow()
+   */
+  startValidation(context: ValidationContext, policy: ValidationPolicy): ValidationTally {
+    return {
+      context,
+      policy,
+      rowCount: 0,
+      seen: new Set(),
+      days: new Set(),
+      duplicates: { first: [], count: 0 },
+      overruns: { first: [], count: 0 },
+      lastHistoryDay: null,
+      firstForecastDay: null,
+    };
+  }
+
+  /**
+   * Count a parsed row
+   * A row repeating the stay date and data type of an earlier row cannot be saved next
+   * to it; it is counted for the DUPLICATE_STAY_DATE rule and reported as skipped
+   * @param tally - Tally of the file
+   * @param row - Parsed row
+   * @returns Issue of a repeated row (leave it out), or null
+   */
+  addRow(tally: ValidationTally, row: ParsedRow): ParseIssue | null {
+    const { context, policy } = tally;
+    const day = this.dayNumber(row.stayDate);
+    tally.rowCount++;
+
+    const key = `${day}/${row.dataType}`;
+    if (tally.seen.has(key)) {
+      this.addDate(tally.duplicates, row.stayDate);
+      const stayDate = formatDateToYYYYMMDD(row.stayDate);
+      return {
+        line: row.line,
+        severity: 'ERROR',
+        rule: 'DUPLICATE_STAY_DATE',
+        excerpt: `${row.dataType}\t${stayDate}`,
+        message: `${row.dataType} stay date ${stayDate} is listed on an earlier line; line skipped`,
+      };
+    }
+    tally.seen.add(key);
+    tally.days.add(day);
+
+    if (row.dataType === 'HISTORY') {
+      tally.lastHistoryDay = Math.max(tally.lastHistoryDay ?? day, day);
+    } else {
+      tally.firstForecastDay = Math.min(tally.firstForecastDay ?? day, day);
+    }
+
+    if (policy.maxCapacityOverrunPercent !== null) {
+      const rooms = context.capacity(row.stayDate);
+      if (rooms > 0 && row.roomNights > rooms * (1 + policy.maxCapacityOverrunPercent / 100)) {
+        this.addDate(tally.overruns, row.stayDate);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Rules broken by the rows counted so far
+   * @param tally - Tally of the file
+   * @param skipped - Number of lines the parser skipped
+   * @returns Broken rules (empty if the file may be saved)
+   */
+  finishValidation(tally: ValidationTally, skipped: number): FileValidationViolation[] {
+    const { context, policy } = tally;
+    const violations: FileValidationViolation[] = [];
+
+    const total = tally.rowCount + skipped;
+    if (
+      policy.maxSkippedLineShare !== null &&
+      total > 0 &&
+      skipped / total > policy.maxSkippedLineShare
+    ) {
+      violations.push({
+        rule: 'SKIPPED_LINE_SHARE',
+        message: `${skipped} of ${total} lines (${this.percent(skipped / total)}) were skipped; at most ${this.percent(policy.maxSkippedLineShare)} allowed`,
+      });
+    }
+
+    if (policy.rejectDuplicateStayDates && tally.duplicates.count > 0) {
+      violations.push({
+        rule: 'DUPLICATE_STAY_DATE',
+        message: `Stay dates listed twice for the same data type: ${this.listDates(tally.duplicates)}`,
+      });
+    }
+
+    if (policy.requireContiguousStayDates && tally.days.size > 0) {
+      const days = [...tally.days].sort((a, b) => a - b);
+      const missing: DateList = { first: [], count: 0 };
+      for (let i = 1; i < days.length; i++) {
+        for (let day = days[i - 1] + 1; day < days[i]; day++) {
+          this.addDate(missing, this.fromDayNumber(day));
+        }
+      }
+      if (missing.count > 0) {
+        violations.push({
+          rule: 'STAY_DATE_GAP',
+          message: `Stay dates missing between the first and last date: ${this.listDates(missing)}`,
+        });
+      }
+    }
+
+    if (policy.maxBoundaryDays !== null) {
+      const snapshotDay = this.dayNumber(context.snapshotTime);
+      const boundaries: [string, number | null][] = [
+        ['Last HISTORY', tally.lastHistoryDay],
+        ['First FORECAST', tally.firstForecastDay],
+      ];
+      for (const [label, boundary] of boundaries) {
+        if (boundary !== null && Math.abs(boundary - snapshotDay) > policy.maxBoundaryDays) {
+          violations.push({
+            rule: 'DATA_TYPE_BOUNDARY',
+            message: `${label} stay date ${formatDateToYYYYMMDD(this.fromDayNumber(boundary))} is more than ${policy.maxBoundaryDays} days from the snapshot date ${formatDateToYYYYMMDD(context.snapshotTime)}`,
+          });
+        }
+      }
+    }
+
+    if (tally.overruns.count > 0) {
+      violations.push({
+        rule: 'CAPACITY_OVERRUN',
+        message: `Room nights exceed the rooms available by more than ${policy.maxCapacityOverrunPercent}% on ${this.listDates(tally.overruns)}`,
+      });
+    }
+
+    return violations;
+  }
+
+  /**
+   * Check policy fields before saving
+   * @param input - Policy fields from the request body
+   * @returns Error message or null if valid
+   */
+  validatePolicy(input: Record<string, unknown>): string | null {
+    for (const field of Object.keys(input)) {
+      if (!(field in DEFAULT_VALIDATION_POLICY)) {
+        return `Unknown rule ${field}`;
+      }
+    }
+
+    const { maxSkippedLineShare, maxBoundaryDays, maxCapacityOverrunPercent } = input;
+    if (
+      maxSkippedLineShare !== undefined &&
+      maxSkippedLineShare !== null &&
+      (typeof maxSkippedLineShare !== 'number' || maxSkippedLineShare < 0 || maxSkippedLineShare > 1)
+    ) {
+      return 'maxSkippedLineShare must be a share between 0 and 1, or null';
+    }
+    if (
+      maxBoundaryDays !== undefined &&
+      maxBoundaryDays !== null &&
+      (!Number.isInteger(maxBoundaryDays) || (maxBoundaryDays as number) < 0)
+    ) {
+      return 'maxBoundaryDays must be a whole number of days, or null';
+    }
+    if (
+      maxCapacityOverrunPercent !== undefined &&
+      maxCapacityOverrunPercent !== null &&
+      (typeof maxCapacityOverrunPercent !== 'number' || maxCapacityOverrunPercent < 0)
+    ) {
+      return 'maxCapacityOverrunPercent must be a positive number, or null';
+    }
+    for (const field of ['rejectDuplicateStayDates', 'requireContiguousStayDates']) {
+      if (input[field] !== undefined && typeof input[field] !== 'boolean') {
+        return `${field} must be a boolean`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Days since the epoch of the calendar date (stay dates are local dates)
+   */
+  private dayNumber(date: Date): number {
+    return Math.round(
+      Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / DAY_MS
+    );
+  }
+
+  private fromDayNumber(day: number): Date {
+    const utc = new Date(day * DAY_MS);
+    return new Date(utc.getUTCFullYear(), utc.getUTCMonth(), utc.getUTCDate());
+  }
+
+  private addDate(dates: DateList, date: Date): void {
+    if (dates.first.length < MAX_LISTED_DATES) {
+      dates.first.push(date);
+    }
+    dates.count++;
+  }
+
+  private listDates(dates: DateList): string {
+    const listed = dates.first.map(formatDateToYYYYMMDD).join(', ');
+    return dates.count > MAX_LISTED_DATES
+      ? `${listed} and ${dates.count - MAX_LISTED_DATES} more`
+      : listed;
+  }
+
+  private percent(share: number): string {
+    return `${Math.round(share * 100)}%`;
+  }
+}
+
+// Export singleton instance
+export const fileValidationService = new FileValidationService();
+export default fileValidationService;
@@ -0,0 +1,217 @@
+import crypto from 'crypto';
+import { prisma } from '../utils/prisma.js';
+import { config } from '../config/index.js';
+import { emailService } from './email.service.js';
+import type { Mailbox, MailboxSubscription } from '@prisma/client';
+import type { GraphNotification } from '../types/ingestion.types.js';
+
+// Subscriptions on Outlook messages last at most 4230 minutes
+const SUBSCRIPTION_LIFETIME_MINUTES = 4200;
+
+// Renew subscriptions with less than this left
+const RENEW_BEFORE_MINUTES = 12 * 60;
+
+// IDs of local subscriptions registered by scripts/graphNotificationStub.ts; Graph never notifies them
+export const STUB_SUBSCRIPTION_PREFIX = 'stub-';
+
+class GraphSubscriptionService {
+  /**
+   * Whether change notifications are configured (GRAPH_NOTIFICATION_URL)
+   */
+  isEnabled(): boolean {
+    return config.graph.notificationUrl !== '';
+  }
+
+  /**
+   * Create, renew or remove subscriptions so every enabled, connected mailbox
+   * has a live one; errors are logged per mailbox and retried next call
+   */
+  async ensureSubscriptions(): Promise<void> {
+    if (!this.isEnabled()) {
+      return;
+    }
+
+    const mailboxes = await prisma.mailbox.findMany({
+      include: { subscription: true },
+    });
+    const renewBefore = new Date(Date.now() + RENEW_BEFORE_MINUTES * 60 * 1000);
+
+    for (const { subscription, ...mailbox } of mailboxes) {
+      try {
+        if (!mailbox.isEnabled || !mailbox.credentialId) {
+          if (subscription) {
+            await this.removeSubscription(mailbox, subscription);
+          }
+        } else if (
+          !subscription ||
+          subscription.id.startsWith(STUB_SUBSCRIPTION_PREFIX) ||
+          subscription.expiresAt <= new Date() ||
+          subscription.notificationUrl !== config.graph.notificationUrl
+        ) {
+          await this.createSubscription(mailbox, subscription);
+        } else if (subscription.expiresAt <= renewBefore) {
+          await this.renewSubscription(mailbox, subscription);
+        }
+      } catch (error) {
+        console.error(`✗ Error managing subscription of ${mailbox.address}:`, error);
+      }
+    }
+  }
+
+  /**
+   * IDs of mailboxes with a live subscription (polled by the fallback sweep only)
+   * Stub subscriptions do not count: nothing but the stub script notifies them
+   */
+  async getSubscribedMailboxIds(): Promise<Set<string>> {
+    try {
+      const subscriptions = await prisma.mailboxSubscription.findMany({
+        where: {
+          expiresAt: { gt: new Date() },
+          NOT: { id: { startsWith: STUB_SUBSCRIPTION_PREFIX } },
+        },
+        select: { mailboxId: true },
+      });
+
+      return new Set(subscriptions.map((subscription) => subscription.mailboxId));
+    } catch (error) {
+      console.error('Error fetching mailbox subscriptions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check notifications against the stored subscriptions and handle lifecycle events
+   * Notifications with an unknown subscription or wrong client state are ignored
+   * @param notifications - Payload `value` posted by Graph
+   * @returns IDs of the mailboxes to poll
+   */
+  async handleNotifications(notifications: GraphNotification[]): Promise<string[]> {
+    const mailboxIds = new Set<string>();
+
+    for (const notification of notifications) {
+      const subscription = await prisma.mailboxSubscription.findUnique({
+        where: { id: notification.subscriptionId },
+        include: { mailbox: true },
+      });
+
+      if (
+        !subscription ||
+        !notification.clientState ||
+        !this.isSameSecret(subscription.clientState, notification.clientState)
+      ) {
+        console.warn(
+          `⚠ Ignoring notification for unknown subscription ${notification.subscriptionId}`
+        );
+        continue;
+      }
+
+      const { mailbox } = subscription;
+      try {
+        if (notification.lifecycleEvent === 'reauthorizationRequired') {
+          await this.renewSubscription(mailbox, subscription);
+        } else if (notification.lifecycleEvent === 'subscriptionRemoved') {
+          await this.createSubscription(mailbox, subscription);
+        }
+      } catch (error) {
+        console.error(`✗ Error handling ${notification.lifecycleEvent} for ${mailbox.address}:`, error);
+      }
+
+      // New messages and missed notifications are both picked up by a delta sync
+      mailboxIds.add(mailbox.id);
+    }
+
+    return [...mailboxIds];
+  }
+
+  /**
+   * Replace the subscription of a mailbox by a new one
+   */
+  private async createSubscription(
+    mailbox: Mailbox,
+    existing: MailboxSubscription | null
+  ): Promise<void> {
+    if (existing) {
+      await this.removeSubscription(mailbox, existing);
+    }
+
+    const clientState = crypto.randomBytes(32).toString('hex');
+    const expiresAt = this.getExpiry();
+    const id = await emailService.createSubscription(
+      mailbox,
+      config.graph.notificationUrl,
+      clientState,
+      expiresAt
+    );
+
+    await prisma.mailboxSubscription.create({
+      data: {
+        id,
+        mailboxId: mailbox.id,
+        clientState,
+        notificationUrl: config.graph.notificationUrl,
+        expiresAt,
+      },
+    });
+  }
+
+  /**
+   * Extend a subscription; one Graph no longer knows is created again
+   */
+  private async renewSubscription(
+    mailbox: Mailbox,
+    subscription: MailboxSubscription
+  ): Promise<void> {
+    const expiresAt = this.getExpiry();
+
+    try {
+      await emailService.renewSubscription(mailbox, subscription.id, expiresAt);
+    } catch (error) {
+      if ((error as { statusCode?: number }).statusCode === 404) {
+        await this.createSubscription(mailbox, subscription);
+        return;
+      }
+      throw error;
+    }
+
+    await prisma.mailboxSubscription.update({
+      where: { id: subscription.id },
+      data: { expiresAt },
+    });
+  }
+
+  /**
+   * Delete a subscription at Graph (best effort; it expires anyway) and locally
+   */
+  private async removeSubscription(
+    mailbox: Mailbox,
+    subscription: MailboxSubscription
+  ): Promise<void> {
+    try {
+      await emailService.deleteSubscription(mailbox, subscription.id);
+    } catch {
+      console.warn(`⚠ Could not delete subscription ${subscription.id} at Graph`);
+    }
+
+    await prisma.mailboxSubscription.deleteMany({ where: { id: subscription.id } });
+  }
+
+  private getExpiry(): Date {
+    return new Date(Date.now() + SUBSCRIPTION_LIFETIME_MINUTES * 60 * 1000);
+  }
+
+  /**
+   * Compare secrets in constant time
+   */
+  private isSameSecret(expected: string, actual: string): boolean {
+    const expectedBytes = Buffer.from(expected);
+    const actualBytes = Buffer.from(actual);
+    return (
+      expectedBytes.length === actualBytes.length &&
+      crypto.timingSafeEqual(expectedBytes, actualBytes)
+    );
+  }
+}
+
+// Export singleton instance
+export const graphSubscriptionService = new GraphSubscriptionService();
+export default graphSubscriptionService;
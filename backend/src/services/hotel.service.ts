@@ -1,5 +1,11 @@
 import { prisma } from '../utils/prisma.js';
+import { senderRuleService } from './senderRule.service.js';
 import type { Hotel } from '@prisma/client';
+import pkg from '@prisma/client';
+import type { HotelHint } from '../types/ingestion.types.js';
+import type { SnapshotTimeStrategy, ValidationPolicy } from '../types/fileProcessor.types.js';
+
+const { Prisma } = pkg;
 
 class HotelService {
   /**
@@ -25,6 +31,37 @@ class HotelService {
     }
   }
 
+  /**
+   * Resolve the hotel an ingested item belongs to
+   * Order: explicit hotel ID → sender routing rules → hotel email
+   * @param hint - Hotel hint provided by the ingestion source
+   * @param filename - Attachment filename (matched by routing rules)
+   * @param hotelIds - Hotel scope of the mailbox; other hotels are never returned
+   * @returns Hotel object or null
+   */
+  async resolveHotel(
+    hint: HotelHint,
+    filename: string,
+    hotelIds?: string[]
+  ): Promise<Hotel | null> {
+    let hotel: Hotel | null = null;
+
+    if (hint.hotelId) {
+      hotel = await this.getHotelById(hint.hotelId);
+    } else {
+      hotel =
+        (await senderRuleService.findHotel(hint, filename, hotelIds)) ??
+        (hint.senderEmail ? await this.getHotelByEmail(hint.senderEmail) : null);
+    }
+
+    if (hotel && hotelIds && !hotelIds.includes(hotel.id)) {
+      console.warn(`Hotel ${hotel.name} is outside the hotel scope of the mailbox`);
+      return null;
+    }
+
+    return hotel;
+  }
+
   /**
    * Get hotel by ID
    * @param id - Hotel ID
@@ -77,14 +114,30 @@ class HotelService {
    */
   async updateHotel(
     id: string,
-    data: { name?: string; email?: string; isActive?: boolean; totalAvailableRooms?: number }
+    data: {
+      name?: string;
+      email?: string;
+      isActive?: boolean;
+      totalAvailableRooms?: number;
+      receiptsEnabled?: boolean;
+      receiptSubjectTemplate?: string | null;
+      receiptBodyTemplate?: string | null;
+      snapshotTimeStrategies?: SnapshotTimeStrategy[] | null;
+      validationPolicy?: ValidationPolicy | null;
+      columnMappingProfileId?: string | null;
+    }
   ): Promise<Hotel> {
     try {
+      const { snapshotTimeStrategies, validationPolicy, ...fields } = data;
       const hotel = await prisma.hotel.update({
         where: { id },
         data: {
-          ...data,
+          ...fields,
           email: data.email ? data.email.toLowerCase() : undefined,
+          snapshotTimeStrategies:
+            snapshotTimeStrategies === null ? Prisma.DbNull : snapshotTimeStrategies,
+          validationPolicy:
+            validationPolicy === null ? Prisma.DbNull : validationPolicy && { ...validationPolicy },
         },
       });
 
@@ -0,0 +1,210 @@
+import { prisma } from '../utils/prisma.js';
+import type { IngestionRun, IngestionItem, Prisma } from '@prisma/client';
+import type {
+  IngestionRunFilters,
+  ItemResult,
+  ProcessingSummary,
+  SourceItem,
+} from '../types/ingestion.types.js';
+
+class IngestionRunService {
+  /**
+   * Create a run record when the ingestion job starts
+   * @param sources - Names of the sources polled in this run
+   * @returns Created run
+   */
+  async startRun(sources: string[]): Promise<IngestionRun> {
+    try {
+      return await prisma.ingestionRun.create({
+        data: { sources, status: 'RUNNING' },
+      });
+    } catch (error) {
+      console.error('Error creating ingestion run:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record the outcome of a single item
+   * Failures are logged only; history must never break ingestion itself
+   * @param runId - Ingestion run ID
+   * @param item - Item from the source
+   * @param result - Pipeline result
+   */
+  async recordItem(
+    runId: string,
+    item: SourceItem,
+    result: ItemResult
+  ): Promise<void> {
+    try {
+      await prisma.ingestionItem.create({
+        data: {
+          runId,
+          source: item.source,
+          externalId: item.externalId,
+          filename: item.filename,
+          sender: item.hotelHint.senderEmail?.toLowerCase(),
+          subject: item.hotelHint.subject,
+          receivedAt: item.receivedAt,
+          hotelId: result.hotelId,
+          snapshotId: result.snapshotId,
+          outcome: result.outcome,
+          rowCount: result.rowCount,
+          error: result.error,
+        },
+      });
+    } catch (error) {
+      console.error('Error recording ingestion item:', error);
+    }
+  }
+
+  /**
+   * Store the final outcome of a queued item and update the run totals
+   * Failures are logged only, like recordItem()
+   * @param itemId - Ingestion item ID
+   * @param result - Pipeline result
+   */
+  async completeItem(itemId: string, result: ItemResult): Promise<void> {
+    try {
+      await prisma.$transaction(await this.buildItemCompletion(itemId, result));
+    } catch (error) {
+      console.error('Error completing ingestion item:', error);
+    }
+  }
+
+  /**
+   * Writes that store the final outcome of a queued item and update the run totals,
+   * for a transaction together with the queue row (see attachmentQueueService.markCompleted())
+   * @param itemId - Ingestion item ID
+   * @param result - Pipeline result
+   * @returns Unsent writes
+   */
+  async buildItemCompletion(
+    itemId: string,
+    result: ItemResult
+  ): Promise<Prisma.PrismaPromise<unknown>[]> {
+    const { runId } = await prisma.ingestionItem.findUniqueOrThrow({
+      where: { id: itemId },
+      select: { runId: true },
+    });
+
+    return [
+      prisma.ingestionItem.update({
+        where: { id: itemId },
+        data: {
+          outcome: result.outcome,
+          hotelId: result.hotelId,
+          snapshotId: result.snapshotId,
+          rowCount: result.rowCount,
+          error: result.error ?? null,
+        },
+      }),
+      prisma.ingestionRun.update({
+        where: { id: runId },
+        data:
+          result.outcome === 'PROCESSED'
+            ? { processedItems: { increment: 1 }, snapshotsCreated: { increment: 1 } }
+            : result.outcome === 'FAILED' || result.outcome === 'REJECTED'
+              ? { errors: { increment: 1 } }
+              : { skippedItems: { increment: 1 } },
+      }),
+    ];
+  }
+
+  /**
+   * Store the totals and close the run
+   * @param runId - Ingestion run ID
+   * @param summary - Run totals
+   * @param failed - Whether the run aborted with a fatal error
+   */
+  async finishRun(
+    runId: string,
+    summary: ProcessingSummary,
+    failed: boolean = false
+  ): Promise<void> {
+    try {
+      await prisma.ingestionRun.update({
+        where: { id: runId },
+        data: {
+          status: failed ? 'FAILED' : 'COMPLETED',
+          finishedAt: new Date(),
+          totalItems: summary.totalItems,
+          queuedItems: summary.queuedItems,
+          // Queue results may already have been counted, so increment
+          skippedItems: { increment: summary.skippedItems },
+          errors: { increment: summary.errors },
+          errorDetails: summary.errorDetails,
+        },
+      });
+    } catch (error) {
+      console.error('Error finishing ingestion run:', error);
+    }
+  }
+
+  /**
+   * List runs, newest first
+   * Item filters (hotel, sender, outcome) select runs containing matching items
+   * and restrict the returned items to those matches
+   * @param filters - Run and item filters
+   * @returns Runs with their items
+   */
+  async getRuns(
+    filters: IngestionRunFilters
+  ): Promise<(IngestionRun & { items: IngestionItem[] })[]> {
+    try {
+      const itemWhere: Prisma.IngestionItemWhereInput = {
+        hotelId: filters.hotelId,
+        sender: filters.sender?.toLowerCase(),
+        outcome: filters.outcome,
+      };
+      const hasItemFilter =
+        !!filters.hotelId || !!filters.sender || !!filters.outcome;
+
+      return await prisma.ingestionRun.findMany({
+        where: {
+          status: filters.status,
+          sources: filters.source ? { has: filters.source } : undefined,
+          startedAt: {
+            gte: filters.from,
+            lte: filters.to,
+          },
+          items: hasItemFilter ? { some: itemWhere } : undefined,
+        },
+        include: {
+          items: {
+            where: itemWhere,
+            orderBy: { createdAt: 'asc' },
+          },
+        },
+        orderBy: { startedAt: 'desc' },
+        take: filters.limit ?? 50,
+      });
+    } catch (error) {
+      console.error('Error fetching ingestion runs:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a single run with all of its items
+   * @param id - Ingestion run ID
+   * @returns Run or null
+   */
+  async getRunById(
+    id: string
+  ): Promise<(IngestionRun & { items: IngestionItem[] }) | null> {
+    try {
+      return await prisma.ingestionRun.findUnique({
+        where: { id },
+        include: { items: { orderBy: { createdAt: 'asc' } } },
+      });
+    } catch (error) {
+      console.error('Error fetching ingestion run:', error);
+      throw error;
+    }
+  }
+}
+
+// Export singleton instance
+export const ingestionRunService = new IngestionRunService();
+export default ingestionRunService;
@@ -0,0 +1,345 @@
+import cron from 'node-cron';
+import { prisma } from '../utils/prisma.js';
+import { config } from '../config/index.js';
+import { tokenService } from './token.service.js';
+import type { Mailbox, MailboxCredential, Prisma } from '@prisma/client';
+import type { MailboxFolder, MailboxInput } from '../types/ingestion.types.js';
+
+// Sync state key used while only one mailbox could be monitored
+const LEGACY_SYNC_KEY = 'me/inbox';
+
+const FOLDER_FIELDS = [
+  'processedFolder',
+  'duplicateFolder',
+  'unknownSenderFolder',
+  'failedFolder',
+] as const;
+
+export const DEFAULT_MAILBOX_FOLDERS: Record<MailboxFolder, string> = {
+  processed: 'Processed',
+  duplicate: 'Duplicate',
+  unknownSender: 'Unknown Sender',
+  failed: 'Failed',
+};
+
+// Mailbox listing: hotel scope and connection state, never the token itself
+const mailboxDetails = {
+  hotels: { select: { id: true, name: true } },
+  credential: {
+    select: { accountEmail: true, connectedAt: true, lastRefreshedAt: true },
+  },
+} satisfies Prisma.MailboxInclude;
+
+export type MailboxDetails = Prisma.MailboxGetPayload<{
+  include: typeof mailboxDetails;
+}>;
+
+class MailboxService {
+  /**
+   * Get all mailboxes with their hotel scope and connection state
+   * @returns Mailboxes ordered by address
+   */
+  async getMailboxes(): Promise<MailboxDetails[]> {
+    try {
+      return await prisma.mailbox.findMany({
+        include: mailboxDetails,
+        orderBy: { address: 'asc' },
+      });
+    } catch (error) {
+      console.error('Error fetching mailboxes:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the mailboxes the scheduler polls
+   * @returns Enabled mailboxes
+   */
+  async getEnabledMailboxes(): Promise<Mailbox[]> {
+    try {
+      return await prisma.mailbox.findMany({
+        where: { isEnabled: true },
+        orderBy: { address: 'asc' },
+      });
+    } catch (error) {
+      console.error('Error fetching enabled mailboxes:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a mailbox by ID
+   * @param id - Mailbox ID
+   * @returns Mailbox or null
+   */
+  async getMailboxById(id: string): Promise<MailboxDetails | null> {
+    try {
+      return await prisma.mailbox.findUnique({
+        where: { id },
+        include: mailboxDetails,
+      });
+    } catch (error) {
+      console.error('Error fetching mailbox:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the mailbox an item was received in
+   * Items queued before mailboxes existed belong to MONITORED_EMAIL
+   * @param mailboxId - Mailbox ID of the item, if any
+   * @returns Mailbox or null
+   */
+  async getItemMailbox(mailboxId?: string): Promise<Mailbox | null> {
+    try {
+      return await prisma.mailbox.findUnique({
+        where: mailboxId
+          ? { id: mailboxId }
+          : { address: config.email.monitoredEmail.toLowerCase() },
+      });
+    } catch (error) {
+      console.error('Error fetching mailbox of item:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Hotels files from a mailbox may be routed to
+   * @param mailboxId - Mailbox ID
+   * @returns Hotel IDs, or undefined if the mailbox is not restricted
+   */
+  async getHotelScope(mailboxId: string): Promise<string[] | undefined> {
+    try {
+      const hotels = await prisma.hotel.findMany({
+        where: { mailboxes: { some: { id: mailboxId } } },
+        select: { id: true },
+      });
+
+      return hotels.length > 0 ? hotels.map((hotel) => hotel.id) : undefined;
+    } catch (error) {
+      console.error('Error fetching mailbox hotel scope:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Add a mailbox; it is linked to a credential already connected for its address
+   * @param input - Mailbox fields (validate with validateMailbox() first)
+   * @returns Created mailbox
+   */
+  async createMailbox(input: MailboxInput): Promise<MailboxDetails> {
+    try {
+      const address = input.address!.toLowerCase();
+      const credential = await prisma.mailboxCredential.findUnique({
+        where: { accountEmail: address },
+        select: { id: true },
+      });
+
+      const mailbox = await prisma.mailbox.create({
+        data: {
+          address,
+          credentialId: credential?.id,
+          isEnabled: input.isEnabled,
+          pollCron: input.pollCron,
+          ...this.getFolderFields(input),
+          hotels: input.hotelIds
+            ? { connect: input.hotelIds.map((id) => ({ id })) }
+            : undefined,
+        },
+        include: mailboxDetails,
+      });
+
+      console.log(`Mailbox created: ${mailbox.address}`);
+      return mailbox;
+    } catch (error) {
+      console.error('Error creating mailbox:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a mailbox (the address cannot change)
+   * @param id - Mailbox ID
+   * @param input - Changed fields (validate with validateMailbox() first)
+   * @returns Updated mailbox
+   */
+  async updateMailbox(id: string, input: MailboxInput): Promise<MailboxDetails> {
+    try {
+      const mailbox = await prisma.mailbox.update({
+        where: { id },
+        data: {
+          isEnabled: input.isEnabled,
+          pollCron: input.pollCron,
+          ...this.getFolderFields(input),
+          hotels: input.hotelIds
+            ? { set: input.hotelIds.map((hotelId) => ({ id: hotelId })) }
+            : undefined,
+        },
+        include: mailboxDetails,
+      });
+
+      console.log(`Mailbox updated: ${mailbox.address}`);
+      return mailbox;
+    } catch (error) {
+      console.error('Error updating mailbox:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a mailbox (its credential stays until the account is connected elsewhere)
+   * @param id - Mailbox ID
+   */
+  async deleteMailbox(id: string): Promise<void> {
+    try {
+      const mailbox = await prisma.mailbox.delete({ where: { id } });
+      console.log(`Mailbox deleted: ${mailbox.address}`);
+    } catch (error) {
+      console.error('Error deleting mailbox:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Link a freshly connected credential to its mailbox, adding the mailbox if needed
+   * @param credential - Credential stored by the connect flow
+   * @returns Mailbox of the account
+   */
+  async attachCredential(credential: MailboxCredential): Promise<Mailbox> {
+    try {
+      return await prisma.mailbox.upsert({
+        where: { address: credential.accountEmail },
+        create: { address: credential.accountEmail, credentialId: credential.id },
+        update: { credentialId: credential.id },
+      });
+    } catch (error) {
+      console.error('Error linking mailbox credential:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Register MONITORED_EMAIL as the first mailbox of an installation that
+   * predates multiple mailboxes, keeping its token and delta sync state
+   */
+  async ensureDefaultMailbox(): Promise<void> {
+    try {
+      if ((await prisma.mailbox.count()) > 0) {
+        return;
+      }
+
+      const address = config.email.monitoredEmail.toLowerCase();
+      // Only a credential of this address; another account's token would read its mail.
+      // Without one the mailbox waits for the connect flow
+      const credential =
+        (await prisma.mailboxCredential.findUnique({
+          where: { accountEmail: address },
+        })) ?? (await tokenService.importLegacyTokenFile(address));
+
+      await prisma.mailbox.create({
+        data: { address, credentialId: credential?.id },
+      });
+      await prisma.mailboxSyncState.updateMany({
+        where: { mailbox: LEGACY_SYNC_KEY },
+        data: { mailbox: this.getSyncKey({ address }) },
+      });
+
+      console.log(`Mailbox ${address} registered from MONITORED_EMAIL`);
+    } catch (error) {
+      console.error('Error registering default mailbox:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Name of the folder handled messages with an outcome are moved to
+   * @param mailbox - Mailbox
+   * @param folder - Outcome folder
+   * @returns Configured folder name or the default
+   */
+  getFolderName(mailbox: Mailbox, folder: MailboxFolder): string {
+    const configured: Record<MailboxFolder, string | null> = {
+      processed: mailbox.processedFolder,
+      duplicate: mailbox.duplicateFolder,
+      unknownSender: mailbox.unknownSenderFolder,
+      failed: mailbox.failedFolder,
+    };
+
+    return configured[folder] || DEFAULT_MAILBOX_FOLDERS[folder];
+  }
+
+  /**
+   * Delta sync state key of the inbox of a mailbox
+   * @param mailbox - Mailbox
+   * @returns e.g. "reports@example.com/inbox"
+   */
+  getSyncKey(mailbox: Pick<Mailbox, 'address'>): string {
+    return `${mailbox.address}/inbox`;
+  }
+
+  /**
+   * Check mailbox fields before saving
+   * @param input - Mailbox fields
+   * @param isNew - Whether the mailbox is being created
+   * @returns Error message or null if valid
+   */
+  async validateMailbox(
+    input: MailboxInput,
+    isNew: boolean
+  ): Promise<string | null> {
+    if (isNew) {
+      if (!input.address || !/^[^\s@]+@[^\s@]+$/.test(input.address)) {
+        return 'address must be an email address';
+      }
+      const existing = await prisma.mailbox.findUnique({
+        where: { address: input.address.toLowerCase() },
+        select: { id: true },
+      });
+      if (existing) {
+        return 'A mailbox with this address already exists';
+      }
+    } else if (input.address !== undefined) {
+      return 'address cannot be changed; add a new mailbox instead';
+    }
+
+    if (input.pollCron && !cron.validate(input.pollCron)) {
+      return 'pollCron is not a valid cron expression';
+    }
+
+    if (input.hotelIds && input.hotelIds.length > 0) {
+      const found = await prisma.hotel.count({
+        where: { id: { in: input.hotelIds } },
+      });
+      if (found !== new Set(input.hotelIds).size) {
+        return 'hotelIds contains unknown hotels';
+      }
+    }
+
+    for (const field of FOLDER_FIELDS) {
+      const name = input[field];
+      if (name && (name.length > 255 || name.toLowerCase() === 'inbox')) {
+        return `${field} must be a folder name other than Inbox (max. 255 characters)`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Folder name fields of the input (empty names reset to the default)
+   */
+  private getFolderFields(input: MailboxInput) {
+    const fields: { [Field in (typeof FOLDER_FIELDS)[number]]?: string | null } = {};
+    for (const field of FOLDER_FIELDS) {
+      if (input[field] !== undefined) {
+        fields[field] = input[field]?.trim() || null;
+      }
+    }
+
+    return { ...fields, folderingEnabled: input.folderingEnabled };
+  }
+}
+
+// Export singleton instance
+export const mailboxService = new MailboxService();
+export default mailboxService;
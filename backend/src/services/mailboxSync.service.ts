@@ -0,0 +1,57 @@
+import { prisma } from '../utils/prisma.js';
+
+class MailboxSyncService {
+  /**
+   * Get the stored delta link of a mailbox folder
+   * @param mailbox - Mailbox and folder key (e.g. "me/inbox")
+   * @returns Delta link or null if the folder was never synced
+   */
+  async getDeltaLink(mailbox: string): Promise<string | null> {
+    try {
+      const state = await prisma.mailboxSyncState.findUnique({
+        where: { mailbox },
+      });
+
+      return state?.deltaLink ?? null;
+    } catch (error) {
+      console.error('Error fetching mailbox sync state:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Store the delta link for the next sync
+   * @param mailbox - Mailbox and folder key
+   * @param deltaLink - Delta link returned by the last page
+   */
+  async saveDeltaLink(mailbox: string, deltaLink: string): Promise<void> {
+    try {
+      await prisma.mailboxSyncState.upsert({
+        where: { mailbox },
+        create: { mailbox, deltaLink },
+        update: { deltaLink, lastSyncAt: new Date() },
+      });
+    } catch (error) {
+      console.error('Error saving mailbox sync state:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Forget the delta link so the next sync starts over (e.g. after it expired)
+   * @param mailbox - Mailbox and folder key
+   */
+  async resetDeltaLink(mailbox: string): Promise<void> {
+    try {
+      await prisma.mailboxSyncState.deleteMany({ where: { mailbox } });
+      console.log(`Delta sync state of ${mailbox} reset`);
+    } catch (error) {
+      console.error('Error resetting mailbox sync state:', error);
+      throw error;
+    }
+  }
+}
+
+// Export singleton instance
+export const mailboxSyncService = new MailboxSyncService();
+export default mailboxSyncService;
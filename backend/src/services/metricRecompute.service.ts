@@ -0,0 +1,231 @@
+import { prisma } from '../utils/prisma.js';
+import { roomInventoryService } from './roomInventory.service.js';
+import {
+  calculateOccupancyPercent,
+  calculateADR,
+  calculateRevPAR,
+} from '../config/columnMapping.js';
+import type { MetricRecompute } from '@prisma/client';
+import type {
+  MetricRecomputeInput,
+  RoomCapacity,
+} from '../types/fileProcessor.types.js';
+import pkg from '@prisma/client';
+
+const { Prisma } = pkg;
+
+// A RUNNING recompute not touched for this long was interrupted (e.g. by a restart)
+const STALE_AFTER_MS = 15 * 60 * 1000;
+
+class MetricRecomputeService {
+  /**
+   * Record a recompute of a hotel's rows with its current room inventory
+   * The rules are stored with the record, so the run uses exactly what was audited
+   * @param hotelId - Hotel ID
+   * @param input - Stay dates and audit details
+   * @returns Created recompute (RUNNING)
+   */
+  async startRecompute(hotelId: string, input: MetricRecomputeInput): Promise<MetricRecompute> {
+    try {
+      const capacityRules = await roomInventoryService.getCapacityRules(hotelId);
+      const totalRows = await prisma.historyForecastData.count({
+        where: { hotelId, stayDate: { gte: input.from, lte: input.to } },
+      });
+
+      const recompute = await prisma.metricRecompute.create({
+        data: {
+          hotelId,
+          fromDate: input.from ?? null,
+          toDate: input.to ?? null,
+          requestedBy: input.requestedBy ?? null,
+          reason: input.reason ?? null,
+          capacityRules,
+          totalRows,
+        },
+      });
+
+      console.log(
+        `Metric recompute started: ${recompute.id} for hotel ${hotelId} (${totalRows} rows)`
+      );
+      return recompute;
+    } catch (error) {
+      console.error('Error starting metric recompute:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Running recompute of a hotel; one left stale by a restart is marked FAILED instead
+   * @param hotelId - Hotel ID
+   * @returns Running recompute or null
+   */
+  async getActiveRecompute(hotelId: string): Promise<MetricRecompute | null> {
+    try {
+      const running = await prisma.metricRecompute.findFirst({
+        where: { hotelId, status: 'RUNNING' },
+        orderBy: { startedAt: 'desc' },
+      });
+
+      if (running && Date.now() - running.updatedAt.getTime() > STALE_AFTER_MS) {
+        await this.failRecompute(running.id, 'Interrupted before it finished');
+        return null;
+      }
+      return running;
+    } catch (error) {
+      console.error('Error fetching active metric recompute:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Recalculate one batch of rows from their room nights and revenue
+   * Only rows whose stored metrics differ are written
+   * @param recompute - Recompute being run
+   * @param capacity - Rooms per stay date
+   * @param afterId - Last row ID of the previous batch (null for the first batch)
+   * @param batchSize - Rows per batch
+   * @returns Rows read and updated, and the last row ID (null when no rows are left)
+   */
+  async recalculateBatch(
+    recompute: MetricRecompute,
+    capacity: RoomCapacity,
+    afterId: string | null,
+    batchSize: number
+  ): Promise<{ processed: number; changed: number; lastId: string | null }> {
+    try {
+      const rows = await prisma.historyForecastData.findMany({
+        where: {
+          hotelId: recompute.hotelId,
+          stayDate: { gte: recompute.fromDate ?? undefined, lte: recompute.toDate ?? undefined },
+          id: afterId ? { gt: afterId } : undefined,
+        },
+        orderBy: { id: 'asc' },
+        take: batchSize,
+        select: {
+          id: true,
+          stayDate: true,
+          roomNights: true,
+          roomRevenue: true,
+          occupancyPercent: true,
+          adr: true,
+          revPAR: true,
+        },
+      });
+
+      const updates = rows.flatMap((row) => {
+        const rooms = capacity(row.stayDate);
+        const roomRevenue = row.roomRevenue.toNumber();
+        const metrics = {
+          occupancyPercent: this.toCents(calculateOccupancyPercent(row.roomNights, rooms)),
+          adr: this.toCents(calculateADR(roomRevenue, row.roomNights)),
+          revPAR: this.toCents(calculateRevPAR(roomRevenue, rooms)),
+        };
+
+        const unchanged =
+          metrics.occupancyPercent.equals(row.occupancyPercent) &&
+          metrics.adr.equals(row.adr) &&
+          metrics.revPAR.equals(row.revPAR);
+        return unchanged
+          ? []
+          : [prisma.historyForecastData.update({ where: { id: row.id }, data: metrics })];
+      });
+
+      await prisma.$transaction([
+        ...updates,
+        prisma.metricRecompute.update({
+          where: { id: recompute.id },
+          data: {
+            processedRows: { increment: rows.length },
+            changedRows: { increment: updates.length },
+          },
+        }),
+      ]);
+
+      return {
+        processed: rows.length,
+        changed: updates.length,
+        lastId: rows.length > 0 ? rows[rows.length - 1].id : null,
+      };
+    } catch (error) {
+      console.error('Error recalculating metric batch:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Close a recompute that went through all its rows
+   * @param recomputeId - Recompute ID
+   */
+  async completeRecompute(recomputeId: string): Promise<void> {
+    try {
+      await prisma.metricRecompute.update({
+        where: { id: recomputeId },
+        data: { status: 'COMPLETED', finishedAt: new Date() },
+      });
+    } catch (error) {
+      console.error('Error completing metric recompute:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Close a recompute that stopped; batches already written stay recalculated
+   * Failures are logged only, so the original error is not hidden
+   * @param recomputeId - Recompute ID
+   * @param message - Error message
+   */
+  async failRecompute(recomputeId: string, message: string): Promise<void> {
+    try {
+      await prisma.metricRecompute.update({
+        where: { id: recomputeId },
+        data: { status: 'FAILED', finishedAt: new Date(), error: message },
+      });
+    } catch (error) {
+      console.error('Error failing metric recompute:', error);
+    }
+  }
+
+  /**
+   * Recomputes of a hotel, newest first
+   * @param hotelId - Hotel ID
+   * @param limit - Maximum number of recomputes
+   * @returns Recomputes
+   */
+  async getRecomputesByHotel(hotelId: string, limit: number = 50): Promise<MetricRecompute[]> {
+    try {
+      return await prisma.metricRecompute.findMany({
+        where: { hotelId },
+        orderBy: { startedAt: 'desc' },
+        take: limit,
+      });
+    } catch (error) {
+      console.error('Error fetching metric recomputes:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a recompute by ID
+   * @param id - Recompute ID
+   * @returns Recompute or null
+   */
+  async getRecomputeById(id: string): Promise<MetricRecompute | null> {
+    try {
+      return await prisma.metricRecompute.findUnique({ where: { id } });
+    } catch (error) {
+      console.error('Error fetching metric recompute:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Metric rounded like the database columns (2 decimals, half away from zero)
+   */
+  private toCents(value: number) {
+    return new Prisma.Decimal(value).toDecimalPlaces(2, Prisma.Decimal.ROUND_HALF_UP);
+  }
+}
+
+// Export singleton instance
+export const metricRecomputeService = new MetricRecomputeService();
+export default metricRecomputeService;
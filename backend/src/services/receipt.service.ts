@@ -0,0 +1,167 @@
+import { prisma } from '../utils/prisma.js';
+import { emailService } from './email.service.js';
+import { hotelService } from './hotel.service.js';
+import { mailboxService } from './mailbox.service.js';
+import { graphIngestionSource } from '../sources/graph.source.js';
+import type { IngestionOutcome } from '@prisma/client';
+import type { ItemResult, SourceItem } from '../types/ingestion.types.js';
+
+export const DEFAULT_RECEIPT_SUBJECT_TEMPLATE =
+  'RE: {{originalSubject}} [{{status}}]';
+
+export const DEFAULT_RECEIPT_BODY_TEMPLATE = `{{filename}} for {{hotelName}} (received {{receivedAt}}): {{status}}
+
+Snapshot: {{snapshotId}}
+Rows imported: {{rowCount}}
+History dates: {{historyRange}}
+Forecast dates: {{forecastRange}}
+Skipped lines: {{skippedLineCount}}
+{{skippedLines}}
+Error: {{error}}
+
+This is an automated message.`;
+
+// Outcomes worth a reply (not e.g. inline images reported as unsupported files)
+const RECEIPT_OUTCOMES: IngestionOutcome[] = ['PROCESSED', 'DUPLICATE', 'FAILED', 'REJECTED'];
+
+// Skipped lines listed in a receipt; the rest are summarised
+const MAX_LISTED_LINES = 20;
+
+const STATUS_TEXT: Record<IngestionOutcome, string> = {
+  QUEUED: 'Queued',
+  PROCESSED: 'Processed',
+  ALREADY_PROCESSED: 'Already processed',
+  DUPLICATE: 'Duplicate file',
+  UNKNOWN_SENDER: 'Unknown sender',
+  INACTIVE_HOTEL: 'Hotel inactive',
+  UNSUPPORTED_FILE: 'Unsupported file',
+  FAILED: 'Failed',
+  REJECTED: 'Rejected by validation policy',
+};
+
+class ReceiptService {
+  /**
+   * Reply to the sending mailbox with the outcome of an attachment
+   * Only for Graph messages of hotels that opted in; errors are logged only
+   * @param item - Processed item
+   * @param result - Final pipeline result
+   */
+  async sendReceipt(item: SourceItem, result: ItemResult): Promise<void> {
+    if (
+      item.source !== graphIngestionSource.name ||
+      !result.hotelId ||
+      !RECEIPT_OUTCOMES.includes(result.outcome)
+    ) {
+      return;
+    }
+
+    try {
+      const hotel = await hotelService.getHotelById(result.hotelId);
+      if (!hotel?.receiptsEnabled) {
+        return;
+      }
+
+      const variables = await this.buildVariables(item, result, hotel.name);
+      const subject = this.render(
+        hotel.receiptSubjectTemplate || DEFAULT_RECEIPT_SUBJECT_TEMPLATE,
+        variables
+      );
+      const body = this.render(
+        hotel.receiptBodyTemplate || DEFAULT_RECEIPT_BODY_TEMPLATE,
+        variables
+      );
+
+      // Reply from the mailbox the file was sent to
+      const mailbox = await mailboxService.getItemMailbox(item.mailboxId);
+      if (!mailbox) {
+        console.warn(`  ⚠ Mailbox of ${item.filename} no longer exists, no receipt sent`);
+        return;
+      }
+
+      await emailService.replyToMessage(mailbox, item.externalId, subject, body);
+      console.log(`  ✓ Receipt sent for ${item.filename}`);
+    } catch (error) {
+      console.error(`✗ Error sending receipt for ${item.filename}:`, error);
+    }
+  }
+
+  /**
+   * Replace {{name}} placeholders; unknown names render as empty strings
+   * @param template - Subject or body template
+   * @param variables - Placeholder values
+   * @returns Rendered text
+   */
+  render(template: string, variables: Record<string, string>): string {
+    return template.replace(
+      /\{\{\s*(\w+)\s*\}\}/g,
+      (_match, name: string) => variables[name] ?? ''
+    );
+  }
+
+  /**
+   * Collect the placeholder values for a receipt
+   */
+  private async buildVariables(
+    item: SourceItem,
+    result: ItemResult,
+    hotelName: string
+  ): Promise<Record<string, string>> {
+    const ranges = result.snapshotId
+      ? await this.getDateRanges(result.snapshotId)
+      : {};
+    const skippedLines = result.skippedLines ?? [];
+    const skippedLineCount = result.skippedLineCount ?? skippedLines.length;
+
+    const listed = skippedLines
+      .slice(0, MAX_LISTED_LINES)
+      .map((skipped) => `  Line ${skipped.line}: ${skipped.reason}`);
+    if (skippedLineCount > MAX_LISTED_LINES) {
+      listed.push(`  ... and ${skippedLineCount - MAX_LISTED_LINES} more`);
+    }
+
+    return {
+      hotelName,
+      filename: item.filename,
+      originalSubject: item.hotelHint.subject || item.filename,
+      receivedAt: item.receivedAt.toISOString(),
+      outcome: result.outcome,
+      status: STATUS_TEXT[result.outcome],
+      snapshotId: result.snapshotId ?? '-',
+      rowCount: String(result.rowCount ?? 0),
+      historyRange: ranges.HISTORY ?? '-',
+      forecastRange: ranges.FORECAST ?? '-',
+      skippedLineCount: String(skippedLineCount),
+      skippedLines: listed.join('\n'),
+      error: result.error ?? '-',
+    };
+  }
+
+  /**
+   * First and last stay date per data type of a snapshot
+   * @returns e.g. { HISTORY: '2025-10-01 – 2025-10-31' }
+   */
+  private async getDateRanges(
+    snapshotId: string
+  ): Promise<Partial<Record<'HISTORY' | 'FORECAST', string>>> {
+    const groups = await prisma.historyForecastData.groupBy({
+      by: ['dataType'],
+      where: { snapshotId },
+      _min: { stayDate: true },
+      _max: { stayDate: true },
+    });
+
+    const ranges: Partial<Record<'HISTORY' | 'FORECAST', string>> = {};
+    for (const group of groups) {
+      if (group._min.stayDate && group._max.stayDate) {
+        ranges[group.dataType] =
+          `${group._min.stayDate.toISOString().slice(0, 10)} – ${group._max.stayDate.toISOString().slice(0, 10)}`;
+      }
+    }
+
+    return ranges;
+  }
+}
+
+// Export singleton instance
+export const receiptService = new ReceiptService();
+export default receiptService;
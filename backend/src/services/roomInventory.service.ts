@@ -0,0 +1,221 @@
+import { prisma } from '../utils/prisma.js';
+import { formatDateToYYYYMMDD } from '../config/columnMapping.js';
+import type { RoomInventoryPeriod } from '@prisma/client';
+import type {
+  CapacityRules,
+  RoomCapacity,
+  RoomInventoryPeriodInput,
+} from '../types/fileProcessor.types.js';
+
+class RoomInventoryService {
+  /**
+   * Get the inventory periods of a hotel in date order
+   * @param hotelId - Hotel ID
+   * @returns Periods
+   */
+  async getPeriodsByHotel(hotelId: string): Promise<RoomInventoryPeriod[]> {
+    try {
+      return await prisma.roomInventoryPeriod.findMany({
+        where: { hotelId },
+        orderBy: { fromDate: 'asc' },
+      });
+    } catch (error) {
+      console.error('Error fetching room inventory periods:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a period by ID
+   * @param id - Period ID
+   * @returns Period or null
+   */
+  async getPeriodById(id: string): Promise<RoomInventoryPeriod | null> {
+    try {
+      return await prisma.roomInventoryPeriod.findUnique({ where: { id } });
+    } catch (error) {
+      console.error('Error fetching room inventory period:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a period for a hotel
+   * @param hotelId - Hotel ID
+   * @param input - Period fields (validate with validatePeriod() first)
+   * @returns Created period
+   */
+  async createPeriod(
+    hotelId: string,
+    input: RoomInventoryPeriodInput
+  ): Promise<RoomInventoryPeriod> {
+    try {
+      const period = await prisma.roomInventoryPeriod.create({
+        data: {
+          hotelId,
+          fromDate: input.fromDate!,
+          toDate: input.toDate ?? null,
+          rooms: input.rooms!,
+          note: input.note ?? null,
+        },
+      });
+
+      console.log(
+        `Room inventory period created: ${period.id} for hotel ${hotelId} (${period.rooms} rooms)`
+      );
+      return period;
+    } catch (error) {
+      console.error('Error creating room inventory period:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a period
+   * @param id - Period ID
+   * @param input - Changed fields (validate with validatePeriod() first)
+   * @returns Updated period
+   */
+  async updatePeriod(
+    id: string,
+    input: RoomInventoryPeriodInput
+  ): Promise<RoomInventoryPeriod> {
+    try {
+      const period = await prisma.roomInventoryPeriod.update({
+        where: { id },
+        data: input,
+      });
+
+      console.log(`Room inventory period updated: ${period.id}`);
+      return period;
+    } catch (error) {
+      console.error('Error updating room inventory period:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a period
+   * @param id - Period ID
+   */
+  async deletePeriod(id: string): Promise<void> {
+    try {
+      await prisma.roomInventoryPeriod.delete({ where: { id } });
+      console.log(`Room inventory period deleted: ${id}`);
+    } catch (error) {
+      console.error('Error deleting room inventory period:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check period fields before saving
+   * Periods of a hotel may not overlap, so every stay date has one capacity
+   * @param hotelId - Hotel ID
+   * @param input - Period fields
+   * @param existing - Current period when updating
+   * @returns Error message or null if valid
+   */
+  async validatePeriod(
+    hotelId: string,
+    input: RoomInventoryPeriodInput,
+    existing?: RoomInventoryPeriod
+  ): Promise<string | null> {
+    const merged = { ...existing, ...input };
+
+    if (!merged.fromDate || isNaN(merged.fromDate.getTime())) {
+      return 'fromDate is required (YYYY-MM-DD)';
+    }
+    if (merged.toDate && isNaN(merged.toDate.getTime())) {
+      return 'toDate must be a date (YYYY-MM-DD), or null for an open-ended period';
+    }
+    if (merged.toDate && this.dayKey(merged.toDate) < this.dayKey(merged.fromDate)) {
+      return 'toDate must not be before fromDate';
+    }
+    if (merged.rooms === undefined || !Number.isInteger(merged.rooms) || merged.rooms < 0) {
+      return 'rooms must be a whole number of rooms';
+    }
+
+    const from = this.dayKey(merged.fromDate);
+    const to = merged.toDate ? this.dayKey(merged.toDate) : null;
+    const others = await prisma.roomInventoryPeriod.findMany({
+      where: { hotelId, id: existing ? { not: existing.id } : undefined },
+    });
+    const overlapping = others.find(
+      (other) =>
+        (to === null || this.dayKey(other.fromDate) <= to) &&
+        (other.toDate === null || from <= this.dayKey(other.toDate))
+    );
+    if (overlapping) {
+      return `Overlaps the period from ${this.dayKey(overlapping.fromDate)}${overlapping.toDate ? ` to ${this.dayKey(overlapping.toDate)}` : ''} (${overlapping.id})`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Rooms of a hotel per stay date
+   * Loads the periods once; the returned function does not query
+   * @param hotelId - Hotel ID
+   * @returns Capacity of a stay date: its period's rooms, else the hotel's room count
+   */
+  async getCapacity(hotelId: string): Promise<RoomCapacity> {
+    return this.toCapacity(await this.getCapacityRules(hotelId));
+  }
+
+  /**
+   * Current room count and inventory periods of a hotel
+   * @param hotelId - Hotel ID
+   * @returns Rules in date order (no rooms if the hotel does not exist)
+   */
+  async getCapacityRules(hotelId: string): Promise<CapacityRules> {
+    try {
+      const hotel = await prisma.hotel.findUnique({
+        where: { id: hotelId },
+        select: {
+          totalAvailableRooms: true,
+          roomInventory: { orderBy: { fromDate: 'asc' } },
+        },
+      });
+
+      return {
+        totalAvailableRooms: hotel?.totalAvailableRooms ?? 0,
+        periods: (hotel?.roomInventory ?? []).map((period) => ({
+          fromDate: this.dayKey(period.fromDate),
+          toDate: period.toDate ? this.dayKey(period.toDate) : null,
+          rooms: period.rooms,
+        })),
+      };
+    } catch (error) {
+      console.error('Error loading room capacity:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Rooms per stay date under given rules
+   * @param rules - Room count and inventory periods
+   * @returns Capacity of a stay date: its period's rooms, else the room count
+   */
+  toCapacity(rules: CapacityRules): RoomCapacity {
+    return (stayDate) => {
+      const day = this.dayKey(stayDate);
+      const period = rules.periods.find(
+        (candidate) =>
+          candidate.fromDate <= day && (candidate.toDate === null || day <= candidate.toDate)
+      );
+      return period ? period.rooms : rules.totalAvailableRooms;
+    };
+  }
+
+  /**
+   * Calendar date as YYYY-MM-DD (sorts like the date)
+   */
+  private dayKey(date: Date): string {
+    return formatDateToYYYYMMDD(date);
+  }
+}
+
+// Export singleton instance
+export const roomInventoryService = new RoomInventoryService();
+export default roomInventoryService;
@@ -0,0 +1,313 @@
+import { prisma } from '../utils/prisma.js';
+import { normalizeHeader } from '../config/headerSynonyms.js';
+import { parseNumericValue, stripWeekday } from '../config/columnMapping.js';
+import type { HistoryForecastSnapshot, Prisma as PrismaTypes } from '@prisma/client';
+import type {
+  ColumnFingerprint,
+  ColumnKind,
+  DriftFinding,
+  FileFingerprint,
+  ParseLocale,
+} from '../types/fileProcessor.types.js';
+import pkg from '@prisma/client';
+
+const { Prisma } = pkg;
+
+// Share of a column's non-empty cells that must agree on a kind
+const KIND_SHARE = 0.9;
+
+// A numeric column whose largest value grows or shrinks by this factor has likely moved
+const RANGE_SHIFT_FACTOR = 10;
+
+// Smaller ranges are too noisy to compare (e.g. 0-3 out of order rooms)
+const MIN_COMPARED_MAX = 10;
+
+// Drift fields of a snapshot, saved in the same update as its status
+type DriftFields = Pick<
+  PrismaTypes.HistoryForecastSnapshotUpdateInput,
+  'fingerprint' | 'driftStatus' | 'driftFindings' | 'driftAcknowledgedAt' | 'driftAcknowledgedBy'
+>;
+
+const DATE_LIKE = /^\d{1,4}[./-]\d{1,2}[./-]\d{1,4}$/;
+const NUMBER_LIKE = /^[-+]?[\d.,\s]*\d[\d.,\s]*%?$/;
+
+/**
+ * Running counts of one column while a file is fingerprinted
+ */
+interface ColumnTally {
+  cells: number; // Non-empty cells
+  numeric: number;
+  dates: number;
+  min: number | null; // Range of the numeric cells
+  max: number | null;
+}
+
+/**
+ * Running counts of a file's imported lines, so a fingerprint needs no line kept in memory
+ */
+export interface FingerprintTally {
+  locale: ParseLocale;
+  lineLengths: Map<number, number>; // Lines per number of cells
+  columns: ColumnTally[];
+}
+
+class SchemaDriftService {
+  /**
+   * Start fingerprinting a file
+   * @param locale - Number format the file is read with
+   * @returns Empty tally for addLine()
+   */
+  startFingerprint(locale: ParseLocale): FingerprintTally {
+    return { locale, lineLengths: new Map(), columns: [] };
+  }
+
+  /**
+   * Count an imported line
+   * @param tally - Tally of the file
+   * @param row - Raw cells of the line, including column 0
+   */
+  addLine(tally: FingerprintTally, row: string[]): void {
+    tally.lineLengths.set(row.length, (tally.lineLengths.get(row.length) ?? 0) + 1);
+
+    for (let index = 0; index < row.length; index++) {
+      tally.columns[index] ??= { cells: 0, numeric: 0, dates: 0, min: null, max: null };
+      const column = tally.columns[index];
+      const cell = row[index].trim();
+      if (cell === '') {
+        continue;
+      }
+
+      column.cells++;
+      if (DATE_LIKE.test(stripWeekday(cell))) {
+        column.dates++;
+      } else if (NUMBER_LIKE.test(cell)) {
+        const value = parseNumericValue(cell, tally.locale.decimalSeparator);
+        column.numeric++;
+        column.min = column.min === null ? value : Math.min(column.min, value);
+        column.max = column.max === null ? value : Math.max(column.max, value);
+      }
+    }
+  }
+
+  /**
+   * Structure of a file over its imported lines
+   * @param tally - Tally of the imported lines
+   * @param headerRow - Detected header row, if any
+   * @returns Fingerprint of the file
+   */
+  finishFingerprint(tally: FingerprintTally, headerRow: string[] | null): FileFingerprint {
+    const columnCount = [...tally.lineLengths.entries()].reduce(
+      (best, entry) => (entry[1] > best[1] ? entry : best),
+      [0, 0]
+    )[0];
+
+    const columns: ColumnFingerprint[] = [];
+    for (let index = 0; index < tally.columns.length; index++) {
+      columns.push(this.fingerprintColumn(index + 1, tally.columns[index]));
+    }
+
+    let headerSignature: string | null = null;
+    if (headerRow) {
+      const headers = headerRow.map(normalizeHeader);
+      while (headers.length > 0 && headers[headers.length - 1] === '') {
+        headers.pop();
+      }
+      headerSignature = headers.join('|');
+    }
+
+    return { columnCount, headerSignature, columns };
+  }
+
+  /**
+   * Structural differences between two files of a hotel
+   * @param previous - Fingerprint of the earlier file
+   * @param current - Fingerprint of the new file
+   * @returns Findings (empty if the structure looks the same)
+   */
+  compareFingerprints(previous: FileFingerprint, current: FileFingerprint): DriftFinding[] {
+    const findings: DriftFinding[] = [];
+
+    if (previous.columnCount !== current.columnCount) {
+      findings.push({
+        rule: 'COLUMN_COUNT',
+        message: `Lines have ${current.columnCount} columns instead of ${previous.columnCount}`,
+      });
+    }
+
+    if (
+      previous.headerSignature !== null &&
+      current.headerSignature !== null &&
+      previous.headerSignature !== current.headerSignature
+    ) {
+      const before = previous.headerSignature.split('|');
+      const after = current.headerSignature.split('|');
+      const index = after.findIndex((header, i) => header !== before[i]);
+      const column = (index >= 0 ? index : after.length) + 1;
+      findings.push({
+        rule: 'HEADER_CHANGED',
+        column,
+        message: `Header of column ${column} changed from "${before[column - 1] ?? ''}" to "${after[column - 1] ?? ''}"`,
+      });
+    }
+
+    for (const column of current.columns) {
+      const earlier = previous.columns.find((candidate) => candidate.column === column.column);
+      if (!earlier || earlier.kind === 'EMPTY' || column.kind === 'EMPTY') {
+        continue;
+      }
+
+      if (earlier.kind !== column.kind) {
+        findings.push({
+          rule: 'COLUMN_KIND',
+          column: column.column,
+          message: `Column ${column.column} holds ${column.kind} values instead of ${earlier.kind}`,
+        });
+        continue;
+      }
+
+      if (column.kind === 'NUMERIC' && earlier.max !== null && column.max !== null) {
+        const before = Math.abs(earlier.max);
+        const after = Math.abs(column.max);
+        if (
+          before > 0 &&
+          after > 0 &&
+          Math.max(before, after) >= MIN_COMPARED_MAX &&
+          Math.max(before, after) / Math.min(before, after) >= RANGE_SHIFT_FACTOR
+        ) {
+          findings.push({
+            rule: 'VALUE_RANGE',
+            column: column.column,
+            message: `Column ${column.column} reaches ${column.max} instead of ${earlier.max}`,
+          });
+        }
+      }
+    }
+
+    return findings;
+  }
+
+  /**
+   * Compare the fingerprint of a snapshot's file with the hotel's previous one
+   * The previous snapshot is the latest earlier completed one that is not itself suspected.
+   * Nothing is written: the caller saves the drift fields with the snapshot's status.
+   * @param snapshot - Snapshot being completed
+   * @param fingerprint - Fingerprint of the snapshot's file
+   * @returns Findings, and the drift fields (DRIFT_SUSPECTED if there are findings)
+   */
+  async checkSnapshot(
+    snapshot: Pick<HistoryForecastSnapshot, 'id' | 'hotelId' | 'snapshotTime'>,
+    fingerprint: FileFingerprint
+  ): Promise<{ findings: DriftFinding[]; data: DriftFields }> {
+    try {
+      const previous = await prisma.historyForecastSnapshot.findFirst({
+        where: {
+          hotelId: snapshot.hotelId,
+          id: { not: snapshot.id },
+          snapshotTime: { lte: snapshot.snapshotTime },
+          processingStatus: 'COMPLETED',
+          driftStatus: { not: 'DRIFT_SUSPECTED' },
+          fingerprint: { not: Prisma.DbNull },
+        },
+        orderBy: { snapshotTime: 'desc' },
+        select: { id: true, fingerprint: true },
+      });
+
+      const findings = previous
+        ? this.compareFingerprints(previous.fingerprint as FileFingerprint, fingerprint)
+        : [];
+
+      if (findings.length > 0) {
+        console.warn(
+          `Snapshot ${snapshot.id} differs from snapshot ${previous!.id}: ${findings.map((finding) => finding.message).join('; ')}`
+        );
+      }
+      return {
+        findings,
+        data: {
+          fingerprint,
+          driftStatus: findings.length > 0 ? 'DRIFT_SUSPECTED' : 'NONE',
+          driftFindings: findings.length > 0 ? findings : Prisma.DbNull,
+          driftAcknowledgedAt: null,
+          driftAcknowledgedBy: null,
+        },
+      };
+    } catch (error) {
+      console.error('Error checking snapshot for schema drift:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Snapshots flagged DRIFT_SUSPECTED, newest first
+   * @param hotelId - Only this hotel (optional)
+   * @returns Suspected snapshots
+   */
+  async getSuspectedSnapshots(hotelId?: string): Promise<HistoryForecastSnapshot[]> {
+    try {
+      return await prisma.historyForecastSnapshot.findMany({
+        where: { hotelId, driftStatus: 'DRIFT_SUSPECTED' },
+        orderBy: { snapshotTime: 'desc' },
+      });
+    } catch (error) {
+      console.error('Error fetching drift suspected snapshots:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Accept the structure of a suspected snapshot; it is selected by default again
+   * and becomes the reference for the hotel's next files
+   * @param snapshotId - Snapshot ID
+   * @param acknowledgedBy - Who checked the file (optional)
+   * @returns Updated snapshot
+   */
+  async acknowledge(
+    snapshotId: string,
+    acknowledgedBy?: string
+  ): Promise<HistoryForecastSnapshot> {
+    try {
+      const snapshot = await prisma.historyForecastSnapshot.update({
+        where: { id: snapshotId },
+        data: {
+          driftStatus: 'ACKNOWLEDGED',
+          driftAcknowledgedAt: new Date(),
+          driftAcknowledgedBy: acknowledgedBy ?? null,
+        },
+      });
+
+      console.log(`Schema drift of snapshot ${snapshotId} acknowledged`);
+      return snapshot;
+    } catch (error) {
+      console.error('Error acknowledging schema drift:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Kind and range of one column
+   */
+  private fingerprintColumn(column: number, tally: ColumnTally): ColumnFingerprint {
+    if (tally.cells === 0) {
+      return { column, kind: 'EMPTY', min: null, max: null };
+    }
+
+    const text = tally.cells - tally.numeric - tally.dates;
+
+    let kind: ColumnKind = 'MIXED';
+    if (tally.numeric >= tally.cells * KIND_SHARE) {
+      kind = 'NUMERIC';
+    } else if (tally.dates >= tally.cells * KIND_SHARE) {
+      kind = 'DATE';
+    } else if (text >= tally.cells * KIND_SHARE) {
+      kind = 'TEXT';
+    }
+
+    return kind === 'NUMERIC'
+      ? { column, kind, min: tally.min, max: tally.max }
+      : { column, kind, min: null, max: null };
+  }
+}
+
+// Export singleton instance
+export const schemaDriftService = new SchemaDriftService();
+export default schemaDriftService;
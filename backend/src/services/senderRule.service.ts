@@ -0,0 +1,233 @@
+import { prisma } from '../utils/prisma.js';
+import type { Hotel, HotelSenderRule } from '@prisma/client';
+import type { HotelHint, SenderRuleInput } from '../types/ingestion.types.js';
+
+class SenderRuleService {
+  /**
+   * Find the hotel for an item using the routing rules
+   * Active rules are evaluated by ascending priority; the first rule whose
+   * sender, subject and filename criteria all match wins
+   * @param hint - Hotel hint provided by the ingestion source
+   * @param filename - Attachment filename
+   * @param hotelIds - Only consider rules of these hotels (mailbox hotel scope)
+   * @returns Hotel of the matching rule or null
+   */
+  async findHotel(
+    hint: HotelHint,
+    filename: string,
+    hotelIds?: string[]
+  ): Promise<Hotel | null> {
+    try {
+      const sender = hint.senderEmail?.toLowerCase();
+      const rules = await prisma.hotelSenderRule.findMany({
+        where: {
+          isActive: true,
+          hotelId: hotelIds ? { in: hotelIds } : undefined,
+          OR: [{ senderEmail: null }, ...(sender ? [{ senderEmail: sender }] : [])],
+        },
+        include: { hotel: true },
+        orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+      });
+
+      const rule = rules.find((candidate) =>
+        this.matches(candidate, hint.subject, filename)
+      );
+      if (rule) {
+        console.log(
+          `  ✓ Sender rule ${rule.id} (priority ${rule.priority}) matched hotel ${rule.hotel.name}`
+        );
+      }
+
+      return rule?.hotel ?? null;
+    } catch (error) {
+      console.error('Error evaluating sender rules:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get all rules of a hotel in evaluation order
+   * @param hotelId - Hotel ID
+   * @returns Rules
+   */
+  async getRulesByHotel(hotelId: string): Promise<HotelSenderRule[]> {
+    try {
+      return await prisma.hotelSenderRule.findMany({
+        where: { hotelId },
+        orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+      });
+    } catch (error) {
+      console.error('Error fetching sender rules:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get all rules of all hotels in evaluation order
+   * @returns Rules
+   */
+  async getAllRules(): Promise<HotelSenderRule[]> {
+    try {
+      return await prisma.hotelSenderRule.findMany({
+        orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+      });
+    } catch (error) {
+      console.error('Error fetching sender rules:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a rule by ID
+   * @param id - Rule ID
+   * @returns Rule or null
+   */
+  async getRuleById(id: string): Promise<HotelSenderRule | null> {
+    try {
+      return await prisma.hotelSenderRule.findUnique({ where: { id } });
+    } catch (error) {
+      console.error('Error fetching sender rule:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a rule for a hotel
+   * @param hotelId - Hotel ID
+   * @param input - Rule fields (validate with validateRule() first)
+   * @returns Created rule
+   */
+  async createRule(
+    hotelId: string,
+    input: SenderRuleInput
+  ): Promise<HotelSenderRule> {
+    try {
+      const rule = await prisma.hotelSenderRule.create({
+        data: {
+          hotelId,
+          ...input,
+          senderEmail: input.senderEmail?.toLowerCase() || null,
+        },
+      });
+
+      console.log(`Sender rule created: ${rule.id} for hotel ${hotelId}`);
+      return rule;
+    } catch (error) {
+      console.error('Error creating sender rule:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a rule
+   * @param id - Rule ID
+   * @param input - Changed fields (validate with validateRule() first)
+   * @returns Updated rule
+   */
+  async updateRule(
+    id: string,
+    input: SenderRuleInput
+  ): Promise<HotelSenderRule> {
+    try {
+      const rule = await prisma.hotelSenderRule.update({
+        where: { id },
+        data: {
+          ...input,
+          senderEmail:
+            input.senderEmail === undefined
+              ? undefined
+              : input.senderEmail?.toLowerCase() || null,
+        },
+      });
+
+      console.log(`Sender rule updated: ${rule.id}`);
+      return rule;
+    } catch (error) {
+      console.error('Error updating sender rule:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a rule
+   * @param id - Rule ID
+   */
+  async deleteRule(id: string): Promise<void> {
+    try {
+      await prisma.hotelSenderRule.delete({ where: { id } });
+      console.log(`Sender rule deleted: ${id}`);
+    } catch (error) {
+      console.error('Error deleting sender rule:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check rule fields before saving
+   * @param input - Rule fields
+   * @param existing - Current rule when updating
+   * @returns Error message or null if valid
+   */
+  validateRule(
+    input: SenderRuleInput,
+    existing?: HotelSenderRule
+  ): string | null {
+    for (const field of ['subjectPattern', 'filenamePattern'] as const) {
+      const pattern = input[field];
+      if (pattern) {
+        try {
+          new RegExp(pattern, 'i');
+        } catch {
+          return `${field} is not a valid regular expression`;
+        }
+      }
+    }
+
+    if (input.priority !== undefined && !Number.isInteger(input.priority)) {
+      return 'priority must be an integer';
+    }
+
+    // A rule without any criteria would catch every file
+    const merged = { ...existing, ...input };
+    if (!merged.senderEmail && !merged.subjectPattern && !merged.filenamePattern) {
+      return 'At least one of senderEmail, subjectPattern or filenamePattern is required';
+    }
+
+    return null;
+  }
+
+  /**
+   * Whether the subject and filename criteria of a rule match
+   * (the sender is already filtered in the query)
+   */
+  private matches(
+    rule: HotelSenderRule,
+    subject: string | undefined,
+    filename: string
+  ): boolean {
+    try {
+      if (
+        rule.subjectPattern &&
+        !new RegExp(rule.subjectPattern, 'i').test(subject ?? '')
+      ) {
+        return false;
+      }
+
+      if (
+        rule.filenamePattern &&
+        !new RegExp(rule.filenamePattern, 'i').test(filename)
+      ) {
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.warn(`Skipping sender rule ${rule.id} with invalid pattern:`, error);
+      return false;
+    }
+  }
+}
+
+// Export singleton instance
+export const senderRuleService = new SenderRuleService();
+export default senderRuleService;
@@ -1,14 +1,34 @@
 import { prisma } from '../utils/prisma.js';
-import type { ParsedRow, SnapshotMetadata } from '../types/fileProcessor.types.js';
+import { blobStorageService } from './blobStorage.service.js';
+import { FileParseError, fileProcessorService } from './fileProcessor.service.js';
+import { fileValidationService } from './fileValidation.service.js';
+import { schemaDriftService } from './schemaDrift.service.js';
+import { roomInventoryService } from './roomInventory.service.js';
+import { DEFAULT_COLUMN_MAPPING } from '../config/columnMapping.js';
+import type {
+  ColumnMapping,
+  FileSource,
+  FileValidationViolation,
+  ImportSnapshotResult,
+  ParseBatch,
+  ParsedRow,
+  ReprocessResult,
+  SnapshotMetadata,
+} from '../types/fileProcessor.types.js';
 import type {
   HistoryForecastSnapshot,
   HistoryForecastData,
+  ParseIssueSeverity,
+  SnapshotParseIssue,
 } from '@prisma/client';
 import pkg from '@prisma/client';
 
 
 const { Prisma } = pkg;
 
+// HISTORY rows of a file copied into the seed snapshot's actuals
+const SEED_ACTUALS_DAYS = 7;
+
 class SnapshotService {
   /**
    * Check if a file with the same hash already exists
@@ -36,6 +56,54 @@ class SnapshotService {
     }
   }
 
+  /**
+   * Find the seed snapshot of a hotel
+   * Rejected and failed seed uploads are left out, so they do not block a new upload
+   * @param hotelId - Hotel ID
+   * @returns Seed snapshot (completed or still processing) or null
+   */
+  async findSeedSnapshot(hotelId: string): Promise<HistoryForecastSnapshot | null> {
+    try {
+      return await prisma.historyForecastSnapshot.findFirst({
+        where: {
+          hotelId,
+          isSeedSnapshot: true,
+          processingStatus: { notIn: ['REJECTED', 'FAILED'] },
+        },
+      });
+    } catch (error) {
+      console.error('Error fetching seed snapshot:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete the rejected and failed seed uploads of a hotel before a new one
+   * They keep their parse issues until then; deleting them also frees their file
+   * hash, so the same file can be uploaded again (e.g. after a policy change)
+   * @param hotelId - Hotel ID
+   * @returns Number of deleted snapshots
+   */
+  async deleteFailedSeedSnapshots(hotelId: string): Promise<number> {
+    try {
+      const { count } = await prisma.historyForecastSnapshot.deleteMany({
+        where: {
+          hotelId,
+          isSeedSnapshot: true,
+          processingStatus: { in: ['REJECTED', 'FAILED'] },
+        },
+      });
+
+      if (count > 0) {
+        console.log(`Deleted ${count} rejected or failed seed snapshot(s) of hotel ${hotelId}`);
+      }
+      return count;
+    } catch (error) {
+      console.error('Error deleting failed seed snapshots:', error);
+      throw error;
+    }
+  }
+
   /**
    * Create a snapshot record (Phase 1: Before parsing)
    * @param metadata - Snapshot metadata
@@ -53,6 +121,7 @@ class SnapshotService {
         data: {
           hotelId: metadata.hotelId,
           snapshotTime: metadata.snapshotTime,
+          snapshotTimeSource: metadata.snapshotTimeSource,
           originalFilename: metadata.originalFilename,
           blobUrl: metadata.blobUrl,
           fileHash: metadata.fileHash,
@@ -75,38 +144,158 @@ class SnapshotService {
   }
 
   /**
-   * Save parsed data to database (Phase 2: After parsing)
+   * Parse a file into a snapshot (Phase 2: After registering)
+   * Rows are inserted in batches while the file is read, so memory stays bounded by
+   * the batch size; the snapshot's progress is updated after every batch. Previously
+   * saved rows are replaced. The file is then checked against the hotel's validation
+   * policy (a rejected file loses its rows) and compared with the hotel's previous
+   * file for schema drift.
    * @param snapshotId - Snapshot ID
-   * @param rows - Parsed rows from file
+   * @param source - File content, in memory or streamed
+   * @param filename - Original filename (used for format detection)
+   * @param mapping - Column layout of the hotel (defaults to the sample layout)
+   * @returns Broken rules (nothing saved) or drift findings (saved, but flagged), with
+   *   line counts (throws FileParseError if the file cannot be read)
    */
-  async saveSnapshotData(
+  async importSnapshotFile(
     snapshotId: string,
-    rows: ParsedRow[]
-  ): Promise<void> {
+    source: FileSource,
+    filename: string,
+    mapping: ColumnMapping = DEFAULT_COLUMN_MAPPING
+  ): Promise<ImportSnapshotResult> {
+    const snapshot = await prisma.historyForecastSnapshot.findUnique({
+      where: { id: snapshotId },
+      include: { hotel: true },
+    });
+
+    if (!snapshot) {
+      throw new Error(`Snapshot ${snapshotId} not found`);
+    }
+
+    // Occupancy and RevPAR use the rooms available on each stay date
+    const capacity = await roomInventoryService.getCapacity(snapshot.hotelId);
+    const size = Buffer.isBuffer(source) ? source.length : source.size;
+    const validation = fileValidationService.startValidation(
+      { snapshotTime: snapshot.snapshotTime, capacity },
+      fileValidationService.getPolicy(snapshot.hotel)
+    );
+    const recentHistoryRows: ParsedRow[] = [];
+
     try {
-      // Get snapshot to retrieve hotelId (outside transaction)
-      const snapshot = await prisma.historyForecastSnapshot.findUnique({
+      await prisma.$transaction([
+        prisma.historyForecastData.deleteMany({ where: { snapshotId } }),
+        prisma.snapshotParseIssue.deleteMany({ where: { snapshotId } }),
+        prisma.historyForecastSnapshot.update({
+          where: { id: snapshotId },
+          data: { processingStatus: 'PROCESSING', progressLineCount: 0, progressPercent: 0 },
+        }),
+      ]);
+
+      const result = await fileProcessorService.parseFileStream(
+        source,
+        filename,
+        capacity,
+        mapping,
+        async (batch) => {
+          // Repeated stay dates are left out here; they would break the unique key of the insert
+          const rows: ParsedRow[] = [];
+          const issues = [...batch.issues];
+          for (const row of batch.rows) {
+            const duplicate = fileValidationService.addRow(validation, row);
+            if (duplicate) {
+              issues.push(duplicate);
+              continue;
+            }
+            rows.push(row);
+            if (row.dataType === 'HISTORY') {
+              recentHistoryRows.push(row);
+              if (recentHistoryRows.length > SEED_ACTUALS_DAYS) {
+                recentHistoryRows.shift();
+              }
+            }
+          }
+          await this.insertBatch(snapshotId, snapshot.hotelId, { ...batch, rows, issues }, size);
+        }
+      );
+
+      const violations = fileValidationService.finishValidation(
+        validation,
+        result.skippedLineCount
+      );
+      // Skipped repeats of a stay date count as skipped lines
+      const rowCount = result.rowCount - validation.duplicates.count;
+      const skippedLineCount = result.skippedLineCount + validation.duplicates.count;
+      const lines = { rowCount, skippedLineCount, skippedLines: result.skippedLines };
+
+      if (violations.length > 0) {
+        await this.markSnapshotRejected(snapshotId, violations, rowCount, skippedLineCount);
+        return { violations, driftFindings: [], ...lines, recentHistoryRows: [] };
+      }
+
+      // The drift status is written with COMPLETED, so a failed check leaves no
+      // completed snapshot without it
+      const drift = await schemaDriftService.checkSnapshot(snapshot, result.fingerprint);
+      await prisma.historyForecastSnapshot.update({
         where: { id: snapshotId },
-        select: { hotelId: true },
+        data: {
+          ...drift.data,
+          processed: true,
+          processingStatus: 'COMPLETED',
+          processingError: null,
+          rowCount,
+          acceptedLineCount: rowCount,
+          skippedLineCount,
+          progressPercent: 100,
+        },
       });
+      console.log(
+        `Successfully saved ${rowCount} rows for snapshot ${snapshotId}`
+      );
+
+      return { violations: [], driftFindings: drift.findings, ...lines, recentHistoryRows };
+    } catch (error) {
+      console.error('Error saving snapshot data:', error);
 
-      if (!snapshot) {
-        throw new Error(`Snapshot ${snapshotId} not found`);
+      // Log full error details for debugging
+      if (error instanceof Error) {
+        console.error('Error message:', error.message);
+        console.error('Error stack:', error.stack);
       }
 
-      // Use transaction to ensure atomicity
-      await prisma.$transaction(async (tx) => {
-        // Update snapshot status to processing
-        await tx.historyForecastSnapshot.update({
-          where: { id: snapshotId },
-          data: { processingStatus: 'PROCESSING' },
-        });
+      // Rows of the batches saved so far are incomplete
+      try {
+        await prisma.historyForecastData.deleteMany({ where: { snapshotId } });
+      } catch (cleanupError) {
+        console.error('Error removing partially saved rows:', cleanupError);
+      }
+
+      // Mark snapshot as failed (a file that cannot be read needs no stack)
+      const errorMessage = error instanceof FileParseError
+        ? error.message
+        : error instanceof Error
+        ? `${error.message}${error.stack ? `\nStack: ${error.stack}` : ''}`
+        : 'Unknown error';
+
+      await this.markSnapshotFailed(snapshotId, errorMessage);
+      throw error;
+    }
+  }
 
-        // Bulk insert data rows with hotelId (all 30 columns)
-        // Convert Decimal fields to Prisma Decimal type
-        const dataRecords = rows.map((row) => ({
+  /**
+   * Insert one batch of a file and record the progress
+   * 1000 rows of about 40 columns stay below the 65535 bind parameters of one statement
+   */
+  private async insertBatch(
+    snapshotId: string,
+    hotelId: string,
+    batch: ParseBatch,
+    size: number | null
+  ): Promise<void> {
+    await prisma.$transaction([
+      prisma.historyForecastData.createMany({
+        data: batch.rows.map((row) => ({
           snapshotId,
-          hotelId: snapshot.hotelId,
+          hotelId,
           stayDate: row.stayDate,
           dataType: row.dataType,
           col1: row.col1,
@@ -145,42 +334,81 @@ class SnapshotService {
           occupancyPercent: new Prisma.Decimal(row.occupancyPercent),
           adr: new Prisma.Decimal(row.adr),
           revPAR: new Prisma.Decimal(row.revPAR),
+          fields: Object.keys(row.fields).length > 0 ? row.fields : undefined,
           rowIndex: row.rowIndex,
-        }));
-
-        await tx.historyForecastData.createMany({
-          data: dataRecords,
-        });
+        })),
+      }),
+      prisma.snapshotParseIssue.createMany({
+        data: batch.issues.map((issue) => ({ ...issue, snapshotId })),
+      }),
+      prisma.historyForecastSnapshot.update({
+        where: { id: snapshotId },
+        data: {
+          progressLineCount: batch.linesRead,
+          // The last percent is set once the snapshot is complete
+          progressPercent: size ? Math.min(99, Math.floor((batch.bytesRead / size) * 100)) : null,
+        },
+      }),
+    ]);
+  }
 
-        // Update snapshot as completed
-        await tx.historyForecastSnapshot.update({
+  /**
+   * Mark snapshot as rejected by the validation policy
+   * Keeps the parse issues and line counts; the saved rows are removed
+   * @param snapshotId - Snapshot ID
+   * @param violations - Broken rules
+   * @param acceptedLineCount - Lines the parser imported
+   * @param skippedLineCount - Lines the parser skipped
+   */
+  async markSnapshotRejected(
+    snapshotId: string,
+    violations: FileValidationViolation[],
+    acceptedLineCount: number,
+    skippedLineCount: number
+  ): Promise<void> {
+    try {
+      await prisma.$transaction([
+        prisma.historyForecastData.deleteMany({ where: { snapshotId } }),
+        prisma.historyForecastSnapshot.update({
           where: { id: snapshotId },
           data: {
-            processed: true,
-            processingStatus: 'COMPLETED',
-            rowCount: rows.length,
+            processed: false,
+            processingStatus: 'REJECTED',
+            processingError: violations.map((v) => `${v.rule}: ${v.message}`).join('\n'),
+            rowCount: 0,
+            acceptedLineCount,
+            skippedLineCount,
+            progressPercent: 100,
           },
-        });
-      });
+        }),
+      ]);
 
       console.log(
-        `Successfully saved ${rows.length} rows for snapshot ${snapshotId}`
+        `Snapshot ${snapshotId} rejected: ${violations.map((v) => v.rule).join(', ')}`
       );
     } catch (error) {
-      console.error('Error saving snapshot data:', error);
-      
-      // Log full error details for debugging
-      if (error instanceof Error) {
-        console.error('Error message:', error.message);
-        console.error('Error stack:', error.stack);
-      }
-      
-      // Mark snapshot as failed
-      const errorMessage = error instanceof Error 
-        ? `${error.message}${error.stack ? `\nStack: ${error.stack}` : ''}`
-        : 'Unknown error';
-      
-      await this.markSnapshotFailed(snapshotId, errorMessage);
+      console.error('Error marking snapshot as rejected:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the parse issues of a snapshot in line order
+   * @param snapshotId - Snapshot ID
+   * @param severity - Only issues of this severity (optional)
+   * @returns Parse issues
+   */
+  async getParseIssues(
+    snapshotId: string,
+    severity?: ParseIssueSeverity
+  ): Promise<SnapshotParseIssue[]> {
+    try {
+      return await prisma.snapshotParseIssue.findMany({
+        where: { snapshotId, severity },
+        orderBy: [{ line: 'asc' }, { createdAt: 'asc' }],
+      });
+    } catch (error) {
+      console.error('Error fetching parse issues:', error);
       throw error;
     }
   }
@@ -209,6 +437,81 @@ class SnapshotService {
     }
   }
 
+  /**
+   * Reprocess a snapshot from the original file in blob storage
+   * Re-parses with the current column mapping and the hotel's current room count,
+   * replacing any previously saved rows
+   * @param snapshotId - Snapshot ID
+   * @returns Reprocess result
+   */
+  async reprocessSnapshot(snapshotId: string): Promise<ReprocessResult> {
+    const snapshot = await prisma.historyForecastSnapshot.findUnique({
+      where: { id: snapshotId },
+      include: {
+        hotel: {
+          select: {
+            totalAvailableRooms: true,
+            columnMappingProfile: { include: { fields: true } },
+          },
+        },
+      },
+    });
+
+    if (!snapshot) {
+      throw new Error(`Snapshot ${snapshotId} not found`);
+    }
+
+    try {
+      console.log(`Reprocessing snapshot ${snapshotId} (${snapshot.originalFilename})`);
+
+      // Streamed from blob storage, so large files are never held in memory
+      const blobPath = blobStorageService.getBlobPathFromUrl(snapshot.blobUrl);
+      const source = await blobStorageService.downloadStream(blobPath);
+
+      const totalAvailableRooms = snapshot.hotel.totalAvailableRooms || 0;
+      await prisma.historyForecastSnapshot.update({
+        where: { id: snapshotId },
+        data: { totalAvailableRoomsSnapshot: totalAvailableRooms },
+      });
+
+      // Hotels without a profile use the default layout
+      const { violations, driftFindings, rowCount } = await this.importSnapshotFile(
+        snapshotId,
+        source,
+        snapshot.originalFilename,
+        snapshot.hotel.columnMappingProfile ?? undefined
+      );
+
+      if (violations.length > 0) {
+        return {
+          snapshotId,
+          status: 'REJECTED',
+          error: violations.map((v) => v.message).join('; '),
+        };
+      }
+
+      return {
+        snapshotId,
+        status: 'COMPLETED',
+        rowCount,
+        driftSuspected: driftFindings.length > 0,
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Error reprocessing snapshot ${snapshotId}:`, error);
+
+      // Also covers download errors that happen before importSnapshotFile
+      await this.markSnapshotFailed(snapshotId, errorMessage);
+
+      return {
+        snapshotId,
+        status: 'FAILED',
+        error: errorMessage,
+      };
+    }
+  }
+
   /**
    * Get snapshots for a hotel
    * @param hotelId - Hotel ID
@@ -309,6 +612,7 @@ class SnapshotService {
           hotelId,
           processed: true,
           processingStatus: 'COMPLETED',
+          driftStatus: { not: 'DRIFT_SUSPECTED' },
         },
         orderBy: { snapshotTime: 'desc' },
       });
@@ -350,7 +654,7 @@ class SnapshotService {
       // Get last 7 rows with dataType='HISTORY'
       const historyData = historyRows
         .filter((row) => row.dataType === 'HISTORY')
-        .slice(-7); // Last 7 rows
+        .slice(-SEED_ACTUALS_DAYS); // Last 7 rows
 
       if (historyData.length === 0) {
         console.log('No history rows found in snapshot, skipping override');
@@ -412,6 +716,9 @@ class SnapshotService {
               occupancyPercent: new Prisma.Decimal(historyRow.occupancyPercent),
               adr: new Prisma.Decimal(historyRow.adr),
               revPAR: new Prisma.Decimal(historyRow.revPAR),
+              // Named fields are read by pickup and comparisons; clear ones the file lacks
+              fields:
+                Object.keys(historyRow.fields).length > 0 ? historyRow.fields : Prisma.DbNull,
             },
           });
           updatedCount++;
@@ -0,0 +1,169 @@
+import { prisma } from '../utils/prisma.js';
+import type {
+  ProcessingStatus,
+  SnapshotReprocessRun,
+} from '@prisma/client';
+import type { ReprocessResult } from '../types/fileProcessor.types.js';
+
+// A RUNNING run not touched for this long was interrupted (e.g. by a restart)
+const STALE_AFTER_MS = 30 * 60 * 1000;
+
+class SnapshotReprocessService {
+  /**
+   * Record a run over the snapshots of a hotel that currently have a status
+   * The snapshots are selected now, since reprocessing changes their status
+   * @param hotelId - Hotel ID
+   * @param status - Processing status to select (e.g. FAILED)
+   * @param limit - Maximum number of snapshots to reprocess
+   * @returns Created run (RUNNING)
+   */
+  async startRun(
+    hotelId: string,
+    status: ProcessingStatus,
+    limit: number = 100
+  ): Promise<SnapshotReprocessRun> {
+    try {
+      const snapshots = await prisma.historyForecastSnapshot.findMany({
+        where: { hotelId, processingStatus: status },
+        orderBy: { snapshotTime: 'asc' },
+        select: { id: true },
+        take: limit,
+      });
+
+      const run = await prisma.snapshotReprocessRun.create({
+        data: {
+          hotelId,
+          selectedStatus: status,
+          snapshotIds: snapshots.map((snapshot) => snapshot.id),
+        },
+      });
+
+      console.log(
+        `Snapshot reprocess run started: ${run.id} for hotel ${hotelId} (${snapshots.length} ${status} snapshots)`
+      );
+      return run;
+    } catch (error) {
+      console.error('Error starting snapshot reprocess run:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Running reprocess run of a hotel; one left stale by a restart is marked FAILED instead
+   * @param hotelId - Hotel ID
+   * @returns Running run or null
+   */
+  async getActiveRun(hotelId: string): Promise<SnapshotReprocessRun | null> {
+    try {
+      const running = await prisma.snapshotReprocessRun.findFirst({
+        where: { hotelId, status: 'RUNNING' },
+        orderBy: { startedAt: 'desc' },
+      });
+
+      if (running && Date.now() - running.updatedAt.getTime() > STALE_AFTER_MS) {
+        await this.failRun(running.id, 'Interrupted before it finished');
+        return null;
+      }
+      return running;
+    } catch (error) {
+      console.error('Error fetching active snapshot reprocess run:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Store the results so far and count the latest one
+   * @param runId - Run ID
+   * @param results - Results of all snapshots processed so far, latest last
+   */
+  async recordResults(runId: string, results: ReprocessResult[]): Promise<void> {
+    const latest = results[results.length - 1];
+
+    try {
+      await prisma.snapshotReprocessRun.update({
+        where: { id: runId },
+        data: {
+          processedSnapshots: results.length,
+          completed: { increment: latest.status === 'COMPLETED' ? 1 : 0 },
+          failed: { increment: latest.status === 'FAILED' ? 1 : 0 },
+          rejected: { increment: latest.status === 'REJECTED' ? 1 : 0 },
+          driftSuspected: { increment: latest.driftSuspected ? 1 : 0 },
+          results: results.map((result) => ({ ...result })),
+        },
+      });
+    } catch (error) {
+      console.error('Error recording snapshot reprocess result:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Close a run that went through all its snapshots
+   * @param runId - Run ID
+   */
+  async completeRun(runId: string): Promise<void> {
+    try {
+      await prisma.snapshotReprocessRun.update({
+        where: { id: runId },
+        data: { status: 'COMPLETED', finishedAt: new Date() },
+      });
+    } catch (error) {
+      console.error('Error completing snapshot reprocess run:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Close a run that stopped; snapshots already reprocessed keep their new state
+   * Failures are logged only, so the original error is not hidden
+   * @param runId - Run ID
+   * @param message - Error message
+   */
+  async failRun(runId: string, message: string): Promise<void> {
+    try {
+      await prisma.snapshotReprocessRun.update({
+        where: { id: runId },
+        data: { status: 'FAILED', finishedAt: new Date(), error: message },
+      });
+    } catch (error) {
+      console.error('Error failing snapshot reprocess run:', error);
+    }
+  }
+
+  /**
+   * Reprocess runs of a hotel, newest first
+   * @param hotelId - Hotel ID
+   * @param limit - Maximum number of runs
+   * @returns Runs
+   */
+  async getRunsByHotel(hotelId: string, limit: number = 50): Promise<SnapshotReprocessRun[]> {
+    try {
+      return await prisma.snapshotReprocessRun.findMany({
+        where: { hotelId },
+        orderBy: { startedAt: 'desc' },
+        take: limit,
+      });
+    } catch (error) {
+      console.error('Error fetching snapshot reprocess runs:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a reprocess run by ID
+   * @param id - Run ID
+   * @returns Run or null
+   */
+  async getRunById(id: string): Promise<SnapshotReprocessRun | null> {
+    try {
+      return await prisma.snapshotReprocessRun.findUnique({ where: { id } });
+    } catch (error) {
+      console.error('Error fetching snapshot reprocess run:', error);
+      throw error;
+    }
+  }
+}
+
+// Export singleton instance
+export const snapshotReprocessService = new SnapshotReprocessService();
+export default snapshotReprocessService;
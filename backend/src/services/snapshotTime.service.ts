@@ -0,0 +1,217 @@
+import { fileProcessorService } from './fileProcessor.service.js';
+import { detectFileFormat } from '../utils/fileFormat.js';
+import { isValidDateFormat, parseDateWithFormat } from '../utils/dateFormat.js';
+import type { Hotel } from '@prisma/client';
+import type {
+  ResolvedSnapshotTime,
+  SnapshotTimeSource,
+  SnapshotTimeStrategy,
+} from '../types/fileProcessor.types.js';
+
+// Used by hotels without a configured chain
+export const DEFAULT_SNAPSHOT_TIME_STRATEGIES: SnapshotTimeStrategy[] = [
+  { type: 'filenameTimestamp' },
+  { type: 'receivedAt' },
+];
+
+// Lines of the file searched by fileLine strategies unless configured
+const DEFAULT_MAX_LINES = 20;
+
+// Only the start of a text file is decoded for fileLine strategies
+const HEAD_BYTES = 64 * 1024;
+
+const STRATEGY_SOURCES: Record<SnapshotTimeStrategy['type'], SnapshotTimeSource> = {
+  filenameTimestamp: 'FILENAME_TIMESTAMP',
+  filenamePattern: 'FILENAME_PATTERN',
+  receivedAt: 'RECEIVED_AT',
+  fileLine: 'FILE_LINE',
+};
+
+/**
+ * File whose snapshot time is resolved
+ */
+interface SnapshotTimeInput {
+  filename: string;
+  bytes: Buffer;
+  receivedAt?: Date;
+}
+
+class SnapshotTimeService {
+  /**
+   * Snapshot time strategies of a hotel in evaluation order
+   * @param hotel - Hotel
+   * @returns Configured chain or the defaults
+   */
+  getStrategies(hotel: Hotel): SnapshotTimeStrategy[] {
+    return Array.isArray(hotel.snapshotTimeStrategies)
+      ? (hotel.snapshotTimeStrategies as unknown as SnapshotTimeStrategy[])
+      : DEFAULT_SNAPSHOT_TIME_STRATEGIES;
+  }
+
+  /**
+   * Determine the snapshot time of a file with the strategy chain of its hotel
+   * Falls back to the current time when no strategy yields a time
+   * @param hotel - Hotel the file belongs to
+   * @param file - Filename, content and receive time
+   * @returns Snapshot time and the strategy that produced it
+   */
+  async resolveSnapshotTime(
+    hotel: Hotel,
+    file: SnapshotTimeInput
+  ): Promise<ResolvedSnapshotTime> {
+    for (const strategy of this.getStrategies(hotel)) {
+      try {
+        const snapshotTime = await this.applyStrategy(strategy, file);
+        if (snapshotTime) {
+          return { snapshotTime, source: STRATEGY_SOURCES[strategy.type] };
+        }
+      } catch (error) {
+        console.warn(
+          `Snapshot time strategy ${strategy.type} failed for ${file.filename}:`,
+          error
+        );
+      }
+    }
+
+    console.warn(
+      `No snapshot time strategy matched ${file.filename}, using the upload time`
+    );
+    return { snapshotTime: new Date(), source: 'UPLOAD_TIME' };
+  }
+
+  /**
+   * Check a strategy chain before saving
+   * @param strategies - Chain from the request body
+   * @returns Error message or null if valid
+   */
+  validateStrategies(strategies: unknown): string | null {
+    if (!Array.isArray(strategies) || strategies.length === 0) {
+      return 'strategies must be a non-empty array';
+    }
+
+    for (const [index, strategy] of strategies.entries()) {
+      const label = `strategies[${index}]`;
+      if (!strategy || !(strategy.type in STRATEGY_SOURCES)) {
+        return `${label}.type must be one of ${Object.keys(STRATEGY_SOURCES).join(', ')}`;
+      }
+      if (strategy.type !== 'filenamePattern' && strategy.type !== 'fileLine') {
+        continue;
+      }
+
+      if (typeof strategy.pattern !== 'string') {
+        return `${label}.pattern is required`;
+      }
+      try {
+        // Matching the empty alternative yields one entry per capture group
+        const groups = new RegExp(`${strategy.pattern}|`).exec('')!.length - 1;
+        if (groups === 0) {
+          return `${label}.pattern must capture the date in a group`;
+        }
+      } catch {
+        return `${label}.pattern is not a valid regular expression`;
+      }
+      if (typeof strategy.format !== 'string' || !isValidDateFormat(strategy.format)) {
+        return `${label}.format must contain year, month and day tokens (e.g. yyyyMMdd)`;
+      }
+      if (
+        strategy.type === 'fileLine' &&
+        strategy.maxLines !== undefined &&
+        (!Number.isInteger(strategy.maxLines) || strategy.maxLines < 1)
+      ) {
+        return `${label}.maxLines must be a positive integer`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Run one strategy
+   * @returns Snapshot time or null if the strategy does not apply to the file
+   */
+  private async applyStrategy(
+    strategy: SnapshotTimeStrategy,
+    file: SnapshotTimeInput
+  ): Promise<Date | null> {
+    switch (strategy.type) {
+      case 'filenameTimestamp':
+        return this.parseFilenameTimestamp(file.filename);
+      case 'filenamePattern':
+        return this.matchDate(file.filename, strategy.pattern, strategy.format);
+      case 'receivedAt':
+        return file.receivedAt ?? null;
+      case 'fileLine': {
+        const lines = await this.readLeadingLines(
+          file,
+          strategy.maxLines ?? DEFAULT_MAX_LINES
+        );
+        for (const line of lines) {
+          const date = this.matchDate(line, strategy.pattern, strategy.format);
+          if (date) {
+            return date;
+          }
+        }
+        return null;
+      }
+    }
+  }
+
+  /**
+   * Read the timestamp of "history_forecast<timestamp>" filenames
+   * Example: "history_forecast1730419200.txt" (seconds or milliseconds)
+   */
+  private parseFilenameTimestamp(filename: string): Date | null {
+    const match = filename.match(/history_forecast(\d+)/i);
+    if (!match) {
+      return null;
+    }
+
+    const timestamp = parseInt(match[1], 10);
+    if (timestamp > 1000000000 && timestamp < 9999999999) {
+      // Likely seconds
+      return new Date(timestamp * 1000);
+    }
+    if (timestamp > 1000000000000) {
+      // Likely milliseconds
+      return new Date(timestamp);
+    }
+
+    return null;
+  }
+
+  /**
+   * Find a date with a regex and read its first capture group with a format
+   */
+  private matchDate(text: string, pattern: string, format: string): Date | null {
+    const match = text.match(new RegExp(pattern, 'i'));
+    return match?.[1] ? parseDateWithFormat(match[1], format) : null;
+  }
+
+  /**
+   * First lines of a file as text (cells of spreadsheets joined by tabs)
+   */
+  private async readLeadingLines(
+    file: SnapshotTimeInput,
+    maxLines: number
+  ): Promise<string[]> {
+    const format = detectFileFormat(file.bytes, file.filename);
+
+    if (format === 'xlsx') {
+      const rows = await fileProcessorService.readHead(file.bytes, file.filename, maxLines);
+      return rows.map((row) => row.join('\t'));
+    }
+    if (format === 'tsv' || format === 'csv') {
+      return file.bytes
+        .subarray(0, HEAD_BYTES)
+        .toString('utf-8')
+        .split(/\r?\n/)
+        .slice(0, maxLines);
+    }
+
+    return [];
+  }
+}
+
+// Export singleton instance
+export const snapshotTimeService = new SnapshotTimeService();
+export default snapshotTimeService;
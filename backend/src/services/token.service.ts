@@ -1,71 +1,231 @@
 import fs from 'fs';
 import path from 'path';
+import crypto from 'crypto';
 import axios from 'axios';
+import { config } from '../config/index.js';
+import { prisma } from '../utils/prisma.js';
+import { encrypt, decrypt } from '../utils/encryption.js';
+import type { MailboxCredential } from '@prisma/client';
 
-const tokenPath = path.resolve('token.json');
+const GRAPH_SCOPES = 'offline_access User.Read Mail.Read Mail.ReadWrite Mail.Send';
+
+// The connect flow has to be completed within this time
+const STATE_TTL_MS = 10 * 60 * 1000;
+
+// Refresh a little before the access token actually expires
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+// Tokens of older installations; imported into the database once
+const legacyTokenPath = path.resolve('token.json');
 
 interface TokenData {
   access_token: string;
-  refresh_token: string;
+  refresh_token?: string;
   token_type: string;
   expires_in: number;
   scope: string;
 }
 
+interface CachedAccessToken {
+  token: string;
+  expiresAt: number;
+}
+
 class TokenService {
+  // Access tokens per credential
+  private cachedTokens = new Map<string, CachedAccessToken>();
+
   /**
-   * Get a valid access token (refresh if needed)
+   * Build the Microsoft sign-in URL for connecting a mailbox
+   * The state is encrypted instead of stored, so any instance can handle the callback
+   * @returns Authorization URL to redirect the admin to
    */
-  async getAccessToken(): Promise<string> {
-    // Check if token file exists
-    if (!fs.existsSync(tokenPath)) {
-      throw new Error(
-        'token.json not found. Please run the authentication setup first.'
+  getAuthorizationUrl(): string {
+    const state = encrypt(
+      JSON.stringify({
+        nonce: crypto.randomUUID(),
+        expiresAt: Date.now() + STATE_TTL_MS,
+      }),
+      config.graph.tokenEncryptionKey
+    );
+
+    const params = new URLSearchParams({
+      client_id: config.graph.clientId,
+      response_type: 'code',
+      redirect_uri: config.graph.redirectUri,
+      response_mode: 'query',
+      scope: GRAPH_SCOPES,
+      state,
+      prompt: 'select_account',
+    });
+
+    return `${this.getAuthorityUrl()}/authorize?${params.toString()}`;
+  }
+
+  /**
+   * Check the state returned to the callback
+   * @param state - State query parameter
+   * @returns True if the state was issued by getAuthorizationUrl() and has not expired
+   */
+  isValidState(state: string): boolean {
+    try {
+      const { expiresAt } = JSON.parse(
+        decrypt(state, config.graph.tokenEncryptionKey)
       );
+      return typeof expiresAt === 'number' && expiresAt > Date.now();
+    } catch {
+      return false;
     }
+  }
+
+  /**
+   * Exchange the authorization code and store the encrypted refresh token
+   * Connecting an account again replaces its stored token
+   * @param code - Authorization code from the callback
+   * @returns Stored credential
+   */
+  async completeAuthorization(code: string): Promise<MailboxCredential> {
+    const tokens = await this.requestTokens({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: config.graph.redirectUri,
+    });
 
-    // Read stored tokens
-    const tokens: TokenData = JSON.parse(fs.readFileSync(tokenPath, 'utf8'));
-    
     if (!tokens.refresh_token) {
-      throw new Error('No refresh token found. Please run authentication setup.');
+      throw new Error('No refresh token returned (offline_access not granted)');
+    }
+
+    const accountEmail = await this.getAccountEmail(tokens.access_token);
+    const encryptedRefreshToken = encrypt(
+      tokens.refresh_token,
+      config.graph.tokenEncryptionKey
+    );
+
+    const credential = await prisma.mailboxCredential.upsert({
+      where: { accountEmail },
+      create: { accountEmail, encryptedRefreshToken, scope: tokens.scope },
+      update: {
+        encryptedRefreshToken,
+        scope: tokens.scope,
+        connectedAt: new Date(),
+      },
+    });
+
+    this.cacheToken(credential.id, tokens);
+    console.log(`✅ Mailbox ${accountEmail} connected`);
+    return credential;
+  }
+
+  /**
+   * Get a valid access token for a connected mailbox (refresh if needed)
+   * @param credentialId - Credential of the mailbox
+   */
+  async getAccessToken(credentialId: string): Promise<string> {
+    const cached = this.cachedTokens.get(credentialId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.token;
+    }
+
+    const credential = await prisma.mailboxCredential.findUnique({
+      where: { id: credentialId },
+    });
+    if (!credential) {
+      throw new Error(
+        'Mailbox credential not found. Open /api/mailboxes/connect to connect the mailbox again.'
+      );
     }
 
+    const refreshToken = decrypt(
+      credential.encryptedRefreshToken,
+      config.graph.tokenEncryptionKey
+    );
+
     // Refresh the access token
-    return await this.refreshAccessToken(tokens.refresh_token);
+    const tokens = await this.requestTokens({
+      grant_type: 'refresh_token',
+      refresh_token: refreshToken,
+      redirect_uri: config.graph.redirectUri,
+    });
+
+    // Save updated tokens (keep the new refresh token)
+    await prisma.mailboxCredential.update({
+      where: { id: credential.id },
+      data: {
+        encryptedRefreshToken: tokens.refresh_token
+          ? encrypt(tokens.refresh_token, config.graph.tokenEncryptionKey)
+          : undefined,
+        lastRefreshedAt: new Date(),
+      },
+    });
+    console.log(`✅ Access token of ${credential.accountEmail} refreshed successfully`);
+
+    this.cacheToken(credential.id, tokens);
+    return tokens.access_token;
+  }
+
+  /**
+   * Check if any mailbox is connected
+   */
+  async hasToken(): Promise<boolean> {
+    const count = await prisma.mailboxCredential.count();
+    return count > 0 || fs.existsSync(legacyTokenPath);
   }
 
   /**
-   * Refresh access token using refresh token
+   * Move the refresh token of an existing token.json into the database
+   * @param accountEmail - Mailbox the token belongs to
+   * @returns Stored credential or null if there is no usable token file
    */
-  private async refreshAccessToken(refreshToken: string): Promise<string> {
-    const params = new URLSearchParams();
-    params.append('client_id', process.env.MS_GRAPH_CLIENT_ID || '');
-    params.append('scope', 'offline_access Mail.Read Mail.ReadWrite');
-    params.append('refresh_token', refreshToken);
-    params.append('redirect_uri', process.env.REDIRECT_URI || '');
-    params.append('grant_type', 'refresh_token');
-    params.append('client_secret', process.env.MS_GRAPH_CLIENT_SECRET || '');
-
-    const tokenUrl =
-      'https://login.microsoftonline.com/consumers/oauth2/v2.0/token';
+  async importLegacyTokenFile(
+    accountEmail: string
+  ): Promise<MailboxCredential | null> {
+    if (!fs.existsSync(legacyTokenPath)) {
+      return null;
+    }
+
+    const tokens: TokenData = JSON.parse(fs.readFileSync(legacyTokenPath, 'utf8'));
+    if (!tokens.refresh_token) {
+      return null;
+    }
+
+    const credential = await prisma.mailboxCredential.create({
+      data: {
+        accountEmail: accountEmail.toLowerCase(),
+        encryptedRefreshToken: encrypt(
+          tokens.refresh_token,
+          config.graph.tokenEncryptionKey
+        ),
+        scope: tokens.scope || GRAPH_SCOPES,
+      },
+    });
+
+    console.warn(
+      `⚠ Imported ${legacyTokenPath} into the database; delete the file from the server`
+    );
+    return credential;
+  }
+
+  /**
+   * Call the token endpoint (authorization code or refresh token grant)
+   */
+  private async requestTokens(grant: Record<string, string>): Promise<TokenData> {
+    const params = new URLSearchParams({
+      ...grant,
+      client_id: config.graph.clientId,
+      client_secret: config.graph.clientSecret,
+      scope: GRAPH_SCOPES,
+    });
 
     try {
-      const response = await axios.post(tokenUrl, params, {
+      const response = await axios.post(`${this.getAuthorityUrl()}/token`, params, {
         headers: {
           'Content-Type': 'application/x-www-form-urlencoded',
         },
       });
 
-      const newTokens: TokenData = response.data;
-
-      // Save updated tokens (keep the new refresh token)
-      fs.writeFileSync(tokenPath, JSON.stringify(newTokens, null, 2));
-      console.log('✅ Access token refreshed successfully');
-
-      return newTokens.access_token;
+      return response.data;
     } catch (error) {
-      console.error('❌ Failed to refresh token:');
+      console.error(`❌ Failed to get tokens (${grant.grant_type}):`);
       if (axios.isAxiosError(error) && error.response) {
         console.error('Status:', error.response.status);
         console.error('Status Text:', error.response.statusText);
@@ -76,26 +236,43 @@ class TokenService {
       } else {
         console.error('Error:', error instanceof Error ? error.message : error);
       }
-      throw new Error('Failed to refresh access token');
+      throw new Error(
+        grant.grant_type === 'refresh_token'
+          ? 'Failed to refresh access token'
+          : 'Failed to exchange authorization code'
+      );
     }
   }
 
   /**
-   * Check if token file exists
+   * Address of the signed-in account
    */
-  hasToken(): boolean {
-    return fs.existsSync(tokenPath);
+  private async getAccountEmail(accessToken: string): Promise<string> {
+    const response = await axios.get(
+      'https://graph.microsoft.com/v1.0/me?$select=mail,userPrincipalName',
+      { headers: { Authorization: `Bearer ${accessToken}` } }
+    );
+
+    const address: string | undefined =
+      response.data.mail || response.data.userPrincipalName;
+    if (!address) {
+      throw new Error('Could not determine the address of the connected mailbox');
+    }
+
+    return address.toLowerCase();
   }
 
-  /**
-   * Save initial tokens (used during first-time setup)
-   */
-  saveTokens(tokens: TokenData): void {
-    fs.writeFileSync(tokenPath, JSON.stringify(tokens, null, 2));
-    console.log('✅ Tokens saved successfully');
+  private cacheToken(credentialId: string, tokens: TokenData): void {
+    this.cachedTokens.set(credentialId, {
+      token: tokens.access_token,
+      expiresAt: Date.now() + tokens.expires_in * 1000 - EXPIRY_MARGIN_MS,
+    });
+  }
+
+  private getAuthorityUrl(): string {
+    return `https://login.microsoftonline.com/${config.graph.tenantId}/oauth2/v2.0`;
   }
 }
 
 export const tokenService = new TokenService();
 export default tokenService;
-
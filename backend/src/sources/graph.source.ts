@@ -0,0 +1,169 @@
+import { emailService } from '../services/email.service.js';
+import { processedEmailService } from '../services/processedEmail.service.js';
+import { attachmentQueueService } from '../services/attachmentQueue.service.js';
+import { mailboxSyncService } from '../services/mailboxSync.service.js';
+import { mailboxService } from '../services/mailbox.service.js';
+import { pickOutcomeFolder } from '../config/outcomeFolders.js';
+import type { Mailbox } from '@prisma/client';
+import type { EmailSyncResult } from '../types/fileProcessor.types.js';
+import type {
+  IngestionOutcome,
+  IngestionSource,
+  SourceItem,
+} from '../types/ingestion.types.js';
+
+/**
+ * Ingestion source backed by Microsoft Graph mailboxes (Outlook)
+ * Uses a delta query, so read flags set by people in the mailbox do not matter.
+ * The registered instance covers all enabled mailboxes; the scheduler polls
+ * each mailbox through its own instance (see forMailbox()).
+ */
+class GraphIngestionSource implements IngestionSource {
+  readonly name = 'graph';
+
+  // Delta links of the current sync per mailbox, stored once all items are enqueued
+  private pendingDeltaLinks = new Map<string, string>();
+
+  /**
+   * @param mailbox - Only poll this mailbox (default: all enabled mailboxes)
+   */
+  constructor(private readonly mailbox: Mailbox | null = null) {}
+
+  /**
+   * Get a source that polls a single mailbox
+   * @param mailbox - Mailbox to poll
+   * @returns Source instance for the mailbox
+   */
+  forMailbox(mailbox: Mailbox): GraphIngestionSource {
+    return new GraphIngestionSource(mailbox);
+  }
+
+  /**
+   * Fetch attachments of all new emails in the mailbox(es)
+   * @returns One item per file attachment
+   */
+  async fetchItems(): Promise<SourceItem[]> {
+    const mailboxes = this.mailbox
+      ? [this.mailbox]
+      : await mailboxService.getEnabledMailboxes();
+    const items: SourceItem[] = [];
+
+    for (const mailbox of mailboxes) {
+      const { emails, deltaLink } = await this.sync(mailbox);
+      this.pendingDeltaLinks.set(mailboxService.getSyncKey(mailbox), deltaLink);
+
+      for (const email of emails) {
+        // Changed messages (e.g. marked as read) show up in the delta again
+        if (
+          (await processedEmailService.isEmailProcessed(email.messageId)) ||
+          (await attachmentQueueService.isQueued(this.name, email.messageId))
+        ) {
+          continue;
+        }
+
+        const attachments = await emailService.getAttachments(
+          mailbox,
+          email.messageId
+        );
+
+        for (const attachment of attachments) {
+          items.push({
+            source: this.name,
+            externalId: email.messageId,
+            hotelHint: {
+              senderEmail: email.sender,
+              subject: email.subject,
+            },
+            filename: attachment.name,
+            bytes: attachment.contentBytes,
+            receivedAt: email.receivedAt,
+            mailboxId: mailbox.id,
+          });
+        }
+      }
+    }
+
+    return items;
+  }
+
+  /**
+   * Store the delta links, so the next sync only returns newer changes
+   */
+  async commit(): Promise<void> {
+    for (const [key, deltaLink] of this.pendingDeltaLinks) {
+      await mailboxSyncService.saveDeltaLink(key, deltaLink);
+    }
+    this.pendingDeltaLinks.clear();
+  }
+
+  /**
+   * Run the delta query, starting over when the stored delta link expired
+   */
+  private async sync(mailbox: Mailbox): Promise<EmailSyncResult> {
+    const key = mailboxService.getSyncKey(mailbox);
+    const deltaLink = await mailboxSyncService.getDeltaLink(key);
+
+    try {
+      return await emailService.syncMessages(mailbox, deltaLink);
+    } catch (error) {
+      // Graph answers 410 Gone when the sync state is no longer available
+      if (deltaLink && (error as { statusCode?: number }).statusCode === 410) {
+        console.warn(`Delta link of ${mailbox.address} expired, starting a new sync`);
+        await mailboxSyncService.resetDeltaLink(key);
+        return emailService.syncMessages(mailbox, null);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Mark the email as read once its file is queued (for people using the mailbox)
+   * @param item - Ingested item
+   */
+  async acknowledge(item: SourceItem): Promise<void> {
+    const mailbox = await mailboxService.getItemMailbox(item.mailboxId);
+    if (!mailbox) {
+      throw new Error(`Mailbox of ${item.filename} no longer exists`);
+    }
+
+    await emailService.markAsProcessed(mailbox, item.externalId);
+  }
+
+  /**
+   * Move the message into the folder of its outcome once all of its attachments
+   * are done, so a human can triage failures from Outlook
+   * @param item - Finished item
+   * @param outcome - Final outcome of the item
+   */
+  async complete(item: SourceItem, outcome: IngestionOutcome): Promise<void> {
+    const outcomes = await attachmentQueueService.getMessageOutcomes(
+      this.name,
+      item.externalId
+    );
+    if (!outcomes) {
+      // Other attachments of the message are still queued
+      return;
+    }
+
+    const mailbox = await mailboxService.getItemMailbox(item.mailboxId);
+    if (!mailbox?.folderingEnabled) {
+      return;
+    }
+
+    // Items finished before queueing (e.g. broken archives) have no queue rows
+    const folder = pickOutcomeFolder(outcomes.length > 0 ? outcomes : [outcome]);
+    if (!folder) {
+      return;
+    }
+
+    await emailService.moveToFolder(
+      mailbox,
+      item.externalId,
+      mailboxService.getFolderName(mailbox, folder)
+    );
+  }
+}
+
+// Export singleton instance
+export const graphIngestionSource = new GraphIngestionSource();
+export default graphIngestionSource;
@@ -0,0 +1,174 @@
+import { ImapFlow } from 'imapflow';
+import { simpleParser } from 'mailparser';
+import { config } from '../config/index.js';
+import type {
+  IngestionOutcome,
+  IngestionSource,
+  SourceItem,
+} from '../types/ingestion.types.js';
+
+/**
+ * Ingestion source for plain IMAP mailboxes (non-Outlook SMTP senders)
+ */
+class ImapIngestionSource implements IngestionSource {
+  readonly name = 'imap';
+
+  // Connection of the current poll, kept until close()
+  private session: { client: ImapFlow; release: () => void } | null = null;
+
+  /**
+   * Connection of the current poll with the configured mailbox locked
+   * A new one is opened on first use or if the previous one dropped
+   */
+  private async openMailbox(): Promise<ImapFlow> {
+    if (this.session?.client.usable) {
+      return this.session.client;
+    }
+    await this.close();
+
+    const { host, port, secure, user, password, mailbox } =
+      config.ingestion.imap;
+
+    if (!host || !user) {
+      throw new Error('IMAP source enabled but IMAP_HOST/IMAP_USER not set');
+    }
+
+    const client = new ImapFlow({
+      host,
+      port,
+      secure,
+      auth: { user, pass: password },
+      logger: false,
+    });
+
+    await client.connect();
+    const lock = await client.getMailboxLock(mailbox);
+    this.session = { client, release: () => lock.release() };
+    return client;
+  }
+
+  /**
+   * Release the mailbox and log out once the poll is over
+   */
+  async close(): Promise<void> {
+    const session = this.session;
+    this.session = null;
+    if (!session) {
+      return;
+    }
+
+    try {
+      session.release();
+      await session.client.logout();
+    } catch (error) {
+      // The server may already have dropped the connection
+      console.warn('Error closing IMAP connection:', error);
+    }
+  }
+
+  /**
+   * Fetch attachments of all unseen messages in the mailbox
+   * @returns One item per attachment
+   */
+  async fetchItems(): Promise<SourceItem[]> {
+    try {
+      const client = await this.openMailbox();
+      const uidValidity = this.getUidValidity(client);
+
+      const uids = await client.search({ seen: false }, { uid: true });
+      if (!uids || uids.length === 0) {
+        return [];
+      }
+
+      const items: SourceItem[] = [];
+
+      for await (const message of client.fetch(
+        uids,
+        { uid: true, source: true, internalDate: true },
+        { uid: true }
+      )) {
+        if (!message.source) {
+          continue;
+        }
+
+        const parsed = await simpleParser(message.source);
+        const sender = parsed.from?.value[0]?.address || '';
+        const receivedAt = message.internalDate
+          ? new Date(message.internalDate)
+          : parsed.date || new Date();
+
+        for (const attachment of parsed.attachments) {
+          if (!attachment.filename) {
+            continue;
+          }
+
+          items.push({
+            source: this.name,
+            externalId: this.buildExternalId(uidValidity, message.uid),
+            hotelHint: {
+              senderEmail: sender,
+              subject: parsed.subject || '',
+            },
+            filename: attachment.filename,
+            bytes: attachment.content,
+            receivedAt,
+          });
+        }
+      }
+
+      console.log(`Found ${items.length} attachment(s) in IMAP mailbox`);
+      return items;
+    } catch (error) {
+      console.error('Error fetching IMAP messages:', error);
+      await this.close();
+      throw error;
+    }
+  }
+
+  /**
+   * Flag the message as seen once its file is stored in blob storage
+   * Uses the poll's connection; see close()
+   * @param item - Ingested item
+   */
+  async acknowledge(item: SourceItem): Promise<void> {
+    const [uidValidity, uid] = item.externalId.split('/').slice(-2);
+
+    const client = await this.openMailbox();
+    if (this.getUidValidity(client) !== uidValidity) {
+      // The mailbox was recreated; the UID now belongs to another message
+      console.warn(`IMAP mailbox changed since ${item.externalId} was fetched, not flagging it`);
+      return;
+    }
+
+    await client.messageFlagsAdd([Number(uid)], ['\\Seen'], { uid: true });
+    console.log(`IMAP message ${uid} flagged as seen`);
+  }
+
+  /**
+   * Messages stay in the mailbox; nothing to do once processing finished
+   */
+  async complete(_item: SourceItem, _outcome: IngestionOutcome): Promise<void> {
+    return;
+  }
+
+  /**
+   * UIDVALIDITY of the locked mailbox; UIDs are only unique together with it
+   */
+  private getUidValidity(client: ImapFlow): string {
+    return client.mailbox ? String(client.mailbox.uidValidity) : '0';
+  }
+
+  /**
+   * Build an external ID that is unique across mailboxes, and across a mailbox
+   * being deleted and recreated (which restarts its UIDs)
+   * Format: imap:<user>/<mailbox>/<uidValidity>/<uid>
+   */
+  private buildExternalId(uidValidity: string, uid: number): string {
+    const { user, mailbox } = config.ingestion.imap;
+    return `imap:${user}/${mailbox}/${uidValidity}/${uid}`;
+  }
+}
+
+// Export singleton instance
+export const imapIngestionSource = new ImapIngestionSource();
+export default imapIngestionSource;
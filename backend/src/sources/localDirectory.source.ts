@@ -0,0 +1,181 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { config } from '../config/index.js';
+import { pickOutcomeFolder } from '../config/outcomeFolders.js';
+import { attachmentQueueService } from '../services/attachmentQueue.service.js';
+import type {
+  FetchedItem,
+  HotelHint,
+  IngestionOutcome,
+  IngestionSource,
+  SourceItem,
+} from '../types/ingestion.types.js';
+
+const PROCESSED_DIR = 'processed';
+const FAILED_DIR = 'failed';
+
+/**
+ * Ingestion source that reads files from a local watch folder (e.g. an SFTP share)
+ *
+ * Expected layout: <WATCH_FOLDER_PATH>/<hotel email or hotel ID>/<file>
+ * Handled files are moved to processed/ or failed/ inside the hotel folder.
+ */
+class LocalDirectoryIngestionSource implements IngestionSource {
+  readonly name = 'directory';
+
+  /**
+   * Absolute path of the watch folder
+   */
+  getRootDir(): string {
+    return path.resolve(config.ingestion.watchFolder.path);
+  }
+
+  /**
+   * List the files matching the filename pattern in the per-hotel subfolders
+   * Files are read when the job gets to them; files already queued (waiting to be
+   * moved once processed) are left out, so they are not read again on every poll
+   * @returns One item per new file
+   */
+  async fetchItems(): Promise<FetchedItem[]> {
+    const rootDir = this.getRootDir();
+    const pattern = new RegExp(config.ingestion.watchFolder.filePattern, 'i');
+    const items: FetchedItem[] = [];
+
+    try {
+      const hotelDirs = await fs.readdir(rootDir, { withFileTypes: true });
+
+      for (const hotelDir of hotelDirs) {
+        if (!hotelDir.isDirectory()) {
+          continue;
+        }
+
+        const hotelPath = path.join(rootDir, hotelDir.name);
+        const entries = await fs.readdir(hotelPath, { withFileTypes: true });
+
+        for (const entry of entries) {
+          // processed/ and failed/ are directories, so only new files are picked up
+          if (!entry.isFile() || !pattern.test(entry.name)) {
+            continue;
+          }
+
+          const filePath = path.join(hotelPath, entry.name);
+          const stats = await fs.stat(filePath);
+          // Include mtime so a new file with a reused name is picked up again
+          const externalId = `file:${path.relative(rootDir, filePath)}@${stats.mtimeMs}`;
+
+          if (await attachmentQueueService.isQueued(this.name, externalId)) {
+            continue;
+          }
+
+          items.push({
+            source: this.name,
+            externalId,
+            hotelHint: this.buildHotelHint(hotelDir.name),
+            filename: entry.name,
+            bytes: () => fs.readFile(filePath),
+            receivedAt: stats.mtime,
+          });
+        }
+      }
+
+      console.log(`Found ${items.length} file(s) in ${rootDir}`);
+      return items;
+    } catch (error) {
+      console.error(`Error reading watch folder ${rootDir}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Files are moved once processing finished, see complete()
+   */
+  async acknowledge(_item: SourceItem): Promise<void> {
+    return;
+  }
+
+  /**
+   * Move the file to processed/ or failed/ once all files expanded from it are done
+   * Outcomes are weighed like the folders of a mail message: one failed file of
+   * an archive sends the whole archive to failed/
+   * @param item - Ingested item
+   * @param outcome - Pipeline outcome
+   */
+  async complete(item: SourceItem, outcome: IngestionOutcome): Promise<void> {
+    const outcomes = await attachmentQueueService.getMessageOutcomes(
+      this.name,
+      item.externalId
+    );
+    if (!outcomes) {
+      // Other files of the archive are still queued
+      return;
+    }
+
+    // Items finished before queueing (e.g. broken archives) have no queue rows
+    const folder = pickOutcomeFolder(outcomes.length > 0 ? outcomes : [outcome]);
+    if (!folder) {
+      return;
+    }
+
+    const handled = folder === 'processed' || folder === 'duplicate';
+    const filePath = this.getFilePath(item);
+    const targetDir = path.join(
+      path.dirname(filePath),
+      handled ? PROCESSED_DIR : FAILED_DIR
+    );
+
+    // The file may already have been moved, e.g. when a run found it already processed
+    if (!(await this.exists(filePath))) {
+      return;
+    }
+
+    try {
+      await fs.mkdir(targetDir, { recursive: true });
+
+      // Never overwrite an earlier file with the same name
+      const filename = path.basename(filePath);
+      let targetPath = path.join(targetDir, filename);
+      if (await this.exists(targetPath)) {
+        targetPath = path.join(targetDir, `${Date.now()}_${filename}`);
+      }
+
+      await fs.rename(filePath, targetPath);
+      console.log(`Moved ${filename} to ${targetPath}`);
+    } catch (error) {
+      console.error(`Error moving ${filePath} after processing:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Recover the absolute file path from the external ID
+   */
+  private getFilePath(item: SourceItem): string {
+    const relativePath = item.externalId.slice(
+      'file:'.length,
+      item.externalId.lastIndexOf('@')
+    );
+    return path.join(this.getRootDir(), relativePath);
+  }
+
+  private async exists(filePath: string): Promise<boolean> {
+    try {
+      await fs.access(filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Subfolder names containing "@" are treated as hotel emails, anything else as hotel IDs
+   */
+  private buildHotelHint(folderName: string): HotelHint {
+    return folderName.includes('@')
+      ? { senderEmail: folderName }
+      : { hotelId: folderName };
+  }
+}
+
+// Export singleton instance
+export const localDirectoryIngestionSource = new LocalDirectoryIngestionSource();
+export default localDirectoryIngestionSource;
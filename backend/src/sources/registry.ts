@@ -0,0 +1,56 @@
+import { config } from '../config/index.js';
+import type { IngestionSource } from '../types/ingestion.types.js';
+import { graphIngestionSource } from './graph.source.js';
+import { imapIngestionSource } from './imap.source.js';
+import { localDirectoryIngestionSource } from './localDirectory.source.js';
+
+class IngestionSourceRegistry {
+  private sources = new Map<string, IngestionSource>();
+
+  /**
+   * Register an ingestion source under its name
+   * @param source - Source implementation
+   */
+  register(source: IngestionSource): void {
+    if (this.sources.has(source.name)) {
+      throw new Error(`Ingestion source '${source.name}' is already registered`);
+    }
+    this.sources.set(source.name, source);
+  }
+
+  /**
+   * Get a registered source by name
+   * @param name - Source name
+   * @returns Source or undefined
+   */
+  get(name: string): IngestionSource | undefined {
+    return this.sources.get(name);
+  }
+
+  /**
+   * Get the sources enabled through INGESTION_SOURCES
+   * @returns Enabled sources (unknown names are logged and ignored)
+   */
+  getEnabledSources(): IngestionSource[] {
+    const enabled: IngestionSource[] = [];
+
+    for (const name of config.ingestion.sources) {
+      const source = this.sources.get(name);
+      if (source) {
+        enabled.push(source);
+      } else {
+        console.warn(`Unknown ingestion source '${name}' in INGESTION_SOURCES, ignoring`);
+      }
+    }
+
+    return enabled;
+  }
+}
+
+// Export singleton instance with built-in sources registered
+export const ingestionSourceRegistry = new IngestionSourceRegistry();
+ingestionSourceRegistry.register(graphIngestionSource);
+ingestionSourceRegistry.register(imapIngestionSource);
+ingestionSourceRegistry.register(localDirectoryIngestionSource);
+
+export default ingestionSourceRegistry;
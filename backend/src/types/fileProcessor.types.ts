@@ -1,3 +1,12 @@
+import type {
+  DecimalSeparator,
+  FieldValueType,
+  ParseIssueSeverity,
+  SnapshotTimeSource,
+} from '@prisma/client';
+
+export type { DecimalSeparator, FieldValueType, ParseIssueSeverity, SnapshotTimeSource };
+
 export interface ParsedRow {
   dataType: 'HISTORY' | 'FORECAST';
   stayDate: Date;
@@ -35,16 +44,183 @@ export interface ParsedRow {
   col30: string;  // Column 30
   
   // Parsed numeric values (for calculations and backward compatibility)
-  roomNights: number;   // Parsed from col3
-  roomRevenue: number;  // Parsed from col10
-  ooRooms: number;     // Parsed from col15
+  roomNights: number;   // Parsed from col3 (or the column of the mapping profile)
+  roomRevenue: number;  // Parsed from col10 (or the column of the mapping profile)
+  ooRooms: number;     // Parsed from col15 (or the column of the mapping profile)
   
   // 3 calculated metrics
   occupancyPercent: number;
   adr: number;
   revPAR: number;
+
+  // Named fields of the hotel's field dictionary, keyed by field key
+  fields: NamedFields;
   
   rowIndex: number;
+  line: number; // 1-based line in the file
+}
+
+export type NamedFields = Record<string, number | string | null>;
+
+/**
+ * A line that could not be parsed (1-based line number in the file)
+ */
+export interface SkippedLine {
+  line: number;
+  reason: string;
+}
+
+/**
+ * Rules a line can break; ERROR issues skip the line, WARNING issues keep it
+ */
+export type ParseIssueRule =
+  | 'MIN_COLUMNS'
+  | 'MISSING_KEY_VALUE'
+  | 'INVALID_STAY_DATE'
+  | 'UNKNOWN_DATA_TYPE'
+  | 'NON_NUMERIC_VALUE'
+  | 'DUPLICATE_STAY_DATE'
+  | 'PARSE_ERROR';
+
+/**
+ * Problem found on a line (stored as SnapshotParseIssue)
+ */
+export interface ParseIssue {
+  line: number;
+  severity: ParseIssueSeverity;
+  rule: ParseIssueRule;
+  excerpt: string;
+  message: string;
+}
+
+/**
+ * Rooms available on a stay date (the hotel's inventory periods over its room count)
+ */
+export type RoomCapacity = (stayDate: Date) => number;
+
+/**
+ * Fields of a room inventory period (create / update)
+ */
+export interface RoomInventoryPeriodInput {
+  fromDate?: Date;
+  toDate?: Date | null;
+  rooms?: number;
+  note?: string | null;
+}
+
+/**
+ * Room count and inventory periods of a hotel at one time (stored with a recompute)
+ */
+export type CapacityRules = {
+  totalAvailableRooms: number;
+  periods: { fromDate: string; toDate: string | null; rooms: number }[]; // YYYY-MM-DD
+};
+
+/**
+ * Stay dates and audit details of a metric recompute
+ */
+export interface MetricRecomputeInput {
+  from?: Date; // First stay date; the earliest if omitted
+  to?: Date; // Last stay date (inclusive); the latest if omitted
+  requestedBy?: string;
+  reason?: string;
+}
+
+/**
+ * Rows and issues handed over while a file is streamed, with the progress so far
+ */
+export interface ParseBatch {
+  rows: ParsedRow[];
+  issues: ParseIssue[];
+  linesRead: number;
+  bytesRead: number;
+}
+
+/**
+ * Outcome of a streamed parse; rows and issues went to the batch handler instead
+ */
+export interface StreamParseResult {
+  rowCount: number;
+  skippedLineCount: number;
+  skippedLines: SkippedLine[]; // The first skipped lines only
+  locale: ParseLocale;
+  headerLine: number | null;
+  fingerprint: FileFingerprint;
+}
+
+/**
+ * Date and number format a file was read with (after auto-detection)
+ */
+export interface ParseLocale {
+  dateFormat: string;
+  decimalSeparator: Exclude<DecimalSeparator, 'AUTO'>;
+  detected: boolean; // At least one of the two was detected from the file
+}
+
+/**
+ * Where the key values are found in a file (see ColumnMappingProfile)
+ * Column numbers start at 1 after the leading column, if it is skipped
+ */
+export interface ColumnMapping {
+  skipLeadingColumn: boolean;
+  minColumnCount: number;
+  dataTypeColumn: number;
+  stayDateColumn: number;
+  roomNightsColumn: number;
+  roomRevenueColumn: number;
+  ooRoomsColumn: number;
+  dateFormat: string; // Tokens yyyy yy MM M dd d, or AUTO_DATE_FORMAT; a weekday name may precede or follow
+  decimalSeparator: DecimalSeparator;
+  fields?: FieldDefinition[];
+}
+
+/**
+ * Meaning of a raw column (field dictionary entry of a mapping profile)
+ */
+export interface FieldDefinition {
+  column: number;
+  key: string;
+  label: string;
+  valueType: FieldValueType;
+  unit?: string | null;
+}
+
+/**
+ * Profile fields holding the column of a key value
+ */
+export type KeyColumnField =
+  | 'dataTypeColumn'
+  | 'stayDateColumn'
+  | 'roomNightsColumn'
+  | 'roomRevenueColumn'
+  | 'ooRoomsColumn';
+
+/**
+ * A header cell (column numbers start at 1 with column 0 of the file)
+ */
+export interface HeaderColumn {
+  column: number;
+  header: string;
+}
+
+/**
+ * Column mapping built from the header row of a file
+ */
+export interface HeaderMappingResult {
+  headerLine: number | null;
+  profile: ColumnMappingProfileInput; // Suggested layout; key values not found keep the defaults
+  mapped: (HeaderColumn & { field: KeyColumnField })[];
+  missing: KeyColumnField[]; // Key values no header matched
+  ambiguous: { field: KeyColumnField; columns: HeaderColumn[] }[]; // Key values several headers matched
+  unmapped: HeaderColumn[]; // Headers matching no key value
+}
+
+/**
+ * Fields of a column mapping profile (create / update)
+ */
+export interface ColumnMappingProfileInput extends Partial<Omit<ColumnMapping, 'fields'>> {
+  name?: string;
+  description?: string | null;
 }
 
 export interface Email {
@@ -54,6 +230,11 @@ export interface Email {
   receivedAt: Date;
 }
 
+export interface EmailSyncResult {
+  emails: Email[];
+  deltaLink: string;
+}
+
 export interface Attachment {
   name: string;
   contentBytes: Buffer;
@@ -67,6 +248,7 @@ export interface SnapshotMetadata {
   blobUrl: string;
   fileHash: string;
   uploadedAt: Date;
+  snapshotTimeSource?: SnapshotTimeSource;
 }
 
 export interface EmailMetadata {
@@ -78,3 +260,118 @@ export interface EmailMetadata {
   fileHash: string;
 }
 
+
+export interface ReprocessResult {
+  snapshotId: string;
+  status: 'COMPLETED' | 'FAILED' | 'REJECTED';
+  rowCount?: number;
+  error?: string;
+  driftSuspected?: boolean;
+}
+
+/**
+ * File-level checks of a hotel, run after parsing and before saving
+ * Rules set to null (or false) are off
+ */
+export interface ValidationPolicy {
+  maxSkippedLineShare: number | null; // 0-1 share of non-blank lines the parser skipped
+  rejectDuplicateStayDates: boolean; // (stayDate, dataType) pairs must be unique
+  requireContiguousStayDates: boolean; // No missing days between the first and last stay date
+  maxBoundaryDays: number | null; // Last HISTORY / first FORECAST date this close to the snapshot date
+  maxCapacityOverrunPercent: number | null; // Room nights may exceed the room count by this much
+}
+
+export type FileValidationRule =
+  | 'SKIPPED_LINE_SHARE'
+  | 'DUPLICATE_STAY_DATE'
+  | 'STAY_DATE_GAP'
+  | 'DATA_TYPE_BOUNDARY'
+  | 'CAPACITY_OVERRUN';
+
+export interface FileValidationViolation {
+  rule: FileValidationRule;
+  message: string;
+}
+
+/**
+ * What most cells of a column hold (at least 90% of its non-empty cells, else MIXED)
+ */
+export type ColumnKind = 'NUMERIC' | 'DATE' | 'TEXT' | 'MIXED' | 'EMPTY';
+
+/**
+ * Structure of a column over the imported lines (columns start at 1 with column 0 of the file)
+ */
+export type ColumnFingerprint = {
+  column: number;
+  kind: ColumnKind;
+  min: number | null; // Range of NUMERIC columns
+  max: number | null;
+};
+
+/**
+ * Structure of a file, compared between consecutive snapshots of a hotel
+ */
+export type FileFingerprint = {
+  columnCount: number; // Most common number of cells per imported line
+  headerSignature: string | null; // Normalized header names joined by "|"
+  columns: ColumnFingerprint[];
+};
+
+export type DriftRule = 'COLUMN_COUNT' | 'HEADER_CHANGED' | 'COLUMN_KIND' | 'VALUE_RANGE';
+
+/**
+ * Structural difference from the previous snapshot
+ */
+export type DriftFinding = {
+  rule: DriftRule;
+  column?: number;
+  message: string;
+};
+
+/**
+ * Outcome of importing a file into a snapshot
+ */
+export interface ImportSnapshotResult {
+  violations: FileValidationViolation[]; // Not saved if any
+  driftFindings: DriftFinding[]; // Saved but flagged DRIFT_SUSPECTED if any
+  rowCount: number;
+  skippedLineCount: number;
+  skippedLines: SkippedLine[]; // The first skipped lines only
+  recentHistoryRows: ParsedRow[]; // Last HISTORY rows of the file, for the seed actuals
+}
+
+/**
+ * Supported attachment formats
+ * tsv: tab-separated text export, csv: comma/semicolon separated,
+ * xlsx: Excel workbook (first sheet), zip: archive of any of the above
+ */
+export type FileFormat = 'tsv' | 'csv' | 'xlsx' | 'zip';
+
+/**
+ * File content to parse: in memory, or a stream of chunks (e.g. a blob download)
+ */
+export type FileSource = Buffer | { chunks: AsyncIterable<Uint8Array>; size: number | null };
+
+export interface ArchiveEntry {
+  filename: string;
+  bytes: Buffer;
+}
+
+/**
+ * One step of a hotel's snapshot time chain; the first strategy that yields a time wins
+ * filenameTimestamp: Unix timestamp in "history_forecast<timestamp>" filenames
+ * filenamePattern: regex on the filename whose first capture group is read with `format`
+ * receivedAt: time the email (or file) was received
+ * fileLine: regex on the first `maxLines` lines of the file, read like filenamePattern
+ * Formats use the tokens yyyy yy MM M dd d HH H mm ss, e.g. "dd.MM.yyyy HH:mm"
+ */
+export type SnapshotTimeStrategy =
+  | { type: 'filenameTimestamp' }
+  | { type: 'filenamePattern'; pattern: string; format: string }
+  | { type: 'receivedAt' }
+  | { type: 'fileLine'; pattern: string; format: string; maxLines?: number };
+
+export interface ResolvedSnapshotTime {
+  snapshotTime: Date;
+  source: SnapshotTimeSource;
+}
@@ -0,0 +1,160 @@
+import type { IngestionOutcome, IngestionRunStatus } from '@prisma/client';
+import type { SkippedLine } from './fileProcessor.types.js';
+
+export type { IngestionOutcome, IngestionRunStatus };
+
+/**
+ * Hints a source can provide to identify which hotel an item belongs to.
+ * The ingestion job resolves these against the hotels table.
+ */
+export interface HotelHint {
+  senderEmail?: string; // Sender address (mail sources)
+  hotelId?: string;     // Explicit hotel ID (e.g. per-hotel watch folder)
+  subject?: string;     // Message subject, if the item came from an email
+}
+
+/**
+ * A single file handed to the ingestion pipeline by a source
+ */
+export interface SourceItem {
+  source: string;       // Name of the source that produced the item
+  externalId: string;   // Stable ID in the source system (message ID, IMAP UID, file path)
+  hotelHint: HotelHint;
+  filename: string;
+  bytes: Buffer;
+  receivedAt: Date;
+  mailboxId?: string;   // Graph mailbox the item was received in
+}
+
+/**
+ * Item as listed by a source
+ * Sources that list files of any size (e.g. a watch folder) pass a function that
+ * reads the content, so the job holds one file in memory at a time
+ */
+export type FetchedItem = Omit<SourceItem, 'bytes'> & {
+  bytes: Buffer | (() => Promise<Buffer>);
+};
+
+/**
+ * A place history forecast files arrive from (Graph mailbox, IMAP mailbox, local folder)
+ */
+export interface IngestionSource {
+  readonly name: string;
+
+  /**
+   * Fetch all items that are waiting to be ingested
+   */
+  fetchItems(): Promise<FetchedItem[]>;
+
+  /**
+   * Tell the source an item is safely stored so it is not offered again
+   */
+  acknowledge(item: SourceItem): Promise<void>;
+
+  /**
+   * Called once the pipeline has finished with an item
+   */
+  complete(item: SourceItem, outcome: IngestionOutcome): Promise<void>;
+
+  /**
+   * Called once every fetched item was enqueued, e.g. to persist a sync cursor
+   */
+  commit?(): Promise<void>;
+
+  /**
+   * Called once the poll is over, whatever its outcome, e.g. to close a connection
+   */
+  close?(): Promise<void>;
+}
+
+/**
+ * Result of running one item through the pipeline
+ */
+export interface ItemResult {
+  outcome: IngestionOutcome;
+  hotelId?: string;
+  snapshotId?: string;
+  rowCount?: number;
+  error?: string;
+  skippedLines?: SkippedLine[]; // Lines the parser could not read (the first ones)
+  skippedLineCount?: number; // All lines the parser could not read
+}
+
+/**
+ * Totals of one ingestion run
+ */
+export interface ProcessingSummary {
+  sources: string[];
+  totalItems: number;
+  queuedItems: number;
+  skippedItems: number;
+  errors: number;
+  errorDetails: string[];
+}
+
+/**
+ * Totals of one attachment queue worker pass
+ */
+export interface QueueSummary {
+  claimed: number;
+  completed: number;
+  retried: number;
+  deadLettered: number;
+}
+
+/**
+ * Filters for listing ingestion runs
+ */
+export interface IngestionRunFilters {
+  status?: IngestionRunStatus;
+  source?: string;
+  hotelId?: string;
+  sender?: string;
+  outcome?: IngestionOutcome;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+/**
+ * Fields of a sender routing rule (create / update)
+ */
+export interface SenderRuleInput {
+  senderEmail?: string | null;
+  subjectPattern?: string | null;
+  filenamePattern?: string | null;
+  priority?: number;
+  isActive?: boolean;
+  description?: string | null;
+}
+
+/**
+ * Fields of a monitored mailbox (create / update)
+ */
+export interface MailboxInput {
+  address?: string;
+  isEnabled?: boolean;
+  pollCron?: string | null;
+  hotelIds?: string[]; // Hotel scope (empty: all hotels)
+  folderingEnabled?: boolean;
+  processedFolder?: string | null;
+  duplicateFolder?: string | null;
+  unknownSenderFolder?: string | null;
+  failedFolder?: string | null;
+}
+
+/**
+ * Mailbox folder a handled message is moved to
+ */
+export type MailboxFolder = 'processed' | 'duplicate' | 'unknownSender' | 'failed';
+
+/**
+ * Change or lifecycle notification posted by Graph to /api/webhooks/graph
+ */
+export interface GraphNotification {
+  subscriptionId: string;
+  clientState?: string;
+  changeType?: string;     // "created" for new messages
+  resource?: string;
+  lifecycleEvent?: 'reauthorizationRequired' | 'subscriptionRemoved' | 'missed';
+}
@@ -0,0 +1,131 @@
+// Longest tokens first, so "yyyy" is not read as two "yy"
+const FORMAT_TOKENS = /yyyy|yy|MM|M|dd|d|HH|H|mm|ss/g;
+
+const TOKEN_PATTERNS: Record<string, string> = {
+  yyyy: '(\\d{4})',
+  yy: '(\\d{2})',
+  MM: '(\\d{2})',
+  M: '(\\d{1,2})',
+  dd: '(\\d{2})',
+  d: '(\\d{1,2})',
+  HH: '(\\d{2})',
+  H: '(\\d{1,2})',
+  mm: '(\\d{2})',
+  ss: '(\\d{2})',
+};
+
+/**
+ * Check a date format before it is saved
+ * @param format - Format such as "yyyyMMdd_HHmm" or "dd.MM.yyyy"
+ * @returns True if it contains a year, month and day token
+ */
+export function isValidDateFormat(format: string): boolean {
+  const tokens = format.match(FORMAT_TOKENS) ?? [];
+  return (
+    tokens.some((token) => token.startsWith('y')) &&
+    tokens.some((token) => token.startsWith('M')) &&
+    tokens.some((token) => token.startsWith('d'))
+  );
+}
+
+/**
+ * Parse a date with a format (local time, like stay dates)
+ * Tokens: yyyy yy MM M dd d HH H mm ss; anything else must match literally
+ * yy is read as the year closest to the current one (e.g. in 2026: 76 is 2076, 77 is 1977)
+ * @param value - Date text
+ * @param format - Format of the text
+ * @returns Date or null if the text does not match or is not a real date
+ */
+export function parseDateWithFormat(value: string, format: string): Date | null {
+  const tokens: string[] = [];
+  let pattern = '';
+  let last = 0;
+
+  for (const match of format.matchAll(FORMAT_TOKENS)) {
+    pattern += escapeRegExp(format.slice(last, match.index)) + TOKEN_PATTERNS[match[0]];
+    tokens.push(match[0]);
+    last = match.index + match[0].length;
+  }
+  pattern += escapeRegExp(format.slice(last));
+
+  const match = value.trim().match(new RegExp(`^${pattern}$`));
+  if (!match) {
+    return null;
+  }
+
+  const parts = { year: 0, month: 1, day: 1, hours: 0, minutes: 0, seconds: 0 };
+  tokens.forEach((token, index) => {
+    const number = Number(match[index + 1]);
+    switch (token) {
+      case 'yyyy':
+        parts.year = number;
+        break;
+      case 'yy':
+        parts.year = expandTwoDigitYear(number);
+        break;
+      case 'MM':
+      case 'M':
+        parts.month = number;
+        break;
+      case 'dd':
+      case 'd':
+        parts.day = number;
+        break;
+      case 'HH':
+      case 'H':
+        parts.hours = number;
+        break;
+      case 'mm':
+        parts.minutes = number;
+        break;
+      case 'ss':
+        parts.seconds = number;
+        break;
+    }
+  });
+
+  const date = new Date(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hours,
+    parts.minutes,
+    parts.seconds
+  );
+
+  // Reject overflowing values such as 31/02 or 25:00
+  if (
+    date.getFullYear() !== parts.year ||
+    date.getMonth() !== parts.month - 1 ||
+    date.getDate() !== parts.day ||
+    date.getHours() !== parts.hours ||
+    date.getMinutes() !== parts.minutes
+  ) {
+    return null;
+  }
+
+  return date;
+}
+
+/**
+ * Year of a two-digit year, at most 50 years from the current year
+ * @param twoDigitYear - Year within its century (0-99)
+ * @param currentYear - Year the window is centred on (defaults to the current year)
+ */
+export function expandTwoDigitYear(
+  twoDigitYear: number,
+  currentYear: number = new Date().getFullYear()
+): number {
+  const year = currentYear - (currentYear % 100) + twoDigitYear;
+  if (year > currentYear + 50) {
+    return year - 100;
+  }
+  if (year <= currentYear - 50) {
+    return year + 100;
+  }
+  return year;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
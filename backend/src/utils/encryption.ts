@@ -0,0 +1,59 @@
+import crypto from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+
+/**
+ * Derive the 256-bit key from the configured secret
+ * Any string works; use a long random value (e.g. `openssl rand -base64 32`)
+ */
+function deriveKey(secret: string): Buffer {
+  if (!secret) {
+    throw new Error('TOKEN_ENCRYPTION_KEY is not configured');
+  }
+  return crypto.createHash('sha256').update(secret).digest();
+}
+
+/**
+ * Encrypt a string with AES-256-GCM
+ * @param plaintext - Value to encrypt
+ * @param secret - Encryption secret
+ * @returns "iv.authTag.ciphertext" (base64 parts)
+ */
+export function encrypt(plaintext: string, secret: string): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, deriveKey(secret), iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(plaintext, 'utf8'),
+    cipher.final(),
+  ]);
+
+  return [iv, cipher.getAuthTag(), ciphertext]
+    .map((part) => part.toString('base64'))
+    .join('.');
+}
+
+/**
+ * Decrypt a value produced by encrypt()
+ * Throws if the secret is wrong or the value was tampered with
+ * @param payload - "iv.authTag.ciphertext"
+ * @param secret - Encryption secret
+ * @returns Plaintext
+ */
+export function decrypt(payload: string, secret: string): string {
+  const [iv, authTag, ciphertext] = payload
+    .split('.')
+    .map((part) => Buffer.from(part, 'base64'));
+
+  if (!iv || !authTag || !ciphertext) {
+    throw new Error('Invalid encrypted value');
+  }
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, deriveKey(secret), iv);
+  decipher.setAuthTag(authTag);
+
+  return Buffer.concat([
+    decipher.update(ciphertext),
+    decipher.final(),
+  ]).toString('utf8');
+}
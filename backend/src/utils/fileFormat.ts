@@ -0,0 +1,427 @@
+import path from 'path';
+import { Readable } from 'stream';
+import { StringDecoder } from 'string_decoder';
+import ExcelJS from 'exceljs';
+import { unzipSync } from 'fflate';
+import type { ArchiveEntry, FileFormat, FileSource } from '../types/fileProcessor.types.js';
+
+const TEXT_EXTENSIONS = ['.txt', '.tsv', '.csv'];
+
+// Refuse archives that expand beyond this (zip bombs)
+const MAX_EXPANDED_BYTES = 200 * 1024 * 1024;
+
+// Only the start of a text file is inspected for delimiters
+const SNIFF_BYTES = 8192;
+
+// Size of the pieces a file in memory is streamed in
+const CHUNK_BYTES = 64 * 1024;
+
+/**
+ * Detect the format of an attachment from its content and extension
+ * Binary formats are recognised by content; text files must have a known
+ * extension and are classified by the delimiter they actually use
+ * @param buffer - File content
+ * @param filename - Original filename
+ * @param complete - Whether buffer is the whole file; the start of a zip container
+ *   cannot be listed, so a workbook is then recognised by its .xlsx extension
+ * @returns Format or null if unsupported
+ */
+export function detectFileFormat(
+  buffer: Buffer,
+  filename: string,
+  complete: boolean = true
+): FileFormat | null {
+  const extension = path.extname(filename).toLowerCase();
+
+  if (isZip(buffer)) {
+    // .xlsx files are zip containers with a workbook part
+    const workbook = complete
+      ? listZipEntries(buffer).includes('xl/workbook.xml')
+      : extension === '.xlsx';
+    return workbook ? 'xlsx' : 'zip';
+  }
+
+  if (!TEXT_EXTENSIONS.includes(extension) || isBinary(buffer)) {
+    return null;
+  }
+
+  const sample = buffer.subarray(0, SNIFF_BYTES).toString('utf-8');
+  if (sample.includes('\t')) {
+    return 'tsv';
+  }
+  if (sample.includes(',') || sample.includes(';')) {
+    return 'csv';
+  }
+
+  return extension === '.csv' ? 'csv' : 'tsv';
+}
+
+/**
+ * Expand a zip archive into its files
+ * Folders, hidden files and macOS metadata are skipped. Files are named by their
+ * base name, so filename rules match as for attachments; files whose base name
+ * repeats keep their path in the archive (the queue tells files apart by name)
+ * @param buffer - Archive content
+ * @returns Inner files
+ */
+export function expandZip(buffer: Buffer): ArchiveEntry[] {
+  let expandedBytes = 0;
+
+  const files = unzipSync(new Uint8Array(buffer), {
+    filter: (file) => {
+      const basename = path.posix.basename(file.name);
+      if (
+        file.name.endsWith('/') ||
+        file.name.startsWith('__MACOSX/') ||
+        basename.startsWith('.')
+      ) {
+        return false;
+      }
+
+      expandedBytes += file.originalSize;
+      if (expandedBytes > MAX_EXPANDED_BYTES) {
+        throw new Error(
+          `Archive expands to more than ${MAX_EXPANDED_BYTES / 1024 / 1024} MB`
+        );
+      }
+      return true;
+    },
+  });
+
+  const names = Object.keys(files);
+  const basenames = names.map((name) => path.posix.basename(name));
+  return names.map((name, index) => ({
+    filename:
+      basenames.indexOf(basenames[index]) === basenames.lastIndexOf(basenames[index])
+        ? basenames[index]
+        : name,
+    bytes: Buffer.from(files[name]),
+  }));
+}
+
+/**
+ * Split delimited text into rows while it is read, honouring double-quoted fields
+ * (quoted delimiters, line breaks and "" escapes)
+ * @param chunks - File content
+ * @param delimiter - Field delimiter (detected from the start of the file when omitted)
+ * @returns Rows of raw cell values
+ */
+export async function* streamDelimited(
+  chunks: AsyncIterable<Uint8Array>,
+  delimiter?: string
+): AsyncGenerator<string[]> {
+  const decoder = new StringDecoder('utf-8');
+  let reader = delimiter ? new DelimitedReader(delimiter) : null;
+  let head = '';
+
+  for await (const chunk of chunks) {
+    const text = decoder.write(Buffer.from(chunk));
+    if (reader) {
+      yield* reader.push(text);
+      continue;
+    }
+
+    head += text;
+    if (head.length >= SNIFF_BYTES) {
+      reader = new DelimitedReader(detectDelimiter(head));
+      yield* reader.push(head);
+    }
+  }
+
+  const rest = decoder.end();
+  if (!reader) {
+    head += rest;
+    reader = new DelimitedReader(detectDelimiter(head));
+    yield* reader.push(head);
+  } else {
+    yield* reader.push(rest);
+  }
+  yield* reader.end();
+}
+
+/**
+ * Split tab-separated text into rows while it is read
+ * Like the text export, fields are not quoted and lines end with \n
+ * @param chunks - File content
+ * @returns Rows of raw cell values
+ */
+export async function* streamTabSeparated(
+  chunks: AsyncIterable<Uint8Array>
+): AsyncGenerator<string[]> {
+  const decoder = new StringDecoder('utf-8');
+  let partial = '';
+
+  for await (const chunk of chunks) {
+    const lines = (partial + decoder.write(Buffer.from(chunk))).split('\n');
+    partial = lines.pop() ?? '';
+    for (const line of lines) {
+      yield line.split('\t');
+    }
+  }
+
+  yield (partial + decoder.end()).split('\t');
+}
+
+/**
+ * Incremental state of a delimited text split, fed one piece of text at a time
+ */
+class DelimitedReader {
+  private row: string[] = [];
+  private field = '';
+  private inQuotes = false;
+  // Last character of a piece whose meaning depends on the next one ("" or \r\n)
+  private pending = '';
+
+  constructor(private readonly separator: string) {}
+
+  /**
+   * Read the next piece of text
+   * @returns Rows completed by it
+   */
+  push(text: string): string[][] {
+    const content = this.pending + text;
+    this.pending = '';
+    return this.read(content, false);
+  }
+
+  /**
+   * Finish after the last piece
+   * @returns Remaining rows
+   */
+  end(): string[][] {
+    const rows = this.read(this.pending, true);
+    this.pending = '';
+
+    if (this.field !== '' || this.row.length > 0) {
+      this.row.push(this.field);
+      rows.push(this.row);
+      this.row = [];
+      this.field = '';
+    }
+    return rows;
+  }
+
+  private read(content: string, final: boolean): string[][] {
+    const rows: string[][] = [];
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+
+      if (
+        !final &&
+        i === content.length - 1 &&
+        (char === '\r' || (char === '"' && this.inQuotes))
+      ) {
+        this.pending = char;
+        break;
+      }
+
+      if (this.inQuotes) {
+        if (char === '"' && content[i + 1] === '"') {
+          this.field += '"';
+          i++;
+        } else if (char === '"') {
+          this.inQuotes = false;
+        } else {
+          this.field += char;
+        }
+      } else if (char === '"' && this.field.trim() === '') {
+        this.inQuotes = true;
+        this.field = '';
+      } else if (char === this.separator) {
+        this.row.push(this.field);
+        this.field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && content[i + 1] === '\n') {
+          i++;
+        }
+        this.row.push(this.field);
+        rows.push(this.row);
+        this.row = [];
+        this.field = '';
+      } else {
+        this.field += char;
+      }
+    }
+
+    return rows;
+  }
+}
+
+/**
+ * Pick comma or semicolon, whichever occurs more often outside quotes
+ * in the first lines
+ */
+function detectDelimiter(content: string): string {
+  const sample = content
+    .slice(0, SNIFF_BYTES)
+    .replace(/"[^"]*"/g, '');
+  const commas = sample.split(',').length - 1;
+  const semicolons = sample.split(';').length - 1;
+
+  return semicolons > commas ? ';' : ',';
+}
+
+/**
+ * Read the first worksheet of an .xlsx workbook while it is streamed
+ * Date cells are rendered as ISO dates (yyyy-MM-dd), which stay dates accept in any profile
+ * Shared strings and styles are cached; rows are not
+ * @param chunks - Workbook content
+ * @returns Rows of raw cell values
+ */
+export async function* streamFirstSheet(
+  chunks: AsyncIterable<Uint8Array>
+): AsyncGenerator<string[]> {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookReader(Readable.from(chunks), {
+    worksheets: 'emit',
+    sharedStrings: 'cache',
+    styles: 'cache', // Needed to recognise date cells
+    hyperlinks: 'ignore',
+    entries: 'ignore',
+  });
+
+  for await (const worksheet of workbook) {
+    for await (const row of worksheet) {
+      if (!row.hasValues) {
+        continue;
+      }
+      const cells: string[] = [];
+      for (let column = 1; column <= row.cellCount; column++) {
+        cells.push(cellToString(row.getCell(column).value));
+      }
+      yield cells;
+    }
+    return;
+  }
+
+  throw new Error('Workbook does not contain any worksheet');
+}
+
+/**
+ * Start reading a file source
+ * @param source - File content, in memory or streamed
+ * @returns The start of the file (all of it if in memory) and the file in chunks
+ */
+export async function openFileSource(source: FileSource): Promise<{
+  head: Buffer;
+  complete: boolean;
+  chunks: AsyncIterable<Uint8Array>;
+}> {
+  if (Buffer.isBuffer(source)) {
+    return { head: source, complete: true, chunks: sliceBuffer(source) };
+  }
+
+  const iterator = source.chunks[Symbol.asyncIterator]();
+  const buffered: Buffer[] = [];
+  let length = 0;
+  let done = false;
+  while (length < SNIFF_BYTES) {
+    const next = await iterator.next();
+    if (next.done) {
+      done = true;
+      break;
+    }
+    buffered.push(Buffer.from(next.value));
+    length += next.value.length;
+  }
+
+  async function* replay(): AsyncGenerator<Uint8Array> {
+    yield* buffered;
+    while (!done) {
+      const next = await iterator.next();
+      if (next.done) {
+        return;
+      }
+      yield next.value;
+    }
+  }
+
+  return { head: Buffer.concat(buffered), complete: done, chunks: replay() };
+}
+
+/**
+ * Pass chunks through, reporting how many bytes were read so far
+ */
+export async function* countBytes(
+  chunks: AsyncIterable<Uint8Array>,
+  onBytes: (bytes: number) => void
+): AsyncGenerator<Uint8Array> {
+  let bytes = 0;
+  for await (const chunk of chunks) {
+    bytes += chunk.length;
+    onBytes(bytes);
+    yield chunk;
+  }
+}
+
+async function* sliceBuffer(buffer: Buffer): AsyncGenerator<Uint8Array> {
+  for (let offset = 0; offset < buffer.length; offset += CHUNK_BYTES) {
+    yield buffer.subarray(offset, offset + CHUNK_BYTES);
+  }
+}
+
+/**
+ * Convert an Excel cell value to the string the text export would contain
+ */
+function cellToString(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  if (value instanceof Date) {
+    // Excel dates carry no time zone; exceljs returns them as UTC
+    const day = String(value.getUTCDate()).padStart(2, '0');
+    const month = String(value.getUTCMonth() + 1).padStart(2, '0');
+    return `${value.getUTCFullYear()}-${month}-${day}`;
+  }
+
+  if (typeof value === 'object') {
+    if ('richText' in value) {
+      return value.richText.map((part) => part.text).join('');
+    }
+    if ('formula' in value || 'sharedFormula' in value) {
+      return cellToString(value.result as ExcelJS.CellValue);
+    }
+    if ('text' in value) {
+      return String(value.text);
+    }
+    // Error values (#N/A, #DIV/0!, ...)
+    return '';
+  }
+
+  return String(value);
+}
+
+function isZip(buffer: Buffer): boolean {
+  return (
+    buffer.length >= 4 &&
+    buffer[0] === 0x50 &&
+    buffer[1] === 0x4b &&
+    (buffer[2] === 0x03 || buffer[2] === 0x05) &&
+    (buffer[3] === 0x04 || buffer[3] === 0x06)
+  );
+}
+
+function isBinary(buffer: Buffer): boolean {
+  return buffer.subarray(0, SNIFF_BYTES).includes(0);
+}
+
+/**
+ * Names of the entries of a zip archive (without decompressing them)
+ */
+function listZipEntries(buffer: Buffer): string[] {
+  const names: string[] = [];
+
+  try {
+    unzipSync(new Uint8Array(buffer), {
+      filter: (file) => {
+        names.push(file.name);
+        return false;
+      },
+    });
+  } catch {
+    // Corrupt archives are reported when they are expanded
+  }
+
+  return names;
+}
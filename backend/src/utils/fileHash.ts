@@ -12,5 +12,18 @@ export function calculateFileHash(buffer: Buffer): string {
   return hash.digest('hex');
 }
 
+/**
+ * Calculate SHA-256 hash of a file read in chunks (same result as calculateFileHash)
+ * @param chunks - File content in chunks
+ * @returns Hex string representation of the hash
+ */
+export async function calculateStreamHash(chunks: AsyncIterable<Uint8Array>): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  for await (const chunk of chunks) {
+    hash.update(chunk);
+  }
+  return hash.digest('hex');
+}
+
 export default calculateFileHash;
 
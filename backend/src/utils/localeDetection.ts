@@ -0,0 +1,132 @@
+import { parseDateWithFormat } from './dateFormat.js';
+import { stripWeekday } from '../config/columnMapping.js';
+import type { DecimalSeparator } from '../types/fileProcessor.types.js';
+
+// Stay date formats tried by auto-detection (d and M also read zero-padded values)
+export const STAY_DATE_FORMAT_CANDIDATES = [
+  'd/M/yy',
+  'd/M/yyyy',
+  'M/d/yy',
+  'M/d/yyyy',
+  'yyyy-M-d',
+  'yyyy/M/d',
+  'd.M.yy',
+  'd.M.yyyy',
+  'd-M-yy',
+  'd-M-yyyy',
+  'M-d-yyyy',
+];
+
+// Values that look like a date; anything else (e.g. a header) is not evidence
+const DATE_LIKE = /^\d{1,4}[./-]\d{1,2}[./-]\d{1,4}$/;
+
+// Values that look like a number with separators
+const NUMBER_LIKE = /^[-+]?[\d.,]*\d[\d.,]*$/;
+
+type Separator = Exclude<DecimalSeparator, 'AUTO'>;
+
+/**
+ * Outcome of a detection: the only reading of the sample, or the readings it allows
+ */
+export type Detection<T> = { value: T } | { ambiguous: T[] };
+
+/**
+ * Pick the stay date format that reads the most sampled values
+ * @param values - Stay date cells of the file
+ * @param fallback - Format used when no value looks like a date
+ * @returns Format, or the formats that tie
+ */
+export function detectStayDateFormat(values: string[], fallback: string): Detection<string> {
+  const dates = values.map(stripWeekday).filter((value) => DATE_LIKE.test(value));
+  if (dates.length === 0) {
+    return { value: fallback };
+  }
+
+  const counts = STAY_DATE_FORMAT_CANDIDATES.map((format) => ({
+    format,
+    count: dates.filter((value) => parseDateWithFormat(value, format) !== null).length,
+  }));
+  const best = Math.max(...counts.map((candidate) => candidate.count));
+  if (best === 0) {
+    return { value: fallback };
+  }
+
+  const formats = counts
+    .filter((candidate) => candidate.count === best)
+    .map((candidate) => candidate.format);
+  return formats.length === 1 ? { value: formats[0] } : { ambiguous: formats };
+}
+
+/**
+ * Pick the decimal separator most sampled numbers agree with
+ * Numbers without separators say nothing; "1,234" or "1.234" alone could be either
+ * @param values - Numeric cells of the file
+ * @returns Separator, or both if the sample cannot tell them apart
+ */
+export function detectDecimalSeparator(values: string[]): Detection<Separator> {
+  const counts: Record<Separator, number> = { POINT: 0, COMMA: 0 };
+  let undecided = 0;
+
+  for (const raw of values) {
+    const value = raw.replace(/[\s%]/g, '');
+    if (!NUMBER_LIKE.test(value) || !/[.,]/.test(value)) {
+      continue;
+    }
+
+    const readings = readingsOf(value);
+    if (readings.length === 1) {
+      counts[readings[0]]++;
+    } else if (readings.length === 2) {
+      undecided++;
+    }
+  }
+
+  if (counts.POINT === 0 && counts.COMMA === 0) {
+    return undecided > 0 ? { ambiguous: ['POINT', 'COMMA'] } : { value: 'POINT' };
+  }
+  if (counts.POINT === counts.COMMA) {
+    return { ambiguous: ['POINT', 'COMMA'] };
+  }
+  return { value: counts.POINT > counts.COMMA ? 'POINT' : 'COMMA' };
+}
+
+/**
+ * Separators under which a number with "." and/or "," is well-formed
+ */
+function readingsOf(value: string): Separator[] {
+  const point = value.lastIndexOf('.');
+  const comma = value.lastIndexOf(',');
+
+  // Both present: the last one is the decimal separator
+  if (point >= 0 && comma >= 0) {
+    return point > comma
+      ? wellFormed(value, ',', '.') ? ['POINT'] : []
+      : wellFormed(value, '.', ',') ? ['COMMA'] : [];
+  }
+
+  const separator = point >= 0 ? '.' : ',';
+  const asDecimal: Separator = separator === '.' ? 'POINT' : 'COMMA';
+  const asThousands: Separator = separator === '.' ? 'COMMA' : 'POINT';
+  const groups = value.replace(/^[-+]/, '').split(separator);
+
+  // Repeated or non-3-digit groups can only be one of the two
+  if (groups.length > 2) {
+    return wellFormed(value, separator, null) ? [asThousands] : [];
+  }
+  return groups[0].length <= 3 && groups[0] !== '0' && groups[1].length === 3
+    ? [asDecimal, asThousands]
+    : [asDecimal];
+}
+
+/**
+ * Whether thousands groups are three digits and the decimal separator appears at most once
+ */
+function wellFormed(value: string, thousands: string, decimal: string | null): boolean {
+  const [integer, ...decimals] = decimal ? value.split(decimal) : [value];
+  if (decimals.length > 1) {
+    return false;
+  }
+
+  const groups = integer.replace(/^[-+]/, '').split(thousands);
+  return groups.slice(1).every((group) => group.length === 3) && groups[0].length <= 3;
+}
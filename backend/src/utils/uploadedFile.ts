@@ -0,0 +1,42 @@
+import { createReadStream } from 'fs';
+import { open, rm } from 'fs/promises';
+import type { FileSource } from '../types/fileProcessor.types.js';
+
+// Bytes read from the start of an upload to tell its format
+const HEAD_BYTES = 8192;
+
+/**
+ * Read the start of an uploaded file (multer disk storage)
+ * @param file - Uploaded file
+ * @returns The first bytes and whether they are the whole file (see detectFileFormat())
+ */
+export async function readUploadHead(
+  file: Express.Multer.File
+): Promise<{ head: Buffer; complete: boolean }> {
+  const handle = await open(file.path, 'r');
+  try {
+    const { buffer, bytesRead } = await handle.read(Buffer.alloc(HEAD_BYTES), 0, HEAD_BYTES, 0);
+    return { head: buffer.subarray(0, bytesRead), complete: bytesRead >= file.size };
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Stream an uploaded file from disk
+ * @param file - Uploaded file
+ * @returns File source for the parser (a fresh stream on every call)
+ */
+export function uploadSource(file: Express.Multer.File): Exclude<FileSource, Buffer> {
+  return { chunks: createReadStream(file.path), size: file.size };
+}
+
+/**
+ * Delete the temporary file of an upload once the request is done with it
+ * @param file - Uploaded file, if any
+ */
+export async function removeUpload(file: Express.Multer.File | undefined): Promise<void> {
+  if (file) {
+    await rm(file.path, { force: true });
+  }
+}
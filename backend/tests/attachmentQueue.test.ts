@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { QueuedAttachment } from '@prisma/client';
+
+const { update, findMany, findUniqueOrThrow, $queryRaw } = vi.hoisted(() => ({
+  update: vi.fn(),
+  findMany: vi.fn(),
+  findUniqueOrThrow: vi.fn(),
+  $queryRaw: vi.fn(),
+}));
+vi.mock('../src/utils/prisma.js', () => ({
+  prisma: { $queryRaw, queuedAttachment: { update, findMany, findUniqueOrThrow } },
+}));
+vi.mock('../src/config/index.js', () => ({ config: { queue: { backoffBaseSeconds: 60 } } }));
+
+const { attachmentQueueService } = await import('../src/services/attachmentQueue.service.js');
+
+const NOW = new Date('2025-11-15T06:00:00Z');
+
+function attachment(attempts: number, maxAttempts: number = 5): QueuedAttachment {
+  return {
+    id: 'attachment-1',
+    attempts,
+    maxAttempts,
+    nextAttemptAt: NOW,
+  } as QueuedAttachment;
+}
+
+/**
+ * Seconds until the retry scheduled by the last update
+ */
+function scheduledDelay(): number {
+  const { nextAttemptAt } = update.mock.lastCall![0].data;
+  return (nextAttemptAt.getTime() - NOW.getTime()) / 1000;
+}
+
+describe('attachmentQueueService.markFailed', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: NOW });
+    update.mockReset();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('doubles the delay with every attempt', async () => {
+    const delays: number[] = [];
+    for (const attempts of [1, 2, 3]) {
+      await expect(
+        attachmentQueueService.markFailed(attachment(attempts), 'Blob storage unavailable')
+      ).resolves.toBe(false);
+      delays.push(scheduledDelay());
+    }
+
+    expect(delays).toEqual([60, 120, 240]);
+    expect(update.mock.lastCall![0].data).toMatchObject({
+      status: 'PENDING',
+      lockedAt: null,
+      lastError: 'Blob storage unavailable',
+    });
+  });
+
+  it('waits at most six hours', async () => {
+    await attachmentQueueService.markFailed(attachment(12, 20), 'Timeout');
+
+    expect(scheduledDelay()).toBe(6 * 60 * 60);
+  });
+
+  it('dead-letters the attachment after its last attempt', async () => {
+    await expect(attachmentQueueService.markFailed(attachment(5), 'Timeout')).resolves.toBe(true);
+
+    expect(update.mock.lastCall![0].data).toMatchObject({ status: 'DEAD', nextAttemptAt: NOW });
+  });
+});
+
+describe('attachmentQueueService.claimDue', () => {
+  beforeEach(() => {
+    $queryRaw.mockReset();
+    findMany.mockReset();
+  });
+
+  it('claims attachments without their content', async () => {
+    $queryRaw.mockResolvedValue([{ id: 'attachment-1' }, { id: 'attachment-2' }]);
+    findMany.mockResolvedValue([]);
+
+    await attachmentQueueService.claimDue(10);
+
+    expect(findMany).toHaveBeenCalledWith({
+      where: { id: { in: ['attachment-1', 'attachment-2'] } },
+      omit: { content: true },
+      orderBy: { nextAttemptAt: 'asc' },
+    });
+  });
+
+  it('loads nothing when no attachment is due', async () => {
+    $queryRaw.mockResolvedValue([]);
+
+    await expect(attachmentQueueService.claimDue(10)).resolves.toEqual([]);
+    expect(findMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('attachmentQueueService.getContent', () => {
+  it('loads the content of one attachment', async () => {
+    findUniqueOrThrow.mockResolvedValue({ content: new Uint8Array([1, 2, 3]) });
+
+    await expect(attachmentQueueService.getContent('attachment-1')).resolves.toEqual(
+      Buffer.from([1, 2, 3])
+    );
+    expect(findUniqueOrThrow).toHaveBeenCalledWith({
+      where: { id: 'attachment-1' },
+      select: { content: true },
+    });
+  });
+});
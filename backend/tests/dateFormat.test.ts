@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import {
+  expandTwoDigitYear,
+  isValidDateFormat,
+  parseDateWithFormat,
+} from '../src/utils/dateFormat.js';
+import { formatDateToYYYYMMDD, parseStayDate } from '../src/config/columnMapping.js';
+
+describe('parseDateWithFormat', () => {
+  it('reads the tokens of a format in local time', () => {
+    expect(parseDateWithFormat('20251115_0630', 'yyyyMMdd_HHmm')).toEqual(
+      new Date(2025, 10, 15, 6, 30)
+    );
+    expect(parseDateWithFormat('5.3.2024', 'd.M.yyyy')).toEqual(new Date(2024, 2, 5));
+  });
+
+  it('rejects text that does not match or a date that does not exist', () => {
+    expect(parseDateWithFormat('2025-11-15', 'dd/MM/yyyy')).toBeNull();
+    expect(parseDateWithFormat('31/02/2025', 'dd/MM/yyyy')).toBeNull();
+    expect(parseDateWithFormat('15/11/2025 25:00', 'dd/MM/yyyy HH:mm')).toBeNull();
+  });
+});
+
+describe('expandTwoDigitYear', () => {
+  it('picks the year closest to the current one', () => {
+    expect(expandTwoDigitYear(25, 2026)).toBe(2025);
+    expect(expandTwoDigitYear(76, 2026)).toBe(2076);
+    expect(expandTwoDigitYear(77, 2026)).toBe(1977);
+    expect(expandTwoDigitYear(10, 2080)).toBe(2110);
+  });
+});
+
+describe('isValidDateFormat', () => {
+  it('requires a year, month and day token', () => {
+    expect(isValidDateFormat('dd/MM/yy')).toBe(true);
+    expect(isValidDateFormat('MM/yyyy')).toBe(false);
+  });
+});
+
+describe('parseStayDate', () => {
+  it('ignores a weekday name before or after the date', () => {
+    expect(formatDateToYYYYMMDD(parseStayDate('01/11/25 Sat'))).toBe('2025-11-01');
+    expect(formatDateToYYYYMMDD(parseStayDate('Mon 12/15/2024', 'M/d/yyyy'))).toBe(
+      '2024-12-15'
+    );
+  });
+
+  it('reads ISO dates (spreadsheet date cells) whatever the format', () => {
+    expect(formatDateToYYYYMMDD(parseStayDate('2025-11-01', 'M/d/yy'))).toBe('2025-11-01');
+  });
+
+  it('throws on a date that does not fit the format', () => {
+    expect(() => parseStayDate('11/15/25', 'd/M/yy')).toThrow('Invalid date');
+  });
+});
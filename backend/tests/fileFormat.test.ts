@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import ExcelJS from 'exceljs';
+import { strToU8, zipSync } from 'fflate';
+import {
+  detectFileFormat,
+  expandZip,
+  streamDelimited,
+  streamFirstSheet,
+  streamTabSeparated,
+} from '../src/utils/fileFormat.js';
+
+/**
+ * Content in pieces of a few bytes, so rows, quotes and characters span pieces
+ */
+async function* chunked(content: Buffer, size: number): AsyncGenerator<Uint8Array> {
+  for (let offset = 0; offset < content.length; offset += size) {
+    yield content.subarray(offset, offset + size);
+  }
+}
+
+async function collect(rows: AsyncIterable<string[]>): Promise<string[][]> {
+  const collected: string[][] = [];
+  for await (const row of rows) {
+    collected.push(row);
+  }
+  return collected;
+}
+
+describe('detectFileFormat', () => {
+  it('classifies text files by the delimiter they use', () => {
+    expect(detectFileFormat(Buffer.from('a\tb\n'), 'export.txt')).toBe('tsv');
+    expect(detectFileFormat(Buffer.from('a;b\n'), 'export.txt')).toBe('csv');
+    expect(detectFileFormat(Buffer.from('a,b\n'), 'export.pdf')).toBeNull();
+  });
+
+  it('tells archives from workbooks by their content', () => {
+    const archive = Buffer.from(zipSync({ 'export.txt': strToU8('a\tb') }));
+    const workbook = Buffer.from(zipSync({ 'xl/workbook.xml': strToU8('<workbook/>') }));
+
+    expect(detectFileFormat(archive, 'files.zip')).toBe('zip');
+    expect(detectFileFormat(workbook, 'export.xlsx')).toBe('xlsx');
+  });
+});
+
+describe('expandZip', () => {
+  it('names files by their base name and skips folders and macOS metadata', () => {
+    const archive = Buffer.from(
+      zipSync({
+        'reports/history_forecast1.txt': strToU8('one'),
+        '__MACOSX/reports/._history_forecast1.txt': strToU8('meta'),
+        '.hidden': strToU8('hidden'),
+      })
+    );
+
+    expect(expandZip(archive).map((entry) => [entry.filename, entry.bytes.toString()])).toEqual([
+      ['history_forecast1.txt', 'one'],
+    ]);
+  });
+
+  it('keeps the path of files whose names repeat', () => {
+    const archive = Buffer.from(
+      zipSync({
+        'a/export.txt': strToU8('one'),
+        'b/export.txt': strToU8('two'),
+        'b/history_forecast1.txt': strToU8('three'),
+      })
+    );
+
+    expect(expandZip(archive).map((entry) => entry.filename)).toEqual([
+      'a/export.txt',
+      'b/export.txt',
+      'history_forecast1.txt',
+    ]);
+  });
+});
+
+describe('streamDelimited', () => {
+  const content = Buffer.from(
+    'Type;Date;Note\r\n' +
+      'History;01/11/25;"Rénové; ""east"" wing"\r\n' +
+      'Forecast;02/11/25;"two\nlines"\r\n' +
+      'Forecast;03/11/25;'
+  );
+  const expected = [
+    ['Type', 'Date', 'Note'],
+    ['History', '01/11/25', 'Rénové; "east" wing'],
+    ['Forecast', '02/11/25', 'two\nlines'],
+    ['Forecast', '03/11/25', ''],
+  ];
+
+  it('reads quoted fields and detects the delimiter', async () => {
+    expect(await collect(streamDelimited(chunked(content, content.length)))).toEqual(expected);
+  });
+
+  it('reads the same rows whatever the chunk boundaries', async () => {
+    for (const size of [1, 2, 3, 7]) {
+      expect(await collect(streamDelimited(chunked(content, size)))).toEqual(expected);
+    }
+  });
+});
+
+describe('streamTabSeparated', () => {
+  it('splits lines across chunk boundaries', async () => {
+    const content = Buffer.from('History\t01/11/25\tRénové\nForecast\t02/11/25\t');
+
+    for (const size of [1, 5, content.length]) {
+      expect(await collect(streamTabSeparated(chunked(content, size)))).toEqual([
+        ['History', '01/11/25', 'Rénové'],
+        ['Forecast', '02/11/25', ''],
+      ]);
+    }
+  });
+});
+
+describe('streamFirstSheet', () => {
+  it('reads the first worksheet with date cells as ISO dates', async () => {
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet('Export');
+    sheet.addRow(['Type', 'Date', 'Rooms']);
+    sheet.addRow(['History', new Date(Date.UTC(2025, 10, 1)), 80]);
+    workbook.addWorksheet('Other').addRow(['ignored']);
+    const content = Buffer.from(await workbook.xlsx.writeBuffer());
+
+    expect(await collect(streamFirstSheet(chunked(content, 1024)))).toEqual([
+      ['Type', 'Date', 'Rooms'],
+      ['History', '2025-11-01', '80'],
+    ]);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, expect, it, vi } from 'vitest';
+import { DEFAULT_COLUMN_MAPPING } from '../src/config/columnMapping.js';
+import type { FileSource, ParseBatch } from '../src/types/fileProcessor.types.js';
+
+// Parsing does not query; the drift service only needs the client for other methods
+vi.mock('../src/utils/prisma.js', () => ({ prisma: {} }));
+
+const { FileParseError, fileProcessorService } = await import(
+  '../src/services/fileProcessor.service.js'
+);
+
+/**
+ * Line of the sample layout: column 0, data type, stay date and 28 more columns
+ */
+function line(dataType: string, stayDate: string, roomNights: string, revenue: string): string {
+  const cells = ['Room Revenue', dataType, stayDate, ...Array<string>(28).fill('0')];
+  cells[3] = roomNights;
+  cells[10] = revenue;
+  return cells.join('\t');
+}
+
+const FILE = Buffer.from(
+  [
+    line('History', '01/11/25 Sat', '80', '12000'),
+    '',
+    line('History', '31/02/25 Mon', '70', '9000'),
+    line('Forecast', '02/11/25 Sun', '50', '7500'),
+    line('Forecast', '03/11/25 Mon', '40', '6000'),
+  ].join('\n')
+);
+
+async function parse(source: FileSource, batchSize: number) {
+  const batches: ParseBatch[] = [];
+  const result = await fileProcessorService.parseFileStream(
+    source,
+    'history_forecast1.txt',
+    () => 100,
+    DEFAULT_COLUMN_MAPPING,
+    async (batch) => {
+      batches.push(batch);
+    },
+    batchSize
+  );
+  return { result, batches };
+}
+
+describe('fileProcessorService.parseFileStream', () => {
+  it('hands over rows and issues in batches, in file order', async () => {
+    const { result, batches } = await parse(FILE, 2);
+
+    expect(batches.map((batch) => batch.rows.map((row) => row.line))).toEqual([[1, 4], [5]]);
+    expect(batches[0].issues).toEqual([
+      expect.objectContaining({ line: 3, severity: 'ERROR', rule: 'INVALID_STAY_DATE' }),
+    ]);
+    expect(batches[1].linesRead).toBe(5);
+    expect(result).toMatchObject({
+      rowCount: 3,
+      skippedLineCount: 1,
+      skippedLines: [{ line: 3, reason: expect.stringContaining('Invalid date') }],
+      locale: { dateFormat: 'd/M/yy', decimalSeparator: 'POINT', detected: false },
+    });
+  });
+
+  it('calculates the metrics of a row from the rooms available', async () => {
+    const { batches } = await parse(FILE, 10);
+
+    expect(batches[0].rows[0]).toMatchObject({
+      dataType: 'HISTORY',
+      roomNights: 80,
+      roomRevenue: 12000,
+      occupancyPercent: 80,
+      adr: 150,
+      revPAR: 120,
+    });
+  });
+
+  it('reads a streamed file like one in memory', async () => {
+    const streamed = await parse(
+      {
+        chunks: (async function* () {
+          for (let offset = 0; offset < FILE.length; offset += 10) {
+            yield FILE.subarray(offset, offset + 10);
+          }
+        })(),
+        size: FILE.length,
+      },
+      2
+    );
+
+    expect(streamed).toEqual(await parse(FILE, 2));
+    expect(streamed.batches[1].bytesRead).toBe(FILE.length);
+  });
+
+  it('refuses an archive as a file that cannot be read', async () => {
+    const archive = Buffer.from('PK\x03\x04');
+
+    await expect(
+      fileProcessorService.parseFileStream(
+        archive,
+        'files.zip',
+        () => 100,
+        DEFAULT_COLUMN_MAPPING,
+        async () => {}
+      )
+    ).rejects.toBeInstanceOf(FileParseError);
+  });
+});
+
+describe('fileProcessorService.readHead', () => {
+  it('stops after the first lines', async () => {
+    const rows = await fileProcessorService.readHead(FILE, 'history_forecast1.txt', 2);
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0].slice(1, 3)).toEqual(['History', '01/11/25 Sat']);
+    expect(rows[1]).toEqual(['']);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_VALIDATION_POLICY,
+  fileValidationService,
+} from '../src/services/fileValidation.service.js';
+import type { ParsedRow, ValidationPolicy } from '../src/types/fileProcessor.types.js';
+
+const SNAPSHOT_TIME = new Date(2025, 10, 15, 6, 0);
+
+/**
+ * Row with the values the rules look at
+ */
+function row(
+  dataType: ParsedRow['dataType'],
+  day: number,
+  roomNights: number = 50,
+  line: number = day
+): ParsedRow {
+  return { dataType, stayDate: new Date(2025, 10, day), roomNights, line } as ParsedRow;
+}
+
+/**
+ * Rules broken by rows, checked like a streamed file
+ */
+function validate(
+  rows: ParsedRow[],
+  policy: Partial<ValidationPolicy> = {},
+  skipped: number = 0
+) {
+  const tally = fileValidationService.startValidation(
+    { snapshotTime: SNAPSHOT_TIME, capacity: () => 100 },
+    { ...DEFAULT_VALIDATION_POLICY, ...policy }
+  );
+  const issues = rows.map((candidate) => fileValidationService.addRow(tally, candidate));
+  return { issues, violations: fileValidationService.finishValidation(tally, skipped) };
+}
+
+describe('fileValidationService', () => {
+  it('accepts a file that breaks no rule', () => {
+    const { issues, violations } = validate([row('HISTORY', 14), row('FORECAST', 15)]);
+
+    expect(issues).toEqual([null, null]);
+    expect(violations).toEqual([]);
+  });
+
+  it('reports the repeat of a stay date and data type and rejects the file by default', () => {
+    const { issues, violations } = validate([
+      row('HISTORY', 14, 50, 2),
+      row('FORECAST', 14, 50, 3),
+      row('HISTORY', 14, 50, 4),
+    ]);
+
+    expect(issues[1]).toBeNull();
+    expect(issues[2]).toMatchObject({
+      line: 4,
+      severity: 'ERROR',
+      rule: 'DUPLICATE_STAY_DATE',
+    });
+    expect(violations.map((violation) => violation.rule)).toEqual(['DUPLICATE_STAY_DATE']);
+    expect(violations[0].message).toContain('2025-11-14');
+  });
+
+  it('still reports repeats when the policy allows them', () => {
+    const { issues, violations } = validate(
+      [row('HISTORY', 14), row('HISTORY', 14)],
+      { rejectDuplicateStayDates: false }
+    );
+
+    expect(issues[1]?.rule).toBe('DUPLICATE_STAY_DATE');
+    expect(violations).toEqual([]);
+  });
+
+  it('rejects a file with too many skipped lines', () => {
+    const rows = [row('HISTORY', 13), row('HISTORY', 14)];
+
+    expect(validate(rows, { maxSkippedLineShare: 0.5 }, 2).violations).toEqual([]);
+    expect(validate(rows, { maxSkippedLineShare: 0.4 }, 2).violations[0]).toMatchObject({
+      rule: 'SKIPPED_LINE_SHARE',
+      message: expect.stringContaining('2 of 4 lines (50%)'),
+    });
+  });
+
+  it('lists the days missing between the first and last stay date', () => {
+    const { violations } = validate(
+      [row('HISTORY', 10), row('HISTORY', 11), row('FORECAST', 14)],
+      { requireContiguousStayDates: true }
+    );
+
+    expect(violations).toHaveLength(1);
+    expect(violations[0].rule).toBe('STAY_DATE_GAP');
+    expect(violations[0].message).toContain('2025-11-12, 2025-11-13');
+  });
+
+  it('checks the HISTORY/FORECAST boundary against the snapshot date', () => {
+    const rows = [row('HISTORY', 12), row('FORECAST', 16)];
+
+    expect(validate(rows, { maxBoundaryDays: 3 }).violations).toEqual([]);
+    expect(
+      validate(rows, { maxBoundaryDays: 2 }).violations.map((violation) => violation.message)
+    ).toEqual([
+      'Last HISTORY stay date 2025-11-12 is more than 2 days from the snapshot date 2025-11-15',
+    ]);
+  });
+
+  it('flags room nights above the rooms available', () => {
+    const rows = [row('HISTORY', 14, 110), row('HISTORY', 15, 111)];
+
+    expect(validate(rows).violations).toEqual([]);
+    expect(validate(rows, { maxCapacityOverrunPercent: 10 }).violations[0]).toMatchObject({
+      rule: 'CAPACITY_OVERRUN',
+      message: expect.stringContaining('2025-11-15'),
+    });
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import {
+  detectDecimalSeparator,
+  detectStayDateFormat,
+} from '../src/utils/localeDetection.js';
+
+describe('detectStayDateFormat', () => {
+  it('picks the only format that reads every value', () => {
+    expect(detectStayDateFormat(['01/11/25 Sat', '13/11/25 Thu'], 'd/M/yy')).toEqual({
+      value: 'd/M/yy',
+    });
+    expect(detectStayDateFormat(['11/13/2025', '11/14/2025'], 'd/M/yy')).toEqual({
+      value: 'M/d/yyyy',
+    });
+    expect(detectStayDateFormat(['2025-11-01'], 'd/M/yy')).toEqual({ value: 'yyyy-M-d' });
+  });
+
+  it('reports the formats a sample cannot tell apart', () => {
+    expect(detectStayDateFormat(['01/11/25', '02/11/25'], 'd/M/yy')).toEqual({
+      ambiguous: ['d/M/yy', 'M/d/yy'],
+    });
+  });
+
+  it('falls back when no value looks like a date', () => {
+    expect(detectStayDateFormat(['Stay Date', ''], 'd/M/yy')).toEqual({ value: 'd/M/yy' });
+  });
+});
+
+describe('detectDecimalSeparator', () => {
+  it('reads the decimal separator from numbers that allow one reading', () => {
+    expect(detectDecimalSeparator(['1,234.56', '12.5', '7'])).toEqual({ value: 'POINT' });
+    expect(detectDecimalSeparator(['1.234,56', '12,5 %'])).toEqual({ value: 'COMMA' });
+  });
+
+  it('reports both when the sample cannot tell them apart', () => {
+    expect(detectDecimalSeparator(['1,234', '5,678'])).toEqual({
+      ambiguous: ['POINT', 'COMMA'],
+    });
+  });
+
+  it('defaults to a point without separators', () => {
+    expect(detectDecimalSeparator(['12', '345'])).toEqual({ value: 'POINT' });
+  });
+});
@@ -0,0 +1,105 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { RoomInventoryPeriod } from '@prisma/client';
+import type { CapacityRules } from '../src/types/fileProcessor.types.js';
+
+const { findMany } = vi.hoisted(() => ({ findMany: vi.fn() }));
+vi.mock('../src/utils/prisma.js', () => ({
+  prisma: { roomInventoryPeriod: { findMany } },
+}));
+
+const { roomInventoryService } = await import('../src/services/roomInventory.service.js');
+
+const RULES: CapacityRules = {
+  totalAvailableRooms: 120,
+  periods: [
+    { fromDate: '2025-01-01', toDate: '2025-03-31', rooms: 100 },
+    { fromDate: '2025-06-01', toDate: null, rooms: 140 },
+  ],
+};
+
+/**
+ * Stored period (dates at local midnight, like parsed stay dates)
+ */
+function period(id: string, fromDate: Date, toDate: Date | null): RoomInventoryPeriod {
+  return { id, hotelId: 'hotel-1', fromDate, toDate, rooms: 100 } as RoomInventoryPeriod;
+}
+
+describe('roomInventoryService.toCapacity', () => {
+  const capacity = roomInventoryService.toCapacity(RULES);
+
+  it('uses the rooms of the period a stay date falls in, both ends included', () => {
+    expect(capacity(new Date(2025, 0, 1))).toBe(100);
+    expect(capacity(new Date(2025, 2, 31))).toBe(100);
+    expect(capacity(new Date(2025, 5, 1))).toBe(140);
+    expect(capacity(new Date(2031, 11, 31))).toBe(140);
+  });
+
+  it('falls back to the hotel room count outside the periods', () => {
+    expect(capacity(new Date(2024, 11, 31))).toBe(120);
+    expect(capacity(new Date(2025, 3, 1))).toBe(120);
+  });
+});
+
+describe('roomInventoryService.validatePeriod', () => {
+  beforeEach(() => {
+    findMany.mockReset();
+    findMany.mockResolvedValue([
+      period('closed', new Date(2025, 0, 1), new Date(2025, 2, 31)),
+      period('open', new Date(2025, 5, 1), null),
+    ]);
+  });
+
+  it('accepts a period between the existing ones', async () => {
+    await expect(
+      roomInventoryService.validatePeriod('hotel-1', {
+        fromDate: new Date(2025, 3, 1),
+        toDate: new Date(2025, 4, 31),
+        rooms: 110,
+      })
+    ).resolves.toBeNull();
+  });
+
+  it('rejects a period that shares a day with another one', async () => {
+    await expect(
+      roomInventoryService.validatePeriod('hotel-1', {
+        fromDate: new Date(2025, 2, 31),
+        toDate: new Date(2025, 4, 31),
+        rooms: 110,
+      })
+    ).resolves.toBe('Overlaps the period from 2025-01-01 to 2025-03-31 (closed)');
+  });
+
+  it('rejects an open-ended period before an existing one', async () => {
+    await expect(
+      roomInventoryService.validatePeriod('hotel-1', {
+        fromDate: new Date(2025, 3, 1),
+        toDate: null,
+        rooms: 110,
+      })
+    ).resolves.toBe('Overlaps the period from 2025-06-01 (open)');
+  });
+
+  it('checks the fields before looking at other periods', async () => {
+    await expect(
+      roomInventoryService.validatePeriod('hotel-1', {
+        fromDate: new Date(2025, 4, 31),
+        toDate: new Date(2025, 3, 1),
+        rooms: 110,
+      })
+    ).resolves.toBe('toDate must not be before fromDate');
+    await expect(
+      roomInventoryService.validatePeriod('hotel-1', { fromDate: new Date(2025, 3, 1), rooms: 1.5 })
+    ).resolves.toBe('rooms must be a whole number of rooms');
+    expect(findMany).not.toHaveBeenCalled();
+  });
+
+  it('leaves the updated period out of the overlap check', async () => {
+    const existing = period('closed', new Date(2025, 0, 1), new Date(2025, 2, 31));
+
+    await roomInventoryService.validatePeriod('hotel-1', { rooms: 90 }, existing);
+
+    expect(findMany).toHaveBeenCalledWith({
+      where: { hotelId: 'hotel-1', id: { not: 'closed' } },
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { FileFingerprint, ParseLocale } from '../src/types/fileProcessor.types.js';
+
+const { findFirst } = vi.hoisted(() => ({ findFirst: vi.fn() }));
+vi.mock('../src/utils/prisma.js', () => ({
+  prisma: { historyForecastSnapshot: { findFirst } },
+}));
+
+const { schemaDriftService } = await import('../src/services/schemaDrift.service.js');
+
+const LOCALE: ParseLocale = {
+  dateFormat: 'd/M/yy',
+  decimalSeparator: 'POINT',
+  detected: false,
+};
+
+/**
+ * Fingerprint of lines as the parser hands them over
+ */
+function fingerprint(lines: string[][], header: string[] | null = null): FileFingerprint {
+  const tally = schemaDriftService.startFingerprint(LOCALE);
+  for (const line of lines) {
+    schemaDriftService.addLine(tally, line);
+  }
+  return schemaDriftService.finishFingerprint(tally, header);
+}
+
+/**
+ * Lines with their columns in another order (indexes of the original columns)
+ */
+function reorder(lines: string[][], order: number[]): string[][] {
+  return lines.map((line) => order.map((index) => line[index]));
+}
+
+const HEADER = ['Data Type', 'Stay Date', 'Rooms', 'Revenue'];
+const LINES = [
+  ['History', '01/11/25 Sat', '80', '12,500.50'],
+  ['Forecast', '02/11/25 Sun', '75', '11,800.00'],
+  ['Forecast', '03/11/25 Mon', '', '9,900.00'],
+];
+
+describe('schemaDriftService fingerprints', () => {
+  it('records the column count, header and the kind and range of each column', () => {
+    expect(fingerprint(LINES, HEADER)).toEqual({
+      columnCount: 4,
+      headerSignature: 'datatype|staydate|rooms|revenue',
+      columns: [
+        { column: 1, kind: 'TEXT', min: null, max: null },
+        { column: 2, kind: 'DATE', min: null, max: null },
+        { column: 3, kind: 'NUMERIC', min: 75, max: 80 },
+        { column: 4, kind: 'NUMERIC', min: 9900, max: 12500.5 },
+      ],
+    });
+  });
+
+  it('finds nothing between files of the same structure', () => {
+    const previous = fingerprint(LINES, HEADER);
+    const current = fingerprint(LINES.slice(0, 2), HEADER);
+
+    expect(schemaDriftService.compareFingerprints(previous, current)).toEqual([]);
+  });
+
+  it('finds swapped columns by their kind and by their range', () => {
+    const previous = fingerprint(LINES);
+    const swapped = fingerprint(reorder(LINES, [0, 2, 1, 3]));
+    const moved = fingerprint(reorder(LINES, [0, 1, 3, 2]));
+
+    expect(
+      schemaDriftService.compareFingerprints(previous, swapped).map((finding) => finding.rule)
+    ).toEqual(['COLUMN_KIND', 'COLUMN_KIND']);
+    expect(schemaDriftService.compareFingerprints(previous, moved)).toEqual([
+      { rule: 'VALUE_RANGE', column: 3, message: 'Column 3 reaches 12500.5 instead of 80' },
+      { rule: 'VALUE_RANGE', column: 4, message: 'Column 4 reaches 80 instead of 12500.5' },
+    ]);
+  });
+
+  it('finds a changed column count and header', () => {
+    const previous = fingerprint(LINES, HEADER);
+    const current = fingerprint(
+      LINES.map((line) => [...line, 'x']),
+      ['Data Type', 'Stay Date', 'Room Nights', 'Revenue', 'Note']
+    );
+
+    expect(schemaDriftService.compareFingerprints(previous, current)).toEqual([
+      { rule: 'COLUMN_COUNT', message: 'Lines have 5 columns instead of 4' },
+      {
+        rule: 'HEADER_CHANGED',
+        column: 3,
+        message: 'Header of column 3 changed from "rooms" to "roomnights"',
+      },
+    ]);
+  });
+});
+
+describe('schemaDriftService.checkSnapshot', () => {
+  const snapshot = {
+    id: 'snapshot-2',
+    hotelId: 'hotel-1',
+    snapshotTime: new Date(2025, 10, 2),
+  };
+
+  beforeEach(() => {
+    findFirst.mockReset();
+  });
+
+  it('returns the drift fields without writing them', async () => {
+    const previous = fingerprint(LINES);
+    const current = fingerprint(reorder(LINES, [0, 1, 3, 2]));
+    findFirst.mockResolvedValue({ id: 'snapshot-1', fingerprint: previous });
+
+    const { findings, data } = await schemaDriftService.checkSnapshot(snapshot, current);
+
+    expect(findings).toHaveLength(2);
+    expect(data).toMatchObject({
+      fingerprint: current,
+      driftStatus: 'DRIFT_SUSPECTED',
+      driftFindings: findings,
+      driftAcknowledgedAt: null,
+    });
+    expect(findFirst.mock.calls[0][0].where).toMatchObject({
+      hotelId: 'hotel-1',
+      id: { not: 'snapshot-2' },
+      processingStatus: 'COMPLETED',
+    });
+  });
+
+  it('clears the drift status of the first file of a hotel', async () => {
+    findFirst.mockResolvedValue(null);
+
+    const { findings, data } = await schemaDriftService.checkSnapshot(
+      snapshot,
+      fingerprint(LINES)
+    );
+
+    expect(findings).toEqual([]);
+    expect(data.driftStatus).toBe('NONE');
+  });
+});
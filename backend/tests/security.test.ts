@@ -0,0 +1,56 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import express from 'express';
+import { readFile } from 'fs/promises';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+
+vi.mock('../src/config/index.js', () => ({ config: { ingestion: { maxFileSizeMb: 1 } } }));
+vi.mock('../src/utils/logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+const { errorHandler, upload } = await import('../src/middleware/security.js');
+const { removeUpload } = await import('../src/utils/uploadedFile.js');
+
+describe('upload size limit', () => {
+  let server: Server;
+  let url: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.post('/upload', upload.single('file'), async (req, res) => {
+      const content = await readFile(req.file!.path);
+      await removeUpload(req.file);
+      res.json({ size: content.length });
+    });
+    app.use(errorHandler);
+
+    server = app.listen(0);
+    await new Promise<void>((resolve) => server.once('listening', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/upload`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  async function post(size: number): Promise<Response> {
+    const form = new FormData();
+    form.append('file', new Blob([Buffer.alloc(size, 'a')]), 'history_forecast1.txt');
+    return fetch(url, { method: 'POST', body: form });
+  }
+
+  it('accepts a file within the limit', async () => {
+    const response = await post(1000);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ size: 1000 });
+  });
+
+  it('answers a file over the limit with 413', async () => {
+    const response = await post(2 * 1024 * 1024);
+
+    expect(response.status).toBe(413);
+    expect(await response.json()).toMatchObject({ error: 'File too large' });
+  });
+});
@@ -0,0 +1,97 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import pkg from '@prisma/client';
+import type { ParsedRow } from '../src/types/fileProcessor.types.js';
+
+const { findFirst, deleteMany, findFirstData, updateData } = vi.hoisted(() => ({
+  findFirst: vi.fn(),
+  deleteMany: vi.fn(),
+  findFirstData: vi.fn(),
+  updateData: vi.fn(),
+}));
+vi.mock('../src/utils/prisma.js', () => ({
+  prisma: {
+    historyForecastSnapshot: { findFirst, deleteMany },
+    historyForecastData: { findFirst: findFirstData, update: updateData },
+  },
+}));
+vi.mock('../src/services/blobStorage.service.js', () => ({ blobStorageService: {} }));
+
+const { snapshotService } = await import('../src/services/snapshot.service.js');
+
+const { Prisma } = pkg;
+
+describe('seed re-upload after a rejection', () => {
+  beforeEach(() => {
+    findFirst.mockReset();
+    deleteMany.mockReset();
+  });
+
+  it('does not count rejected or failed seed uploads as the seed', async () => {
+    findFirst.mockResolvedValue(null);
+
+    await expect(snapshotService.findSeedSnapshot('hotel-1')).resolves.toBeNull();
+    expect(findFirst).toHaveBeenCalledWith({
+      where: {
+        hotelId: 'hotel-1',
+        isSeedSnapshot: true,
+        processingStatus: { notIn: ['REJECTED', 'FAILED'] },
+      },
+    });
+  });
+
+  it('deletes the rejected and failed seed uploads it replaces', async () => {
+    deleteMany.mockResolvedValue({ count: 1 });
+
+    await expect(snapshotService.deleteFailedSeedSnapshots('hotel-1')).resolves.toBe(1);
+    expect(deleteMany).toHaveBeenCalledWith({
+      where: {
+        hotelId: 'hotel-1',
+        isSeedSnapshot: true,
+        processingStatus: { in: ['REJECTED', 'FAILED'] },
+      },
+    });
+  });
+});
+
+describe('snapshotService.updateSeedActualsWithHistory', () => {
+  /**
+   * HISTORY row of an hourly snapshot
+   */
+  function historyRow(day: number, fields: ParsedRow['fields']): ParsedRow {
+    return {
+      dataType: 'HISTORY',
+      stayDate: new Date(2025, 10, day),
+      roomNights: 80,
+      roomRevenue: 12000,
+      occupancyPercent: 80,
+      adr: 150,
+      revPAR: 120,
+      fields,
+    } as ParsedRow;
+  }
+
+  beforeEach(() => {
+    findFirst.mockReset();
+    findFirstData.mockReset();
+    updateData.mockReset();
+    findFirst.mockResolvedValue({ id: 'seed-1' });
+    findFirstData.mockResolvedValue({ id: 'row-1' });
+  });
+
+  it('copies the named fields with the actuals', async () => {
+    await snapshotService.updateSeedActualsWithHistory('hotel-1', [
+      historyRow(1, { arrivals: 12, segment: 'Leisure' }),
+    ]);
+
+    expect(updateData.mock.calls[0][0]).toMatchObject({
+      where: { id: 'row-1' },
+      data: { roomNights: 80, fields: { arrivals: 12, segment: 'Leisure' } },
+    });
+  });
+
+  it('clears the named fields when the file has none', async () => {
+    await snapshotService.updateSeedActualsWithHistory('hotel-1', [historyRow(1, {})]);
+
+    expect(updateData.mock.calls[0][0].data.fields).toBe(Prisma.DbNull);
+  });
+});
@@ -0,0 +1,65 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { existsSync } from 'fs';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { calculateFileHash, calculateStreamHash } from '../src/utils/fileHash.js';
+import { readUploadHead, removeUpload, uploadSource } from '../src/utils/uploadedFile.js';
+
+let directory: string | null = null;
+
+/**
+ * File as multer's disk storage hands it over
+ */
+async function uploaded(content: Buffer): Promise<Express.Multer.File> {
+  directory = await mkdtemp(path.join(os.tmpdir(), 'upload-test-'));
+  const filePath = path.join(directory, 'upload');
+  await writeFile(filePath, content);
+  const file = { path: filePath, size: content.length, originalname: 'export.txt' };
+  return file as Express.Multer.File;
+}
+
+afterEach(async () => {
+  if (directory) {
+    await rm(directory, { recursive: true, force: true });
+    directory = null;
+  }
+});
+
+describe('uploaded files', () => {
+  it('reads the head of a small file as the whole file', async () => {
+    const file = await uploaded(Buffer.from('History\t01/11/25\n'));
+
+    await expect(readUploadHead(file)).resolves.toEqual({
+      head: Buffer.from('History\t01/11/25\n'),
+      complete: true,
+    });
+  });
+
+  it('reads only the head of a large file', async () => {
+    const file = await uploaded(Buffer.alloc(20000, 'a'));
+
+    const { head, complete } = await readUploadHead(file);
+
+    expect(head).toHaveLength(8192);
+    expect(complete).toBe(false);
+  });
+
+  it('streams the file from disk', async () => {
+    const content = Buffer.alloc(100000, 'b');
+    const file = await uploaded(content);
+
+    await expect(calculateStreamHash(uploadSource(file).chunks)).resolves.toBe(
+      calculateFileHash(content)
+    );
+  });
+
+  it('deletes the file', async () => {
+    const file = await uploaded(Buffer.from('a'));
+
+    await removeUpload(file);
+    await removeUpload(undefined);
+
+    expect(existsSync(file.path)).toBe(false);
+  });
+});
@@ -12,6 +12,38 @@ interface Hotel {
   email: string;
 }
 
+interface DateRange {
+  from: string | null;
+  to: string | null;
+}
+
+interface FilePreview {
+  filename: string;
+  rowCount: number;
+  skippedLineCount: number;
+  dateRange: DateRange;
+  history: DateRange & { count: number };
+  forecast: DateRange & { count: number };
+  accepted: boolean;
+  violations: { rule: string; message: string }[];
+  issueCount: number;
+  issues: { line: number; severity: 'WARNING' | 'ERROR'; rule: string; message: string }[];
+  rows: {
+    rowIndex: number;
+    dataType: 'HISTORY' | 'FORECAST';
+    stayDate: string;
+    roomNights: number;
+    roomRevenue: number;
+    occupancyPercent: number;
+    adr: number;
+    revPAR: number;
+  }[];
+}
+
+// Rows and issues shown in the preview; the totals cover the whole file
+const PREVIEW_ROW_LIMIT = 10;
+const PREVIEW_ISSUE_LIMIT = 10;
+
 export function SeedUploadForm() {
   const [hotels, setHotels] = useState<Hotel[]>([]);
   const [selectedHotelId, setSelectedHotelId] = useState<string>('');
@@ -19,6 +51,8 @@ export function SeedUploadForm() {
   const [onboardingDate, setOnboardingDate] = useState<string>('');
   const [loading, setLoading] = useState(false);
   const [uploading, setUploading] = useState(false);
+  const [previewing, setPreviewing] = useState(false);
+  const [preview, setPreview] = useState<FilePreview | null>(null);
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
 
   useEffect(() => {
@@ -47,16 +81,65 @@ export function SeedUploadForm() {
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0];
     if (selectedFile) {
-      // Validate file type (should be .txt)
-      if (!selectedFile.name.endsWith('.txt')) {
-        setMessage({ type: 'error', text: 'Please upload a .txt file' });
+      // Validate file type (.txt, .csv or .xlsx)
+      if (!/\.(txt|csv|xlsx)$/i.test(selectedFile.name)) {
+        setMessage({ type: 'error', text: 'Please upload a .txt, .csv or .xlsx file' });
         return;
       }
       setFile(selectedFile);
+      setPreview(null);
       setMessage(null);
     }
   };
 
+  const buildQuery = () => {
+    const params = new URLSearchParams();
+    if (onboardingDate) {
+      params.append('onboardingDate', onboardingDate);
+    }
+    return params.toString();
+  };
+
+  // Parse and validate the file without storing anything, so it can be checked before the seed is created
+  const handlePreview = async () => {
+    if (!selectedHotelId || !file) {
+      return;
+    }
+
+    setPreviewing(true);
+    setMessage(null);
+
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const response = await fetch(
+        `${API_BASE_URL}/api/hotels/${selectedHotelId}/preview?${buildQuery()}`,
+        {
+          method: 'POST',
+          body: formData,
+        }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to preview file');
+      }
+
+      setPreview(data);
+    } catch (error) {
+      console.error('Error previewing seed data:', error);
+      setPreview(null);
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Failed to preview file. Please try again.',
+      });
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -70,6 +153,11 @@ export function SeedUploadForm() {
       return;
     }
 
+    if (!preview?.accepted) {
+      setMessage({ type: 'error', text: 'Please preview the file and check it before uploading' });
+      return;
+    }
+
     setUploading(true);
     setMessage(null);
 
@@ -77,13 +165,8 @@ export function SeedUploadForm() {
       const formData = new FormData();
       formData.append('file', file);
 
-      const params = new URLSearchParams();
-      if (onboardingDate) {
-        params.append('onboardingDate', onboardingDate);
-      }
-
       const response = await fetch(
-        `${API_BASE_URL}/api/hotels/${selectedHotelId}/seed?${params.toString()}`,
+        `${API_BASE_URL}/api/hotels/${selectedHotelId}/seed?${buildQuery()}`,
         {
           method: 'POST',
           body: formData,
@@ -93,7 +176,8 @@ export function SeedUploadForm() {
       const data = await response.json();
 
       if (!response.ok) {
-        throw new Error(data.error || 'Failed to upload seed data');
+        const violations = (data.violations ?? []).map((v: { message: string }) => v.message);
+        throw new Error([data.error || 'Failed to upload seed data', ...violations].join('. '));
       }
 
       setMessage({
@@ -103,6 +187,7 @@ export function SeedUploadForm() {
 
       // Reset form
       setFile(null);
+      setPreview(null);
       setOnboardingDate('');
       const fileInput = document.getElementById('file-input') as HTMLInputElement;
       if (fileInput) {
@@ -128,10 +213,13 @@ export function SeedUploadForm() {
           </label>
           <select
             value={selectedHotelId}
-            onChange={(e) => setSelectedHotelId(e.target.value)}
+            onChange={(e) => {
+              setSelectedHotelId(e.target.value);
+              setPreview(null);
+            }}
             className="w-full rounded-lg border border-stroke bg-transparent px-5 py-3 text-dark outline-none transition focus:border-primary focus-1 active:border-primary disabled:cursor-default disabled:bg-whiter dark:border-form-strokedark dark:bg-form-input dark:text-white dark:focus:border-primary"
             required
-            disabled={loading || uploading}
+            disabled={loading || uploading || previewing}
           >
             {loading ? (
               <option>Loading hotels...</option>
@@ -154,14 +242,14 @@ export function SeedUploadForm() {
           <input
             id="file-input"
             type="file"
-            accept=".txt"
+            accept=".txt,.csv,.xlsx"
             onChange={handleFileChange}
             className="w-full rounded-lg border border-stroke bg-transparent px-5 py-3 text-dark outline-none transition focus:border-primary focus-1 active:border-primary disabled:cursor-default disabled:bg-whiter dark:border-form-strokedark dark:bg-form-input dark:text-white dark:focus:border-primary"
             required
-            disabled={loading || uploading}
+            disabled={loading || uploading || previewing}
           />
           <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
-            Upload a tab-separated .txt file containing one year of historical data (365 days).
+            Upload a tab-separated .txt, a .csv or an .xlsx file containing one year of historical data (365 days).
             The file should have the same format as hourly snapshot files.
           </p>
         </div>
@@ -171,14 +259,92 @@ export function SeedUploadForm() {
           type="date"
           placeholder="Select onboarding date"
           value={onboardingDate}
-          handleChange={(e) => setOnboardingDate(e.target.value)}
+          handleChange={(e) => {
+            setOnboardingDate(e.target.value);
+            setPreview(null);
+          }}
           className="mb-4.5"
-          disabled={loading || uploading}
+          disabled={loading || uploading || previewing}
         />
         <p className="mb-4.5 text-xs text-gray-500 dark:text-gray-400">
           If not specified, the current date will be used as the snapshot time for the seed data.
         </p>
 
+        {preview && (
+          <div className="mb-4.5 rounded-lg border border-stroke p-4 text-sm text-dark dark:border-dark-3 dark:text-white">
+            <p className="mb-2 font-medium">Preview of {preview.filename}</p>
+            <ul className="mb-3 space-y-1">
+              <li>
+                {preview.rowCount} rows ({preview.skippedLineCount} lines skipped)
+                {preview.dateRange.from && `, ${preview.dateRange.from} to ${preview.dateRange.to}`}
+              </li>
+              <li>
+                HISTORY: {preview.history.count} rows
+                {preview.history.from && ` (${preview.history.from} to ${preview.history.to})`}
+              </li>
+              <li>
+                FORECAST: {preview.forecast.count} rows
+                {preview.forecast.from && ` (${preview.forecast.from} to ${preview.forecast.to})`}
+              </li>
+            </ul>
+
+            {preview.violations.length > 0 && (
+              <div className="mb-3 rounded-lg bg-red-50 p-3 text-red-800 dark:bg-red-900/20 dark:text-red-400">
+                <p className="font-medium">This file would be rejected:</p>
+                <ul className="list-inside list-disc">
+                  {preview.violations.map((violation) => (
+                    <li key={violation.rule}>{violation.message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {preview.issues.length > 0 && (
+              <div className="mb-3">
+                <p className="font-medium">Issues ({preview.issueCount})</p>
+                <ul className="text-xs text-gray-500 dark:text-gray-400">
+                  {preview.issues.slice(0, PREVIEW_ISSUE_LIMIT).map((issue, index) => (
+                    <li key={index}>
+                      Line {issue.line} [{issue.severity}] {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {preview.rows.length > 0 && (
+              <div className="overflow-x-auto">
+                <table className="w-full text-left text-xs">
+                  <thead>
+                    <tr className="border-b border-stroke dark:border-dark-3">
+                      <th className="py-1 pr-3">Stay date</th>
+                      <th className="py-1 pr-3">Type</th>
+                      <th className="py-1 pr-3">Room nights</th>
+                      <th className="py-1 pr-3">Revenue</th>
+                      <th className="py-1 pr-3">Occ %</th>
+                      <th className="py-1 pr-3">ADR</th>
+                      <th className="py-1">RevPAR</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.rows.slice(0, PREVIEW_ROW_LIMIT).map((row) => (
+                      <tr key={row.rowIndex}>
+                        <td className="py-1 pr-3">{row.stayDate}</td>
+                        <td className="py-1 pr-3">{row.dataType}</td>
+                        <td className="py-1 pr-3">{row.roomNights}</td>
+                        <td className="py-1 pr-3">{row.roomRevenue.toFixed(2)}</td>
+                        <td className="py-1 pr-3">{row.occupancyPercent.toFixed(2)}</td>
+                        <td className="py-1 pr-3">{row.adr.toFixed(2)}</td>
+                        <td className="py-1">{row.revPAR.toFixed(2)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+
         {message && (
           <div
             className={`mb-4.5 rounded-lg p-4 ${
@@ -191,9 +357,18 @@ export function SeedUploadForm() {
           </div>
         )}
 
+        <button
+          type="button"
+          onClick={handlePreview}
+          disabled={loading || uploading || previewing || !selectedHotelId || !file}
+          className="mb-4.5 flex w-full justify-center rounded-lg border border-primary p-[13px] font-medium text-primary hover:bg-primary/10 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {previewing ? 'Checking file...' : 'Preview File'}
+        </button>
+
         <button
           type="submit"
-          disabled={loading || uploading || !selectedHotelId || !file}
+          disabled={loading || uploading || previewing || !selectedHotelId || !file || !preview?.accepted}
           className="flex w-full justify-center rounded-lg bg-primary p-[13px] font-medium text-white hover:bg-opacity-90 disabled:cursor-not-allowed disabled:opacity-50"
         >
           {uploading ? 'Uploading...' : 'Upload Seed Data'}